@@ -0,0 +1,80 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/vue-query'
+import type { ResponseRuleConfig, ResponseRuleInput } from '~~/shared/types'
+
+/**
+ * Response rules store - handles rule CRUD for a token
+ * Uses TanStack Query for caching and state management
+ */
+export const useRulesStore = () => {
+    const queryClient = useQueryClient()
+
+    /**
+     * Query to fetch all response rules for a token
+     */
+    const useRulesList = (tokenId: Ref<string> | string) => {
+        const id = computed(() => unref(tokenId))
+
+        return useQuery({
+            queryKey: ['rules', id],
+            queryFn: async () => await $fetch<ResponseRuleConfig[]>(`/api/token/${id.value}/rules`),
+            enabled: computed(() => !!id.value),
+            staleTime: 1000 * 60,
+        })
+    }
+
+    /**
+     * Mutation to create a new rule at the end of the list
+     */
+    const useCreateRule = () => useMutation({
+        mutationFn: async (params: { tokenId: string; rule: ResponseRuleInput }) => {
+            return await $fetch<ResponseRuleConfig>(`/api/token/${params.tokenId}/rules`, { method: 'POST', body: params.rule })
+        },
+        onSuccess: (data, variables) => queryClient.invalidateQueries({ queryKey: ['rules', variables.tokenId] }),
+    })
+
+    /**
+     * Mutation to update a rule
+     */
+    const useUpdateRule = () => useMutation({
+        mutationFn: async (params: { tokenId: string; ruleId: string; updates: ResponseRuleInput }) => {
+            return await $fetch<ResponseRuleConfig>(`/api/token/${params.tokenId}/rules/${params.ruleId}`, {
+                method: 'PATCH',
+                body: params.updates,
+            })
+        },
+        onSuccess: (data, variables) => queryClient.invalidateQueries({ queryKey: ['rules', variables.tokenId] }),
+    })
+
+    /**
+     * Mutation to delete a rule
+     */
+    const useDeleteRule = () => useMutation({
+        mutationFn: async (params: { tokenId: string; ruleId: string }) => {
+            await $fetch(`/api/token/${params.tokenId}/rules/${params.ruleId}`, { method: 'DELETE' })
+        },
+        onSuccess: (data, variables) => queryClient.invalidateQueries({ queryKey: ['rules', variables.tokenId] }),
+    })
+
+    /**
+     * Mutation to change rule evaluation order
+     */
+    const useReorderRules = () => useMutation({
+        mutationFn: async (params: { tokenId: string; ids: string[] }) => {
+            return await $fetch<ResponseRuleConfig[]>(`/api/token/${params.tokenId}/rules`, {
+                method: 'PUT',
+                body: { ids: params.ids },
+            })
+        },
+        onSuccess: (data, variables) => queryClient.setQueryData(['rules', variables.tokenId], data),
+    })
+
+    return {
+        // Query hooks
+        useRulesList,
+        // Mutation hooks
+        useCreateRule,
+        useUpdateRule,
+        useDeleteRule,
+        useReorderRules,
+    }
+}
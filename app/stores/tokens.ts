@@ -1,5 +1,5 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/vue-query'
-import type { Token, TokenListItem } from '~~/shared/types'
+import type { CorsPolicy, IpPolicy, ResponseFileUpload, ResponseSequenceStep, ResponseStreamChunk, Token, TokenListItem } from '~~/shared/types'
 
 /**
  * Tokens store - handles all token-related API operations
@@ -51,6 +51,8 @@ export const useTokensStore = () => {
             mutationFn: async (params: {
                 tokenId: string
                 updates: Pick<Token, 'responseEnabled' | 'responseStatus' | 'responseHeaders' | 'responseBody'>
+                    & Partial<Pick<Token, 'responseDelayMode' | 'responseDelayMs' | 'responseDelayMaxMs' | 'responseSequenceMode' | 'responseMode' | 'proxyUrl' | 'responseStreamFormat' | 'responseStreamLoop' | 'signatureScheme' | 'signatureSecret' | 'signatureHeader' | 'signatureTolerance' | 'rateLimitPerMinute' | 'maxRequests' | 'rateLimitRetryAfter' | 'authScheme' | 'authUsername' | 'authSecret' | 'authParam' | 'pinned' | 'requestTtlMinutes' | 'keepLastRequests' | 'websocketReplyMode' | 'websocketReplyMessage'>>
+                    & { responseSequence?: ResponseSequenceStep[] | null, responseStream?: ResponseStreamChunk[] | null, responseFile?: ResponseFileUpload | null, corsPolicy?: Partial<CorsPolicy> | null, ipPolicy?: Partial<IpPolicy> | null }
             }) => {
                 return await $fetch<Token>(`/api/token/${params.tokenId}`, { method: 'PATCH', body: params.updates })
             },
@@ -61,6 +63,50 @@ export const useTokensStore = () => {
         })
     }
 
+    /**
+     * Mutation to restart a token's response sequence from the first step
+     */
+    const useResetSequence = () => useMutation({
+        mutationFn: async (tokenId: string) => await $fetch<{ ok: boolean, position: number }>(`/api/token/${tokenId}/sequence/reset`, { method: 'POST' }),
+        onSuccess: (data, tokenId) => queryClient.invalidateQueries({ queryKey: ['token', tokenId] }),
+    })
+
+    /**
+     * Mutation to clear a token's rejected request counter and rate limit window
+     */
+    const useResetRateLimit = () => useMutation({
+        mutationFn: async (tokenId: string) => await $fetch<{ ok: boolean, rejectedCount: number }>(`/api/token/${tokenId}/rate-limit/reset`, { method: 'POST' }),
+        onSuccess: (data, tokenId) => queryClient.invalidateQueries({ queryKey: ['token', tokenId] }),
+    })
+
+    /**
+     * Mutation to update a token's name, description, colour and tags
+     */
+    const useUpdateLabels = () => useMutation({
+        mutationFn: async (params: { tokenId: string, labels: Partial<Pick<TokenListItem, 'name' | 'description' | 'color' | 'tags'>> }) => await $fetch<Pick<TokenListItem, 'name' | 'description' | 'color' | 'tags'>>(
+            `/api/token/${params.tokenId}/labels`,
+            { method: 'PATCH', body: params.labels },
+        ),
+        onSuccess: (data, variables) => {
+            queryClient.invalidateQueries({ queryKey: ['token', variables.tokenId] })
+            queryClient.invalidateQueries({ queryKey: ['tokens'] })
+        },
+    })
+
+    /**
+     * Mutation to claim or rename a token's alias, a null alias releases it for a random ID
+     */
+    const useSetAlias = () => useMutation({
+        mutationFn: async (params: { tokenId: string, alias: string | null }) => await $fetch<{ ok: boolean, friendlyId: string }>(
+            `/api/token/${params.tokenId}/alias`,
+            null === params.alias ? { method: 'DELETE' } : { method: 'PUT', body: { alias: params.alias } },
+        ),
+        onSuccess: (data, variables) => {
+            queryClient.invalidateQueries({ queryKey: ['token', variables.tokenId] })
+            queryClient.invalidateQueries({ queryKey: ['tokens'] })
+        },
+    })
+
     /**
      * Mutation to delete a single token
      */
@@ -84,6 +130,10 @@ export const useTokensStore = () => {
         // Mutation hooks
         useCreateToken,
         useUpdateToken,
+        useResetSequence,
+        useResetRateLimit,
+        useUpdateLabels,
+        useSetAlias,
         useDeleteToken,
         useDeleteAllTokens,
     }
@@ -1,3 +1,5 @@
+import type { SignatureResult } from '~~/shared/types'
+
 export const copyText = async (text: string): Promise<boolean> => {
   if (typeof navigator !== 'undefined' && navigator.clipboard && typeof navigator.clipboard.writeText === 'function') {
     try {
@@ -49,4 +51,45 @@ export const formatDate = (iso?: string) => {
   } catch {
     return ''
   }
-}
\ No newline at end of file
+}
+export const parseSignature = (raw: string | null | undefined): SignatureResult | null => {
+  if (!raw) {
+    return null
+  }
+  try {
+    return JSON.parse(raw) as SignatureResult
+  } catch {
+    return null
+  }
+}
+
+export const headersToText = (headers: Record<string, string> | null | undefined): string => {
+  if (!headers) {
+    return ''
+  }
+  return Object.entries(headers).map(([key, value]) => `${key}: ${value}`).join('\n')
+}
+
+export const textToHeaders = (input: string): Record<string, string> | null => {
+  const lines = input.split(/\r?\n/).map((line) => line.trim()).filter(Boolean)
+
+  if (!lines.length) {
+    return null
+  }
+
+  const out: Record<string, string> = {}
+  for (const line of lines) {
+    const idx = line.indexOf(':')
+    if (idx === -1) {
+      continue
+    }
+    const key = line.slice(0, idx).trim()
+    const value = line.slice(idx + 1).trim()
+    if (!key) {
+      continue
+    }
+    out[key] = value
+  }
+
+  return Object.keys(out).length ? out : null
+}
@@ -0,0 +1,18 @@
+CREATE TABLE `response_rules` (
+	`id` text PRIMARY KEY NOT NULL,
+	`token_id` text NOT NULL,
+	`position` integer DEFAULT 0 NOT NULL,
+	`name` text,
+	`enabled` integer DEFAULT true NOT NULL,
+	`method` text,
+	`path_pattern` text,
+	`conditions` text,
+	`response_status` integer DEFAULT 200 NOT NULL,
+	`response_headers` text,
+	`response_body` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`token_id`) REFERENCES `tokens`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `rule_token_idx` ON `response_rules` (`token_id`);--> statement-breakpoint
+CREATE INDEX `rule_position_idx` ON `response_rules` (`token_id`,`position`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `requests` ADD `path` text DEFAULT '/' NOT NULL;--> statement-breakpoint
+CREATE INDEX `request_path_idx` ON `requests` (`token_id`,`path`);
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `tokens` ADD `response_delay_mode` text DEFAULT 'none' NOT NULL;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `response_delay_ms` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `response_delay_max_ms` integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `tokens` ADD `response_sequence` text;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `response_sequence_mode` text DEFAULT 'stick' NOT NULL;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `response_sequence_position` integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `request_responses` (
+	`request_id` text PRIMARY KEY NOT NULL,
+	`source` text NOT NULL,
+	`status` integer NOT NULL,
+	`headers` text NOT NULL,
+	`content_type` text,
+	`content_length` integer DEFAULT 0 NOT NULL,
+	`is_binary` integer DEFAULT false NOT NULL,
+	`body_path` text,
+	`latency_ms` integer,
+	`error` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`request_id`) REFERENCES `requests`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+ALTER TABLE `tokens` ADD `response_mode` text DEFAULT 'static' NOT NULL;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `proxy_url` text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `request_responses` ADD `rule_id` text;--> statement-breakpoint
+ALTER TABLE `request_responses` ADD `duration_ms` integer;
\ No newline at end of file
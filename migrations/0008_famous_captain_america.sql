@@ -0,0 +1,4 @@
+ALTER TABLE `tokens` ADD `response_file_path` text;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `response_file_name` text;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `response_file_type` text;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `response_file_size` integer;
\ No newline at end of file
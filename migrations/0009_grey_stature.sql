@@ -0,0 +1 @@
+ALTER TABLE `tokens` ADD `cors_policy` text;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE `requests` ADD `signature` text;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `signature_scheme` text;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `signature_secret` text;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `signature_header` text;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `signature_tolerance` integer DEFAULT 300 NOT NULL;
\ No newline at end of file
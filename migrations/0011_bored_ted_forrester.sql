@@ -0,0 +1,2 @@
+ALTER TABLE `requests` ADD `body_hash` text;--> statement-breakpoint
+ALTER TABLE `requests` ADD `truncated` integer DEFAULT false NOT NULL;
\ No newline at end of file
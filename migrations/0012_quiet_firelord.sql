@@ -0,0 +1,4 @@
+ALTER TABLE `tokens` ADD `rate_limit_per_minute` integer;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `max_requests` integer;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `rate_limit_retry_after` integer DEFAULT 60 NOT NULL;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `rejected_count` integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `requests` ADD `blocked` integer DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `ip_policy` text;
\ No newline at end of file
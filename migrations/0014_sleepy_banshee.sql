@@ -0,0 +1,5 @@
+ALTER TABLE `requests` ADD `auth_status` text;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `auth_scheme` text;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `auth_username` text;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `auth_secret` text;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `auth_param` text;
\ No newline at end of file
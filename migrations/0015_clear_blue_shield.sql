@@ -0,0 +1,4 @@
+ALTER TABLE `tokens` ADD `name` text;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `description` text;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `color` text;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `tags` text;
\ No newline at end of file
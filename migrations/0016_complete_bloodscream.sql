@@ -0,0 +1,3 @@
+ALTER TABLE `tokens` ADD `pinned` integer DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `request_ttl_minutes` integer;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `keep_last_requests` integer;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `tokens` ADD `response_stream` text;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `response_stream_format` text DEFAULT 'sse' NOT NULL;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `response_stream_loop` integer DEFAULT false NOT NULL;
\ No newline at end of file
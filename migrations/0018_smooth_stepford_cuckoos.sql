@@ -0,0 +1,17 @@
+CREATE TABLE `websocket_frames` (
+	`id` text PRIMARY KEY NOT NULL,
+	`request_id` text NOT NULL,
+	`direction` text NOT NULL,
+	`type` text NOT NULL,
+	`data` text NOT NULL,
+	`size` integer NOT NULL,
+	`truncated` integer DEFAULT false NOT NULL,
+	`close_code` integer,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`request_id`) REFERENCES `requests`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `websocket_frame_request_idx` ON `websocket_frames` (`request_id`,`created_at`);--> statement-breakpoint
+ALTER TABLE `requests` ADD `websocket` integer DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `websocket_reply_mode` text DEFAULT 'none' NOT NULL;--> statement-breakpoint
+ALTER TABLE `tokens` ADD `websocket_reply_message` text;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE `emails` (
+	`request_id` text PRIMARY KEY NOT NULL,
+	`envelope_from` text,
+	`envelope_to` text NOT NULL,
+	`from` text,
+	`to` text,
+	`cc` text,
+	`reply_to` text,
+	`subject` text,
+	`date` text,
+	`message_id` text,
+	`text` text,
+	`html` text,
+	`attachments` text DEFAULT '[]' NOT NULL,
+	FOREIGN KEY (`request_id`) REFERENCES `requests`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+ALTER TABLE `requests` ADD `email` integer DEFAULT false NOT NULL;
\ No newline at end of file
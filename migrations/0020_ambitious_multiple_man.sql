@@ -0,0 +1 @@
+ALTER TABLE `requests` ADD `raw_headers` text;
\ No newline at end of file
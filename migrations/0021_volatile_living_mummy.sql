@@ -0,0 +1,5 @@
+ALTER TABLE `requests` ADD `http_version` text;--> statement-breakpoint
+ALTER TABLE `requests` ADD `tls` integer;--> statement-breakpoint
+ALTER TABLE `requests` ADD `server_port` integer;--> statement-breakpoint
+ALTER TABLE `requests` ADD `body_framing` text;--> statement-breakpoint
+ALTER TABLE `requests` ADD `receive_ms` integer;
\ No newline at end of file
@@ -0,0 +1,7 @@
+-- Friendly IDs that only differ by case would fail the index, later tokens fall back to their id.
+UPDATE `tokens` SET `friendly_id` = `id` WHERE EXISTS (
+	SELECT 1 FROM `tokens` `older`
+	WHERE lower(`older`.`friendly_id`) = lower(`tokens`.`friendly_id`)
+	AND (`older`.`created_at` < `tokens`.`created_at` OR (`older`.`created_at` = `tokens`.`created_at` AND `older`.`rowid` < `tokens`.`rowid`))
+);--> statement-breakpoint
+CREATE UNIQUE INDEX `token_friendly_id_lower_unique` ON `tokens` (lower("friendly_id"));
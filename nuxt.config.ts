@@ -2,6 +2,7 @@ import tailwindcss from "@tailwindcss/vite";
 
 const sessionRestoreEnabled = process.env.SESSION_RESTORE_ENABLED !== 'false'
 const llmEndpointEnabled = process.env.ENABLE_LLM_ENDPOINT === 'true'
+const payloadHostDomain = (process.env.PAYLOAD_HOST_DOMAIN || '').trim().toLowerCase().replace(/^\.+|\.+$/g, '')
 
 export default defineNuxtConfig({
   compatibilityDate: '2025-07-15',
@@ -27,6 +28,11 @@ export default defineNuxtConfig({
       ],
     },
   },
+  nitro: {
+    experimental: {
+      websocket: true,
+    },
+  },
   css: ['~/assets/css/main.css'],
   postcss: {
     plugins: {
@@ -40,6 +46,7 @@ export default defineNuxtConfig({
     public: {
       sessionRestoreEnabled,
       llmEndpointEnabled,
+      payloadHostDomain,
     },
   },
 
@@ -0,0 +1,9 @@
+import { defineEventHandler, getQuery, type H3Event, type EventHandlerRequest } from 'h3'
+import { cleanupExpiredData } from '~~/server/lib/cleanup'
+
+export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) => {
+  const query = getQuery(event)
+  const dryRun = 'true' === query.dryRun || '1' === query.dryRun
+
+  return await cleanupExpiredData(undefined, undefined, { dryRun })
+})
@@ -0,0 +1,35 @@
+import { defineEventHandler, readBody, createError, type H3Event, type EventHandlerRequest } from 'h3'
+import {
+  DEFAULT_RETENTION_POLICY,
+  getEnvRetentionPolicy,
+  getRetentionPolicy,
+  normalizeRetentionPolicyInput,
+  updateRetentionPolicy,
+} from '~~/server/lib/retention'
+
+export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) => {
+  const method = event.node.req.method?.toUpperCase() || 'GET'
+
+  if ('GET' === method) {
+    return { ...await getRetentionPolicy(), env: getEnvRetentionPolicy(), defaults: DEFAULT_RETENTION_POLICY }
+  }
+
+  if ('PATCH' !== method) {
+    throw createError({ statusCode: 405, message: 'Method not allowed' })
+  }
+
+  const body = (await readBody(event).catch(() => ({}))) as Record<string, unknown> | null
+
+  let changes
+  try {
+    changes = normalizeRetentionPolicyInput(body || {})
+  } catch (err) {
+    throw createError({ statusCode: 400, message: err instanceof Error ? err.message : 'Invalid retention policy' })
+  }
+
+  if (!Object.keys(changes).length) {
+    throw createError({ statusCode: 400, message: 'Expected sessionTtlDays, tokenTtlDays or requestTtlDays' })
+  }
+
+  return { ...await updateRetentionPolicy(changes), env: getEnvRetentionPolicy(), defaults: DEFAULT_RETENTION_POLICY }
+})
@@ -20,7 +20,7 @@ export default defineEventHandler(() => {
         description: 'Create a new payload token',
         response: {
           id: 'UUID of the token',
-          friendlyId: 'Short 8-character ID',
+          friendlyId: 'Short 8-character ID or vanity alias',
           sessionId: 'Static LLM session ID',
           createdAt: 'ISO timestamp',
           payloadUrl: 'URL to send HTTP requests to',
@@ -37,11 +37,16 @@ export default defineEventHandler(() => {
         parameters: {
           token: 'Token ID (UUID) or friendlyId (8-char)',
           secret: 'Required query param when accessing user tokens (e.g., ?secret=UUID)',
+          path: 'Optional query param to only return requests sent to this sub-path (e.g., ?path=/v1/events)',
         },
         response: {
           token: {
             id: 'Token UUID',
             friendlyId: 'Short ID',
+            name: 'Label or null',
+            description: 'Free-text description or null',
+            color: 'Hex colour (#rrggbb) or null',
+            tags: 'Array of lowercase tags',
             createdAt: 'ISO timestamp',
             payloadUrl: 'URL for webhook ingestion',
           },
@@ -50,14 +55,30 @@ export default defineEventHandler(() => {
               id: 'Request UUID',
               method: 'HTTP method',
               url: 'Full URL',
-              headers: 'Headers object',
+              path: 'Sub-path after the payload URL, / when none',
+              headers: 'Headers object, lowercased names with repeated headers joined',
+              rawHeaders: 'Headers as received: [[name, value]] in order with original casing, repeated headers are separate entries',
               contentType: 'Content-Type header',
-              contentLength: 'Body size in bytes',
+              contentLength: 'Stored body size in bytes',
               isBinary: 'Boolean',
+              bodyHash: 'SHA-256 hex of the body as received or null',
+              truncated: 'Boolean - body exceeded MAX_BODY_SIZE and was cut',
               body: 'Request body as string or null',
               clientIp: 'Client IP address',
               remoteIp: 'Remote IP address',
               createdAt: 'ISO timestamp',
+              signature: 'Signature check or null: { scheme, status (valid, invalid or missing), expected, received, message }',
+              blocked: 'Boolean - refused by the token IP policy and recorded for inspection',
+              authStatus: 'passed, missing, invalid or null when the token requires no credentials',
+              websocket: 'Boolean - handshake of a WebSocket connection to /api/payload/:token/ws',
+              frames: 'WebSocket frames oldest first, null for plain requests: [{ direction (inbound or outbound), type (text, binary or close), data (text, base64 or close reason), size, truncated, closeCode, createdAt }]',
+              email: 'Email received by the SMTP listener, null for HTTP requests (method SMTP, url mailto:<recipient>, body is the raw message): { envelopeFrom, envelopeTo, from, to, cc, replyTo, subject, date, messageId, text, html, attachments: [{ filename, contentType, size, contentId, inline }] }',
+              httpVersion: 'HTTP version, e.g. 1.1 or 2.0, null when not received over HTTP',
+              tls: 'Boolean - received over HTTPS, null when not received over HTTP',
+              serverPort: 'Port the request was sent to or null',
+              bodyFraming: 'chunked, content-length or null when the sender declared no body',
+              receiveMs: 'Milliseconds from the first body byte until the end of the body, null without a body',
+              response: 'Response sent back or null: { source (default, token, rule, sequence, proxy, preflight, blocked or unauthorized), ruleId, status, headers, contentType, contentLength, isBinary, body, latencyMs (upstream), durationMs, error }',
             },
           ],
           total: 'Total number of requests',
@@ -76,14 +97,30 @@ export default defineEventHandler(() => {
           id: 'Request UUID',
           method: 'HTTP method',
           url: 'Full URL',
-          headers: 'Headers object',
+          path: 'Sub-path after the payload URL, / when none',
+          headers: 'Headers object, lowercased names with repeated headers joined',
+          rawHeaders: 'Headers as received: [[name, value]] in order with original casing, repeated headers are separate entries',
           contentType: 'Content-Type header',
-          contentLength: 'Body size in bytes',
+          contentLength: 'Stored body size in bytes',
           isBinary: 'Boolean',
+          bodyHash: 'SHA-256 hex of the body as received or null',
+          truncated: 'Boolean - body exceeded MAX_BODY_SIZE and was cut',
           body: 'Request body as string or null',
           clientIp: 'Client IP address',
           remoteIp: 'Remote IP address',
           createdAt: 'ISO timestamp',
+          signature: 'Signature check or null: { scheme, status (valid, invalid or missing), expected, received, message }',
+          blocked: 'Boolean - refused by the token IP policy and recorded for inspection',
+          authStatus: 'passed, missing, invalid or null when the token requires no credentials',
+          websocket: 'Boolean - handshake of a WebSocket connection to /api/payload/:token/ws',
+          frames: 'WebSocket frames oldest first, null for plain requests: [{ direction (inbound or outbound), type (text, binary or close), data (text, base64 or close reason), size, truncated, closeCode, createdAt }]',
+          email: 'Email received by the SMTP listener, null for HTTP requests (method SMTP, url mailto:<recipient>, body is the raw message): { envelopeFrom, envelopeTo, from, to, cc, replyTo, subject, date, messageId, text, html, attachments: [{ filename, contentType, size, contentId, inline }] }',
+          httpVersion: 'HTTP version, e.g. 1.1 or 2.0, null when not received over HTTP',
+          tls: 'Boolean - received over HTTPS, null when not received over HTTP',
+          serverPort: 'Port the request was sent to or null',
+          bodyFraming: 'chunked, content-length or null when the sender declared no body',
+          receiveMs: 'Milliseconds from the first body byte until the end of the body, null without a body',
+          response: 'Response sent back or null: { source (default, token, rule, sequence, proxy, preflight, blocked or unauthorized), ruleId, status, headers, contentType, contentLength, isBinary, body, latencyMs (upstream), durationMs, error }',
         },
         notes: 'Returns 404 if no requests exist for the token. LLM tokens: no secret needed. User tokens: require ?secret=UUID',
       },
@@ -99,6 +136,41 @@ export default defineEventHandler(() => {
           responseStatus: 'Number - HTTP status code (default: 200)',
           responseHeaders: 'String - JSON string of headers or null',
           responseBody: 'String - response body content or null',
+          responseDelayMode: 'Optional - none, fixed, random or hang (wait until the client disconnects)',
+          responseDelayMs: 'Optional number - fixed delay, or lower bound of the random range, in milliseconds',
+          responseDelayMaxMs: 'Optional number - upper bound of the random range in milliseconds',
+          responseSequence: 'Optional array of { status, headers?, body? } steps, each request takes the next one. null removes the sequence',
+          responseSequenceMode: 'Optional - loop (restart after the last step) or stick (keep returning the last step, default)',
+          responseSequenceReset: 'Optional boolean - true starts the sequence over from the first step',
+          responseMode: 'Optional - static (custom response, default), proxy (forward to proxyUrl and relay its response) or stream (write responseStream chunks over time)',
+          proxyUrl: 'Optional http(s) URL - upstream base URL, the request sub-path and query are appended. null clears it',
+          responseStream: 'Optional array of { data, delayMs?, event?, id? } chunks (max 500, delayMs 0-60000) written after waiting delayMs each. Templates work in data, event and id are sse only. null removes the stream',
+          responseStreamFormat: 'Optional - sse (text/event-stream, default) or chunked (raw data in a chunked body)',
+          responseStreamLoop: 'Optional boolean - start over after the last chunk until the client disconnects, needs a chunk with a delay',
+          responseFile: 'Optional { base64, filename?, contentType? } - binary body sent instead of responseBody (max 10 MiB, data URLs accepted). null removes it',
+          corsPolicy: 'Optional { enabled?, origins?, methods?, headers?, exposeHeaders?, credentials?, maxAge?, capturePreflight? } - CORS headers for the payload endpoint, missing fields keep their value. Origins accept * and https://*.example.com. capturePreflight records OPTIONS requests. null restores allow-all',
+          signatureScheme: 'Optional - hmac-sha256, hmac-sha1, github, stripe, slack, shopify or svix. Captured requests are verified and get a signature result. null disables it',
+          signatureSecret: 'Optional string - signing secret (svix expects whsec_...). null clears it',
+          signatureHeader: 'Optional header name carrying the hex or base64 digest for hmac-sha256/hmac-sha1 (default x-signature)',
+          signatureTolerance: 'Optional integer 0-86400 - seconds a signed timestamp may be off for stripe, slack and svix (default 300, 0 disables the check)',
+          rateLimitPerMinute: 'Optional integer 0-100000 - requests accepted per minute, more get 429. 0 rejects everything, null removes the limit',
+          maxRequests: 'Optional integer 0-1000000 - stored requests kept before new ones get 429, null removes the quota',
+          rateLimitRetryAfter: 'Optional integer 0-86400 - seconds sent in Retry-After with a 429 (default 60)',
+          rejectedCountReset: 'Optional boolean - true clears the count of requests rejected by a limit',
+          ipPolicy: 'Optional { allow?, deny?, status?, recordBlocked? } - addresses or CIDR ranges checked against the client IP (honors TRUST_PROXY_CLIENT_IP), deny wins, an empty allow list allows all. status, 400-599, is sent to refused addresses (default 403), recordBlocked stores them flagged as blocked. null removes the policy',
+          authScheme: 'Optional basic, bearer, header or query - credentials required before the custom response is sent. Requests without them are still captured with authStatus and get 401 with WWW-Authenticate. null disables it',
+          authUsername: 'Optional string - username for basic',
+          authSecret: 'Optional string - password for basic, token for bearer, key for header and query',
+          authParam: 'Optional header or query parameter name carrying the key (default x-api-key for header, api_key for query)',
+          pinned: 'Optional boolean - pinned tokens and their requests never expire',
+          requestTtlMinutes: 'Optional integer 1-525600 - minutes requests are kept instead of the global request TTL, ignored while pinned. null uses the global TTL',
+          keepLastRequests: 'Optional integer 1-100000 - keep only the newest N requests, older ones are deleted as new ones arrive. null keeps all',
+          websocketReplyMode: 'Optional - none (default), echo, static (send websocketReplyMessage) or template (render websocketReplyMessage with request.body set to the frame and the handshake URL and headers) - how /api/payload/:token/ws answers inbound frames',
+          websocketReplyMessage: 'Optional string - message sent by the static and template reply modes. null clears it',
+          name: 'Optional string up to 80 characters - label shown in the token list. null clears it',
+          description: 'Optional string up to 1000 characters - free-text notes. null clears it',
+          color: 'Optional hex colour such as #3b82f6. null clears it',
+          tags: 'Optional array or comma-separated string - up to 10 lowercase tags used to filter tokens. null or [] clears them',
         },
         response: {
           ok: true,
@@ -1,25 +1,21 @@
 import { defineEventHandler, readBody, createError, getQuery, type H3Event, type EventHandlerRequest } from 'h3'
 import { useDatabase } from '~~/server/lib/db'
+import { normalizeDelayInput } from '~~/server/lib/response-delay'
+import { normalizeSequenceInput } from '~~/server/lib/response-sequence'
+import { normalizeProxyInput } from '~~/server/lib/proxy'
+import { normalizeStreamInput } from '~~/server/lib/response-stream'
+import { normalizeResponseFileInput } from '~~/server/lib/response-file'
+import { normalizeSignatureInput } from '~~/server/lib/signature'
+import { normalizeRateLimitInput } from '~~/server/lib/rate-limit'
+import { normalizeIpPolicyInput } from '~~/server/lib/ip-filter'
+import { normalizeAuthInput } from '~~/server/lib/auth-challenge'
+import { normalizeRetentionInput } from '~~/server/lib/retention'
+import { normalizeWebSocketInput } from '~~/server/lib/websocket'
+import { normalizeCorsInput } from '~~/server/lib/cors'
+import { normalizeTokenLabelsInput, parseTags } from '~~/server/lib/token-labels'
 import { LLM_SESSION_ID } from '~~/server/lib/session'
 import { isUUID } from '~~/server/lib/utils'
-import type { Request } from '~~/shared/types'
-
-/**
- * LLM-friendly request data format
- */
-interface LLMRequest {
-  id: string
-  method: string
-  url: string
-  headers: Record<string, string>
-  contentType: string
-  contentLength: number
-  isBinary: boolean
-  body: string | null
-  clientIp: string
-  remoteIp: string
-  createdAt: string
-}
+import { formatRequestForLLM, type LLMRequest } from '~~/server/lib/llm-format'
 
 /**
  * LLM-friendly API response
@@ -28,6 +24,10 @@ interface LLMResponse {
   token: {
     id: string
     friendlyId: string | null
+    name: string | null
+    description: string | null
+    color: string | null
+    tags: string[]
     createdAt: string
     payloadUrl: string
   }
@@ -35,48 +35,6 @@ interface LLMResponse {
   total: number
 }
 
-/**
- * Convert Request to LLM-friendly format with body content
- */
-const formatRequestForLLM = async (request: Request, db: ReturnType<typeof useDatabase>): Promise<LLMRequest> => {
-  let parsedHeaders: Record<string, string> = {}
-  try {
-    parsedHeaders = JSON.parse(request.headers)
-  } catch {
-    parsedHeaders = {}
-  }
-
-  let bodyContent: string | null = null
-  if (request.bodyPath && request.contentLength > 0) {
-    if (request.isBinary) {
-      bodyContent = '[Binary data not included]'
-    } else {
-      const bodyBuffer = await db.requests.getBody(request.sessionId, request.tokenId, request.id)
-      if (bodyBuffer) {
-        try {
-          bodyContent = new TextDecoder('utf-8').decode(bodyBuffer)
-        } catch {
-          bodyContent = '[Unable to decode body as text]'
-        }
-      }
-    }
-  }
-
-  return {
-    id: request.id,
-    method: request.method,
-    url: request.url,
-    headers: parsedHeaders,
-    contentType: request.contentType,
-    contentLength: request.contentLength,
-    isBinary: request.isBinary,
-    body: bodyContent,
-    clientIp: request.clientIp,
-    remoteIp: request.remoteIp,
-    createdAt: request.createdAt.toISOString(),
-  }
-}
-
 /**
  * LLM Token Operations
  * 
@@ -142,13 +100,48 @@ export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) =>
     const headers = (payload.responseHeaders as unknown) as string | null
     const responseBody = (payload.responseBody as unknown) as string | null
 
+    let delay, sequence, proxy, stream, file, cors, signature, rateLimit, ipPolicy, auth, retention, websocket, labels
+    try {
+      delay = normalizeDelayInput(payload)
+      sequence = normalizeSequenceInput(payload, token.responseSequence)
+      proxy = normalizeProxyInput(payload)
+      stream = normalizeStreamInput(payload, token)
+      file = normalizeResponseFileInput(payload)
+      cors = normalizeCorsInput(payload, token.corsPolicy)
+      signature = normalizeSignatureInput(payload)
+      rateLimit = normalizeRateLimitInput(payload)
+      ipPolicy = normalizeIpPolicyInput(payload, token.ipPolicy)
+      auth = normalizeAuthInput(payload)
+      retention = normalizeRetentionInput(payload)
+      websocket = normalizeWebSocketInput(payload, token)
+      labels = normalizeTokenLabelsInput(payload)
+    } catch (err) {
+      throw createError({ statusCode: 400, message: err instanceof Error ? err.message : 'Invalid response settings' })
+    }
+
     await db.tokens.update(LLM_SESSION_ID, token.id, {
       responseEnabled: enabled,
       responseStatus: status,
       responseHeaders: headers,
       responseBody,
+      ...delay,
+      ...sequence,
+      ...proxy,
+      ...stream,
+      ...cors,
+      ...signature,
+      ...rateLimit,
+      ...ipPolicy,
+      ...auth,
+      ...retention,
+      ...websocket,
+      ...labels,
     })
 
+    if (undefined !== file) {
+      await db.tokens.setResponseFile(LLM_SESSION_ID, token.id, file)
+    }
+
     return { ok: true }
   }
 
@@ -159,7 +152,8 @@ export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) =>
 
   if ('GET' === method) {
     // Fetch all requests for this token
-    const requests = await db.requests.list(token.sessionId, token.id)
+    const path = 'string' === typeof query.path && query.path ? query.path : undefined
+    const requests = await db.requests.list(token.sessionId, token.id, path)
 
     // Format requests for LLM consumption
     const formattedRequests: LLMRequest[] = []
@@ -178,6 +172,10 @@ export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) =>
       token: {
         id: token.id,
         friendlyId: token.friendlyId,
+        name: token.name,
+        description: token.description,
+        color: token.color,
+        tags: parseTags(token.tags),
         createdAt: token.createdAt.toISOString(),
         payloadUrl,
       },
@@ -2,66 +2,7 @@ import { defineEventHandler, createError, getQuery, type H3Event, type EventHand
 import { useDatabase } from '~~/server/lib/db'
 import { LLM_SESSION_ID } from '~~/server/lib/session'
 import { isUUID } from '~~/server/lib/utils'
-import type { Request } from '~~/shared/types'
-
-/**
- * LLM-friendly request data format
- */
-interface LLMRequest {
-  id: string
-  method: string
-  url: string
-  headers: Record<string, string>
-  contentType: string
-  contentLength: number
-  isBinary: boolean
-  body: string | null
-  clientIp: string
-  remoteIp: string
-  createdAt: string
-}
-
-/**
- * Convert Request to LLM-friendly format with body content
- */
-const formatRequestForLLM = async (request: Request, db: ReturnType<typeof useDatabase>): Promise<LLMRequest> => {
-  let parsedHeaders: Record<string, string> = {}
-  try {
-    parsedHeaders = JSON.parse(request.headers)
-  } catch {
-    parsedHeaders = {}
-  }
-
-  let bodyContent: string | null = null
-  if (request.bodyPath && request.contentLength > 0) {
-    if (request.isBinary) {
-      bodyContent = '[Binary data not included]'
-    } else {
-      const bodyBuffer = await db.requests.getBody(request.sessionId, request.tokenId, request.id)
-      if (bodyBuffer) {
-        try {
-          bodyContent = new TextDecoder('utf-8').decode(bodyBuffer)
-        } catch {
-          bodyContent = '[Unable to decode body as text]'
-        }
-      }
-    }
-  }
-
-  return {
-    id: request.id,
-    method: request.method,
-    url: request.url,
-    headers: parsedHeaders,
-    contentType: request.contentType,
-    contentLength: request.contentLength,
-    isBinary: request.isBinary,
-    body: bodyContent,
-    clientIp: request.clientIp,
-    remoteIp: request.remoteIp,
-    createdAt: request.createdAt.toISOString(),
-  }
-}
+import { formatRequestForLLM } from '~~/server/lib/llm-format'
 
 /**
  * Get Latest Request for Token
@@ -1,46 +1,209 @@
-import { readRawBody, defineEventHandler, setResponseHeader, setResponseStatus, type H3Event, type EventHandlerRequest } from 'h3'
+import { defineEventHandler, setResponseHeader, setResponseStatus, type H3Event, type EventHandlerRequest } from 'h3'
 import { useDatabase } from '~~/server/lib/db'
-import type { Token } from '~~/shared/types'
-import { ingestRequest } from '~~/server/lib/request-ingestion'
+import type { Token, RawHeader, ResponseRule, ResponseSource } from '~~/shared/types'
+import { checkLimits, ingestRequest, resolveClientIp, resolveProtocol } from '~~/server/lib/request-ingestion'
+import { getBodyStream } from '~~/server/lib/request-body'
 import { isUUID } from '~~/server/lib/utils'
+import { createTemplateContext, referencesBody, renderTemplate, type TemplateContext } from '~~/shared/template'
+import { extractSubPath, findMatchingRule, parseConditions } from '~~/shared/rules'
+import { waitForResponseDelay } from '~~/server/lib/response-delay'
+import { parseSequence, sequenceIndex } from '~~/server/lib/response-sequence'
+import { parseStream, writeStream } from '~~/server/lib/response-stream'
+import { buildUpstreamUrl, forwardRequest } from '~~/server/lib/proxy'
+import { useServerEvents } from '~~/server/lib/events'
+import { buildCorsHeaders, parseCorsPolicy } from '~~/server/lib/cors'
+import { checkIpPolicy, parseIpPolicy } from '~~/server/lib/ip-filter'
+import { buildChallenge } from '~~/server/lib/auth-challenge'
+import { headersFromPairs, pairRawHeaders } from '~~/shared/headers'
 
-const CORS_HEADERS: Record<string, string> = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'GET,POST,PUT,PATCH,DELETE,OPTIONS,HEAD',
-  'Access-Control-Allow-Headers': '*',
-  'Access-Control-Expose-Headers': '*',
+/**
+ * Most of the body rules and templates get to see, larger bodies are cut for them.
+ */
+const TEMPLATE_BODY_BYTES = 1024 * 1024
+
+/**
+ * Whether answering reads the request body: a rule matches on it or a template renders it.
+ * Stream mode only renders its chunks and the token's headers.
+ */
+const usesBody = (tokenRow: Token, rules: ResponseRule[], streaming: boolean): boolean => {
+  if (streaming) {
+    return [tokenRow.responseStream, tokenRow.responseHeaders].some(referencesBody)
+  }
+
+  if (rules.some(rule => parseConditions(rule.conditions).some(condition => 'body' === condition.source))) {
+    return true
+  }
+
+  return [
+    tokenRow.responseBody,
+    tokenRow.responseHeaders,
+    tokenRow.responseSequence,
+    ...rules.flatMap(rule => [rule.responseBody, rule.responseHeaders]),
+  ].some(referencesBody)
 }
 
-const buildResponse = async (tokenRow: Token | null, allowBody = true) => {
-  if (!tokenRow || !tokenRow.responseEnabled) {
-    return { status: 200, headers: {} as Record<string, string>, body: null }
+const nextSequenceStep = async (tokenRow: Token): Promise<Pick<Token, 'responseStatus' | 'responseHeaders' | 'responseBody'> | null> => {
+  const steps = parseSequence(tokenRow.responseSequence)
+  if (!steps.length) {
+    return null
+  }
+
+  const position = await useDatabase().tokens.advanceSequence(tokenRow.id)
+  const step = steps[sequenceIndex(position, steps.length, tokenRow.responseSequenceMode)]
+  if (!step) {
+    return null
+  }
+
+  return {
+    responseStatus: step.status,
+    responseHeaders: step.headers ? JSON.stringify(step.headers) : null,
+    responseBody: step.body ?? null,
+  }
+}
+
+type ResponseSourceFields = Pick<Token, 'responseStatus' | 'responseHeaders' | 'responseBody'>
+
+type BuiltResponse = {
+  status: number
+  headers: Record<string, string>
+  body: string | Buffer | null
+  source: ResponseSource
+  ruleId: string | null
+}
+
+/**
+ * Pick where the response comes from, first matching rule wins, then the scripted sequence,
+ * the token's own response acts as the fallback.
+ */
+const resolveSource = async (tokenRow: Token, ctx: TemplateContext, rules: ResponseRule[]): Promise<{
+  fields: ResponseSourceFields
+  source: ResponseSource
+  ruleId: string | null
+}> => {
+  const rule = findMatchingRule(rules, ctx, extractSubPath(ctx.url))
+  if (rule) {
+    return { fields: rule, source: 'rule', ruleId: rule.id }
+  }
+
+  const step = await nextSequenceStep(tokenRow)
+  if (step) {
+    return { fields: step, source: 'sequence', ruleId: null }
   }
 
-  const status = tokenRow.responseStatus ?? 200
+  return { fields: tokenRow, source: 'token', ruleId: null }
+}
+
+/**
+ * Parse stored response headers and render templates in their values.
+ */
+const renderHeaders = (raw: string | null, ctx: TemplateContext): Record<string, string> => {
   const headers: Record<string, string> = {}
 
-  if (tokenRow.responseHeaders) {
+  if (raw) {
     try {
-      const parsed = JSON.parse(tokenRow.responseHeaders) as Record<string, string>
+      const parsed = JSON.parse(raw) as Record<string, string>
       for (const [key, value] of Object.entries(parsed || {})) {
         if (!key) continue
-        headers[key] = String(value)
+        headers[key] = renderTemplate(String(value), ctx)
       }
     } catch (err) {
       console.warn('failed to parse response headers', err)
     }
   }
 
-  const body = allowBody ? tokenRow.responseBody ?? '' : null
+  return headers
+}
+
+const buildResponse = async (tokenRow: Token | null, ctx: TemplateContext, rules: ResponseRule[] = [], allowBody = true): Promise<BuiltResponse> => {
+  if (!tokenRow || !tokenRow.responseEnabled) {
+    return { status: 200, headers: {}, body: null, source: 'default', ruleId: null }
+  }
+
+  const { fields: source, ...origin } = await resolveSource(tokenRow, ctx, rules)
+
+  const status = source.responseStatus ?? 200
+  const headers = renderHeaders(source.responseHeaders, ctx)
+
+  // An uploaded file replaces the token's own text body and is sent as-is.
+  const file = 'token' === origin.source && tokenRow.responseFilePath ? await useDatabase().tokens.getResponseFile(tokenRow) : null
+  if (file) {
+    if (!Object.keys(headers).some(key => 'content-type' === key.toLowerCase())) {
+      headers['Content-Type'] = tokenRow.responseFileType || 'application/octet-stream'
+    }
+    headers['Content-Length'] = String(file.length)
+    return { status, headers, body: allowBody ? file : null, ...origin }
+  }
+
+  const body = allowBody ? renderTemplate(source.responseBody ?? '', ctx) : null
   const hasBody = allowBody && body !== null && body !== undefined
 
   if (!hasBody || body === '') {
-    return { status, headers, body: null }
+    return { status, headers, body: null, ...origin }
   }
-  return { status, headers, body }
+  return { status, headers, body, ...origin }
+}
+
+/**
+ * Store what was written back to the sender and let listeners know it is available.
+ * Headers are read from the outgoing response so the record matches what was sent.
+ */
+const recordResponse = async (
+  event: H3Event<EventHandlerRequest>,
+  sessionId: string,
+  tokenId: string,
+  requestId: string,
+  data: {
+    source: ResponseSource
+    ruleId?: string | null
+    status?: number
+    body: Buffer | null
+    startedAt: number
+    latencyMs?: number | null
+    error?: string | null
+  }
+) => {
+  try {
+    const headers: Record<string, string> = {}
+    for (const [key, value] of Object.entries(event.node.res.getHeaders())) {
+      if (undefined !== value) {
+        headers[key] = Array.isArray(value) ? value.join(', ') : String(value)
+      }
+    }
+
+    await useDatabase().responses.create(sessionId, tokenId, requestId, {
+      source: data.source,
+      ruleId: data.ruleId ?? null,
+      status: data.status ?? event.node.res.statusCode,
+      headers,
+      body: data.body,
+      latencyMs: data.latencyMs ?? null,
+      durationMs: Date.now() - data.startedAt,
+      error: data.error ?? null,
+    })
+    useServerEvents().publish(sessionId, 'request.response', { token: tokenId, requestId })
+  } catch (err) {
+    console.warn('failed to store response', err)
+  }
+}
+
+/**
+ * Answer a request for a token that does not exist. Preflights still get the default CORS
+ * answer, as they did before tokens could set their own policy.
+ */
+const answerUnknownToken = (event: H3Event<EventHandlerRequest>, method: string, headers: Record<string, string>) => {
+  if ('OPTIONS' === method) {
+    for (const [k, v] of Object.entries(buildCorsHeaders(parseCorsPolicy(null), headers, true))) {
+      setResponseHeader(event, k, v)
+    }
+    setResponseStatus(event, 204)
+  } else {
+    setResponseStatus(event, 404)
+  }
+  event.node.res.end()
 }
 
 export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) => {
+  const startedAt = Date.now()
   const method = event.node.req.method?.toUpperCase() || 'GET'
   type EventContextParams = { params?: Record<string, string> }
   const ctx = (event.context as unknown as EventContextParams) || {}
@@ -55,31 +218,17 @@ export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) =>
     return
   }
 
-  const headersObj: Record<string, string> = {}
-  for (const [k, v] of Object.entries(event.node.req.headers || {})) {
-    if (typeof v === 'string') {
-      headersObj[k] = v
-    }
-    else if (Array.isArray(v)) {
-      headersObj[k] = v.join(',')
-    }
-  }
-
-  if ('OPTIONS' === method) {
-    const res = event.node.res
-    for (const [k, v] of Object.entries(CORS_HEADERS)) {
-      setResponseHeader(event, k, v)
-    }
-    setResponseStatus(event, 204)
-    res.end()
-    return
-  }
+  // The map is derived from the headers as received, which are stored to keep their order and casing.
+  const rawHeaders = event.node.req.rawHeaders
+    ? pairRawHeaders(event.node.req.rawHeaders)
+    : Object.entries(event.node.req.headers || {}).flatMap(([k, v]) => [v ?? []].flat().map((value): RawHeader => [k, value]))
+  const headersObj = headersFromPairs(rawHeaders)
+  const protocol = resolveProtocol(event.node.req, headersObj)
 
   if (!isUUID(tokenId)) {
     const tokenRow = await db.tokens.getByFriendlyId(tokenId)
     if (!tokenRow) {
-      setResponseStatus(event, 404)
-      event.node.res.end()
+      answerUnknownToken(event, method, headersObj)
       return
     }
 
@@ -90,45 +239,230 @@ export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) =>
   }
 
   if (!sessionId) {
-    setResponseStatus(event, 404)
-    event.node.res.end()
+    answerUnknownToken(event, method, headersObj)
     return
   }
 
   const userToken = await db.tokens.get(sessionId, tokenId)
 
   if (!userToken) {
-    setResponseStatus(event, 404)
+    answerUnknownToken(event, method, headersObj)
+    return
+  }
+
+  const corsPolicy = parseCorsPolicy(userToken.corsPolicy)
+  const url = event.node.req.url || '/api/payload/' + tokenId
+  const socketIp = event.node.req.socket.remoteAddress || '127.0.0.1'
+
+  // Refused addresses are answered before anything else, preflights included.
+  const ipPolicy = parseIpPolicy(userToken.ipPolicy)
+  const blocked = checkIpPolicy(ipPolicy, resolveClientIp(headersObj, socketIp))
+  if (blocked) {
+    const created = ipPolicy.recordBlocked
+      ? await ingestRequest(sessionId, userToken.id, method, headersObj, getBodyStream(event), url, socketIp, null, null, { blocked: true, rawHeaders, protocol })
+      : null
+
+    for (const [k, v] of Object.entries(buildCorsHeaders(corsPolicy, headersObj))) {
+      setResponseHeader(event, k, v)
+    }
+    setResponseHeader(event, 'Content-Type', 'text/plain; charset=utf-8')
+    setResponseStatus(event, ipPolicy.status)
+    event.node.res.end(blocked)
+
+    if (created) {
+      await recordResponse(event, sessionId, userToken.id, created.id, { source: 'blocked', body: Buffer.from(blocked), startedAt })
+    }
+    return
+  }
+
+  if ('OPTIONS' === method) {
+    const created = corsPolicy.capturePreflight
+      ? await ingestRequest(sessionId, userToken.id, method, headersObj, null, url, socketIp, null, null, { rawHeaders, protocol })
+      : null
+
+    for (const [k, v] of Object.entries(buildCorsHeaders(corsPolicy, headersObj, true))) {
+      setResponseHeader(event, k, v)
+    }
+    setResponseStatus(event, 204)
     event.node.res.end()
+
+    if (created) {
+      await recordResponse(event, sessionId, userToken.id, created.id, { source: 'preflight', body: null, startedAt })
+    }
     return
   }
 
-  let buf: Buffer | null = null
-  if (['POST', 'PUT', 'PATCH', 'DELETE'].includes(method)) {
-    try {
-      const body = await readRawBody(event, false)
-      if (body) {
-        buf = Buffer.isBuffer(body) ? body : Buffer.from(body)
-      }
-    } catch (err) {
-      console.warn('failed to read body', err)
+  const limited = await checkLimits(userToken)
+  if (limited) {
+    // Rejected requests are only counted, nothing is stored.
+    const rejectedCount = await db.tokens.recordRejection(userToken.id)
+    useServerEvents().publish(sessionId, 'request.rejected', { token: userToken.id, rejectedCount })
+
+    for (const [k, v] of Object.entries(buildCorsHeaders(corsPolicy, headersObj))) {
+      setResponseHeader(event, k, v)
     }
+    setResponseHeader(event, 'Retry-After', limited.retryAfter)
+    setResponseHeader(event, 'Content-Type', 'text/plain; charset=utf-8')
+    setResponseStatus(event, 429)
+    event.node.res.end(limited.message)
+    return
   }
 
-  // Ingest the request and publish events
-  await ingestRequest(
+  // Ingest the request and publish events, the body is streamed to disk instead of buffered
+  const created = await ingestRequest(
     sessionId,
     userToken.id,
     method,
     headersObj,
-    buf,
-    event.node.req.url || '/api/payload/' + tokenId,
-    event.node.req.socket.remoteAddress || '127.0.0.1'
+    getBodyStream(event),
+    url,
+    socketIp,
+    null,
+    null,
+    { rawHeaders, protocol },
   )
 
-  const resp = await buildResponse(userToken)
+  // Requests without valid credentials are kept for inspection but only get the challenge.
+  if (created.authStatus && 'passed' !== created.authStatus) {
+    const message = 'missing' === created.authStatus ? 'Authentication required' : 'Invalid credentials'
 
-  for (const [k, v] of Object.entries(CORS_HEADERS)) {
+    for (const [k, v] of Object.entries(buildCorsHeaders(corsPolicy, headersObj))) {
+      setResponseHeader(event, k, v)
+    }
+    setResponseHeader(event, 'WWW-Authenticate', buildChallenge(userToken, created.authStatus))
+    setResponseHeader(event, 'Content-Type', 'text/plain; charset=utf-8')
+    setResponseStatus(event, 401)
+    event.node.res.end(message)
+
+    await recordResponse(event, sessionId, userToken.id, created.id, { source: 'unauthorized', body: Buffer.from(message), startedAt })
+    return
+  }
+
+  const isProxy = 'proxy' === userToken.responseMode && Boolean(userToken.proxyUrl)
+
+  // Forwarding part of a body would hand the upstream a request the client never sent.
+  if (isProxy && created.truncated) {
+    const message = 'Request body was truncated and not forwarded'
+
+    for (const [k, v] of Object.entries(buildCorsHeaders(corsPolicy, headersObj))) {
+      setResponseHeader(event, k, v)
+    }
+    setResponseHeader(event, 'Content-Type', 'text/plain; charset=utf-8')
+    setResponseStatus(event, 413)
+    event.node.res.end(message)
+
+    await recordResponse(event, sessionId, userToken.id, created.id, { source: 'proxy', body: Buffer.from(message), startedAt, error: message })
+    return
+  }
+
+  if (isProxy && userToken.proxyUrl) {
+    // Proxy mode replaces rules, sequences and delays, the upstream answers instead.
+    // The stored body is relayed from disk rather than read into memory.
+    const stored = created.bodyPath ? await db.requests.streamBody(sessionId, userToken.id, created.id) : null
+    const upstream = await forwardRequest(buildUpstreamUrl(userToken.proxyUrl, url), method, headersObj, stored?.stream ?? null)
+
+    for (const [k, v] of Object.entries(buildCorsHeaders(corsPolicy, headersObj))) {
+      setResponseHeader(event, k, v)
+    }
+
+    for (const [k, v] of Object.entries(upstream.headers)) {
+      setResponseHeader(event, k, v)
+    }
+
+    setResponseStatus(event, upstream.status)
+    event.node.res.end(upstream.body && 'HEAD' !== method ? upstream.body : undefined)
+
+    await recordResponse(event, sessionId, userToken.id, created.id, {
+      source: 'proxy',
+      body: upstream.body,
+      startedAt,
+      latencyMs: upstream.latencyMs,
+      error: upstream.error,
+    })
+    return
+  }
+
+  // Stream mode replaces rules, sequences and files, chunks are written as their delays pass.
+  const streamChunks = userToken.responseEnabled && 'stream' === userToken.responseMode ? parseStream(userToken.responseStream) : []
+  const rules = userToken.responseEnabled && !streamChunks.length ? await db.rules.list(userToken.id) : []
+
+  // Only read the stored body back when a rule or template uses it, and never all of a large one.
+  const stored = created.bodyPath && userToken.responseEnabled && usesBody(userToken, rules, 0 < streamChunks.length)
+    ? await db.requests.getBody(sessionId, userToken.id, created.id, TEMPLATE_BODY_BYTES)
+    : null
+  const templateCtx = createTemplateContext(method, url, headersObj, stored ? Buffer.from(stored).toString('utf8') : null)
+  if (streamChunks.length) {
+    if (!(await waitForResponseDelay(userToken, event.node.req, event.node.res))) {
+      event.node.res.end()
+      await recordResponse(event, sessionId, userToken.id, created.id, {
+        source: 'stream',
+        status: userToken.responseStatus,
+        body: null,
+        startedAt,
+        error: 'Client disconnected before the response was sent',
+      })
+      return
+    }
+
+    const defaults: Record<string, string> = {
+      'Content-Type': 'sse' === userToken.responseStreamFormat ? 'text/event-stream; charset=utf-8' : 'text/plain; charset=utf-8',
+      'Cache-Control': 'no-cache',
+      'X-Accel-Buffering': 'no',
+      ...buildCorsHeaders(corsPolicy, headersObj),
+    }
+
+    // Configured headers replace the stream defaults whatever their case.
+    const configured = renderHeaders(userToken.responseHeaders, templateCtx)
+    const overridden = new Set(Object.keys(configured).map(key => key.toLowerCase()))
+
+    for (const [k, v] of Object.entries(defaults)) {
+      if (!overridden.has(k.toLowerCase())) {
+        setResponseHeader(event, k, v)
+      }
+    }
+    for (const [k, v] of Object.entries(configured)) {
+      setResponseHeader(event, k, v)
+    }
+    setResponseStatus(event, userToken.responseStatus || 200)
+
+    if ('HEAD' === method) {
+      event.node.res.end()
+      await recordResponse(event, sessionId, userToken.id, created.id, { source: 'stream', body: null, startedAt })
+      return
+    }
+
+    const chunks = streamChunks.map(chunk => ({ ...chunk, data: renderTemplate(chunk.data, templateCtx) }))
+    const streamed = await writeStream(chunks, {
+      format: userToken.responseStreamFormat,
+      loop: userToken.responseStreamLoop,
+    }, event.node.req, event.node.res)
+
+    await recordResponse(event, sessionId, userToken.id, created.id, {
+      source: 'stream',
+      body: streamed.body.length ? streamed.body : null,
+      startedAt,
+      // Looping streams only ever end with the client leaving.
+      error: streamed.completed || userToken.responseStreamLoop ? null : 'Client disconnected during the stream',
+    })
+    return
+  }
+  const resp = await buildResponse(userToken, templateCtx, rules)
+
+  if (userToken.responseEnabled && !(await waitForResponseDelay(userToken, event.node.req, event.node.res))) {
+    // Client gave up while we were delaying, nothing left to write.
+    event.node.res.end()
+    await recordResponse(event, sessionId, userToken.id, created.id, {
+      source: resp.source,
+      ruleId: resp.ruleId,
+      status: resp.status,
+      body: null,
+      startedAt,
+      error: 'Client disconnected before the response was sent',
+    })
+    return
+  }
+
+  for (const [k, v] of Object.entries(buildCorsHeaders(corsPolicy, headersObj))) {
     setResponseHeader(event, k, v)
   }
 
@@ -137,11 +471,12 @@ export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) =>
   }
 
   setResponseStatus(event, resp.status || 200)
+  event.node.res.end(resp.body || undefined)
 
-  if (!resp.body) {
-    event.node.res.end()
-    return
-  }
-  
-  event.node.res.end(resp.body)
+  await recordResponse(event, sessionId, userToken.id, created.id, {
+    source: resp.source,
+    ruleId: resp.ruleId,
+    body: 'string' === typeof resp.body ? Buffer.from(resp.body) : resp.body,
+    startedAt,
+  })
 })
@@ -0,0 +1,5 @@
+/**
+ * Catch-all for senders that append their own paths to the payload URL,
+ * e.g. `/api/payload/<token>/v1/events/123`. Handled the same as the base URL.
+ */
+export { default } from '../[token]'
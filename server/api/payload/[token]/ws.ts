@@ -0,0 +1,8 @@
+import { defineWebSocketHandler } from 'h3'
+import { websocketHooks } from '~~/server/lib/websocket'
+
+/**
+ * WebSocket capture, e.g. `wss://<host>/api/payload/<token>/ws`. Plain HTTP requests to
+ * this path get `426 Upgrade Required` instead of being captured.
+ */
+export default defineWebSocketHandler(websocketHooks)
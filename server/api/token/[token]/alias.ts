@@ -0,0 +1,47 @@
+import { defineEventHandler, readBody, createError, type H3Event, type EventHandlerRequest } from 'h3'
+import { useDatabase } from '~~/server/lib/db'
+import { getOrCreateSession } from '~~/server/lib/session'
+import { normalizeAlias } from '~~/server/lib/token-alias'
+import { useServerEvents } from '~~/server/lib/events'
+import { toTokenSummary } from '~~/server/lib/token-labels'
+
+export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) => {
+  const sessionId = await getOrCreateSession(event)
+  const method = event.node.req.method?.toUpperCase() || 'GET'
+  type EventParams = { params?: Record<string, string> }
+  const ctx = (event.context as unknown as EventParams) || {}
+  const params = ctx.params || {}
+  const tokenId = params.token
+  const db = useDatabase()
+
+  if (true !== ['PUT', 'DELETE'].includes(method)) {
+    throw createError({ statusCode: 405, message: 'Method not allowed' })
+  }
+
+  if (!tokenId) {
+    throw createError({ statusCode: 400, message: 'Token ID is required' })
+  }
+
+  let alias: string | null = null
+  if ('PUT' === method) {
+    const body = (await readBody(event).catch(() => ({}))) as Record<string, unknown> | null
+    try {
+      alias = normalizeAlias(body?.alias)
+    } catch (err) {
+      throw createError({ statusCode: 400, message: err instanceof Error ? err.message : 'Invalid alias' })
+    }
+  }
+
+  const token = await db.tokens.setFriendlyId(sessionId, tokenId, alias)
+  if (null === token) {
+    throw createError({ statusCode: 404, message: 'Token not found' })
+  }
+
+  if (false === token) {
+    throw createError({ statusCode: 409, message: `alias "${alias}" is already taken` })
+  }
+
+  useServerEvents().publish(sessionId, 'token.updated', { token: toTokenSummary(token) })
+
+  return { ok: true, friendlyId: token.friendlyId }
+})
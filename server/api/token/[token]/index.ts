@@ -1,8 +1,31 @@
 import { defineEventHandler, readBody, createError, type H3Event, type EventHandlerRequest } from 'h3'
 import { useDatabase } from '~~/server/lib/db'
+import { normalizeDelayInput } from '~~/server/lib/response-delay'
+import { normalizeSequenceInput, parseSequence } from '~~/server/lib/response-sequence'
+import { normalizeProxyInput } from '~~/server/lib/proxy'
+import { normalizeStreamInput, parseStream } from '~~/server/lib/response-stream'
+import { normalizeResponseFileInput } from '~~/server/lib/response-file'
+import { normalizeSignatureInput } from '~~/server/lib/signature'
+import { normalizeRateLimitInput } from '~~/server/lib/rate-limit'
+import { normalizeIpPolicyInput, parseIpPolicy } from '~~/server/lib/ip-filter'
+import { normalizeAuthInput } from '~~/server/lib/auth-challenge'
+import { normalizeRetentionInput } from '~~/server/lib/retention'
+import { normalizeWebSocketInput } from '~~/server/lib/websocket'
+import { normalizeCorsInput, parseCorsPolicy } from '~~/server/lib/cors'
+import { parseTags } from '~~/server/lib/token-labels'
+import type { CorsPolicy, IpPolicy, Token, ResponseSequenceStep, ResponseStreamChunk } from '~~/shared/types'
 import { getOrCreateSession } from '~~/server/lib/session'
 import { useServerEvents } from '~~/server/lib/events'
 
+type TokenConfig = Omit<Token, 'responseHeaders' | 'responseSequence' | 'responseStream' | 'corsPolicy' | 'ipPolicy' | 'tags'> & {
+  responseHeaders: Record<string, string> | null
+  responseSequence: ResponseSequenceStep[] | null
+  responseStream: ResponseStreamChunk[] | null
+  corsPolicy: CorsPolicy
+  ipPolicy: IpPolicy
+  tags: string[]
+}
+
 export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) => {
   const sessionId = await getOrCreateSession(event)
   const method = event.node.req.method?.toUpperCase() || 'GET'
@@ -37,13 +60,46 @@ export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) =>
     const headers = (payload.responseHeaders as unknown) as string | null
     const responseBody = (payload.responseBody as unknown) as string | null
 
+    let delay, sequence, proxy, stream, file, cors, signature, rateLimit, ipPolicy, auth, retention, websocket
+    try {
+      delay = normalizeDelayInput(payload)
+      sequence = normalizeSequenceInput(payload, token.responseSequence)
+      proxy = normalizeProxyInput(payload)
+      stream = normalizeStreamInput(payload, token)
+      file = normalizeResponseFileInput(payload)
+      cors = normalizeCorsInput(payload, token.corsPolicy)
+      signature = normalizeSignatureInput(payload)
+      rateLimit = normalizeRateLimitInput(payload)
+      ipPolicy = normalizeIpPolicyInput(payload, token.ipPolicy)
+      auth = normalizeAuthInput(payload)
+      retention = normalizeRetentionInput(payload)
+      websocket = normalizeWebSocketInput(payload, token)
+    } catch (err) {
+      throw createError({ statusCode: 400, message: err instanceof Error ? err.message : 'Invalid response settings' })
+    }
+
     await db.tokens.update(sessionId, tokenId, {
       responseEnabled: enabled,
       responseStatus: status,
       responseHeaders: headers,
       responseBody,
+      ...delay,
+      ...sequence,
+      ...proxy,
+      ...stream,
+      ...cors,
+      ...signature,
+      ...rateLimit,
+      ...ipPolicy,
+      ...auth,
+      ...retention,
+      ...websocket,
     })
 
+    if (undefined !== file) {
+      await db.tokens.setResponseFile(sessionId, tokenId, file)
+    }
+
     events.publish(sessionId, 'token.response.updated', {
       token: {
         id: token.id,
@@ -63,5 +119,16 @@ export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) =>
     }
   }
 
-  return { ...token, responseHeaders: headers, } as Omit<typeof token, 'responseHeaders'> & { responseHeaders: Record<string, string> | null }
+  const sequence = parseSequence(token.responseSequence)
+  const stream = parseStream(token.responseStream)
+
+  return {
+    ...token,
+    responseHeaders: headers,
+    responseSequence: sequence.length ? sequence : null,
+    responseStream: stream.length ? stream : null,
+    corsPolicy: parseCorsPolicy(token.corsPolicy),
+    ipPolicy: parseIpPolicy(token.ipPolicy),
+    tags: parseTags(token.tags),
+  } as TokenConfig
 })
\ No newline at end of file
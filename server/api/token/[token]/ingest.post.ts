@@ -50,7 +50,8 @@ export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) =>
         parsed.url,
         fallbackIp,
         body.clientIp || null,
-        body.remoteIp || null
+        body.remoteIp || null,
+        { rawHeaders: parsed.rawHeaders }
     )
 
     return {
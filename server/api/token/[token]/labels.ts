@@ -0,0 +1,50 @@
+import { defineEventHandler, readBody, createError, type H3Event, type EventHandlerRequest } from 'h3'
+import { useDatabase } from '~~/server/lib/db'
+import { getOrCreateSession } from '~~/server/lib/session'
+import { normalizeTokenLabelsInput, parseTags, toTokenSummary } from '~~/server/lib/token-labels'
+import { useServerEvents } from '~~/server/lib/events'
+
+export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) => {
+  const sessionId = await getOrCreateSession(event)
+  const method = event.node.req.method?.toUpperCase() || 'GET'
+  type EventParams = { params?: Record<string, string> }
+  const ctx = (event.context as unknown as EventParams) || {}
+  const params = ctx.params || {}
+  const tokenId = params.token
+  const db = useDatabase()
+
+  if ('PATCH' !== method) {
+    throw createError({ statusCode: 405, message: 'Method not allowed' })
+  }
+
+  if (!tokenId) {
+    throw createError({ statusCode: 400, message: 'Token ID is required' })
+  }
+
+  const body = (await readBody(event).catch(() => ({}))) as Record<string, unknown> | null
+
+  let labels
+  try {
+    labels = normalizeTokenLabelsInput(body || {})
+  } catch (err) {
+    throw createError({ statusCode: 400, message: err instanceof Error ? err.message : 'Invalid labels' })
+  }
+
+  if (!Object.keys(labels).length) {
+    throw createError({ statusCode: 400, message: 'Expected name, description, color or tags' })
+  }
+
+  const token = await db.tokens.update(sessionId, tokenId, labels)
+  if (!token) {
+    throw createError({ statusCode: 404, message: 'Token not found' })
+  }
+
+  useServerEvents().publish(sessionId, 'token.updated', { token: toTokenSummary(token) })
+
+  return {
+    name: token.name,
+    description: token.description,
+    color: token.color,
+    tags: parseTags(token.tags),
+  }
+})
@@ -0,0 +1,31 @@
+import { defineEventHandler, createError, type H3Event, type EventHandlerRequest } from 'h3'
+import { useDatabase } from '~~/server/lib/db'
+import { getOrCreateSession } from '~~/server/lib/session'
+import { resetRateLimit } from '~~/server/lib/rate-limit'
+
+export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) => {
+  const sessionId = await getOrCreateSession(event)
+  const method = event.node.req.method?.toUpperCase() || 'GET'
+  type EventParams = { params?: Record<string, string> }
+  const ctx = (event.context as unknown as EventParams) || {}
+  const params = ctx.params || {}
+  const tokenId = params.token
+  const db = useDatabase()
+
+  if ('POST' !== method) {
+    throw createError({ statusCode: 405, message: 'Method not allowed' })
+  }
+
+  if (!tokenId) {
+    throw createError({ statusCode: 400, message: 'Token ID is required' })
+  }
+
+  const token = await db.tokens.update(sessionId, tokenId, { rejectedCount: 0 })
+  if (!token) {
+    throw createError({ statusCode: 404, message: 'Token not found' })
+  }
+
+  resetRateLimit(token.id)
+
+  return { ok: true, rejectedCount: token.rejectedCount }
+})
@@ -1,7 +1,8 @@
-import { defineEventHandler, createError, type H3Event, type EventHandlerRequest } from 'h3'
+import { defineEventHandler, createError, getQuery, type H3Event, type EventHandlerRequest } from 'h3'
 import { useDatabase } from '~~/server/lib/db'
 import { getOrCreateSession } from '~~/server/lib/session'
-import { detectBinaryBody, extractContentType } from '~~/shared/content'
+import { detectBinaryBody, extractContentType, isDecodableEncoding, parseContentEncoding } from '~~/shared/content'
+import { decodeContent } from '~~/server/lib/content-encoding'
 import { parseHeaders } from '~~/server/lib/utils'
 
 export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) => {
@@ -11,6 +12,8 @@ export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) =>
   const params = ctx.params || {}
   const id = params.id
   const tokenId = params.token
+  const query = getQuery(event)
+  const decode = 'true' === query.decode || '1' === query.decode
   const db = useDatabase()
 
   if (!tokenId) {
@@ -34,20 +37,36 @@ export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) =>
   const headers = parseHeaders(row.headers ?? null)
   const headerContentType = row.contentType ?? extractContentType(headers)
   
+  const encoding = parseContentEncoding(String(headers['content-encoding'] ?? ''))
+  const decodable = isDecodableEncoding(encoding)
+
   // Fetch body separately
   const bodyData = await db.requests.getBody(sessionId, tokenId, id)
-  const bodyBuffer = bodyData ? Buffer.from(bodyData) : null
-  const isBinary = row.isBinary ?? detectBinaryBody(bodyBuffer ?? undefined, headerContentType)
+  let bodyBuffer: Buffer | null = bodyData ? Buffer.from(bodyData) : null
+  let isBinary = row.isBinary ?? detectBinaryBody(bodyBuffer ?? undefined, headerContentType)
+
+  // The stored bytes stay as received, the decoded view is only built when asked for.
+  const decoded = decode && decodable && null !== bodyBuffer && 0 < bodyBuffer.length
+  if (decoded) {
+    try {
+      bodyBuffer = await decodeContent(bodyBuffer!, encoding, row.truncated)
+    } catch (err) {
+      throw createError({ statusCode: 422, message: err instanceof Error ? err.message : 'Unable to decode body' })
+    }
+    isBinary = detectBinaryBody(bodyBuffer, headerContentType)
+  }
+
+  const meta = { contentType: headerContentType, headers, encoding: decodable ? encoding : null, decoded }
 
   if (!bodyBuffer || 0 === bodyBuffer.length) {
-    return { contentType: headerContentType, text: '', headers, isBinary: false }
+    return { ...meta, text: '', isBinary: false }
   }
 
   if (isBinary) {
     const hex = bodyBuffer.toString('hex')
-    return { contentType: headerContentType, hex, headers, isBinary: true }
+    return { ...meta, hex, isBinary: true }
   }
 
   const text = bodyBuffer.toString('utf8')
-  return { contentType: headerContentType, text, headers, isBinary: false }
+  return { ...meta, text, isBinary: false }
 })
@@ -0,0 +1,39 @@
+import { defineEventHandler, createError, type H3Event, type EventHandlerRequest } from 'h3'
+import { useDatabase } from '~~/server/lib/db'
+import { getOrCreateSession } from '~~/server/lib/session'
+import { toEmailSummary } from '~~/server/lib/smtp'
+
+export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) => {
+  const sessionId = await getOrCreateSession(event)
+  type EventParams = { params?: Record<string, string> }
+  const ctx = (event.context as unknown as EventParams) || {}
+  const params = ctx.params || {}
+  const id = params.id
+  const tokenId = params.token
+  const db = useDatabase()
+
+  if (!tokenId) {
+    throw createError({ statusCode: 400, message: 'Token ID is required' })
+  }
+
+  if (!id) {
+    throw createError({ statusCode: 400, message: 'Invalid request ID' })
+  }
+
+  const token = await db.tokens.get(sessionId, tokenId)
+  if (!token) {
+    throw createError({ statusCode: 404, message: 'Token not found' })
+  }
+
+  const row = await db.requests.get(sessionId, tokenId, id)
+  if (!row) {
+    throw createError({ statusCode: 404, message: 'Request not found' })
+  }
+
+  const email = row.email ? await db.emails.get(id) : null
+  if (!email) {
+    throw createError({ statusCode: 404, message: 'Request is not an email' })
+  }
+
+  return toEmailSummary(email)
+})
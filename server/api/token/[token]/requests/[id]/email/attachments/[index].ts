@@ -0,0 +1,57 @@
+import { defineEventHandler, createError, type H3Event, type EventHandlerRequest, setResponseHeader } from 'h3'
+import type { EmailAttachment } from '~~/shared/types'
+import { useDatabase } from '~~/server/lib/db'
+import { getOrCreateSession } from '~~/server/lib/session'
+
+export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) => {
+  const sessionId = await getOrCreateSession(event)
+  const db = useDatabase()
+
+  type EventParams = { params?: Record<string, string> }
+  const ctx = (event.context as unknown as EventParams) || {}
+  const params = ctx.params || {}
+  const id = params.id
+  const tokenId = params.token
+  const index = Number(params.index)
+
+  if (!tokenId) {
+    throw createError({ statusCode: 400, message: 'Token ID is required' })
+  }
+
+  if (!id) {
+    throw createError({ statusCode: 400, message: 'Invalid request ID' })
+  }
+
+  if (!Number.isInteger(index) || index < 0) {
+    throw createError({ statusCode: 400, message: 'Invalid attachment index' })
+  }
+
+  const token = await db.tokens.get(sessionId, tokenId)
+  if (!token) {
+    throw createError({ statusCode: 404, message: 'Token not found' })
+  }
+
+  const row = await db.requests.get(sessionId, tokenId, id)
+  if (!row) {
+    throw createError({ statusCode: 404, message: 'Request not found' })
+  }
+
+  const email = row.email ? await db.emails.get(id) : null
+  const attachment = email ? (JSON.parse(email.attachments) as EmailAttachment[])[index] : undefined
+  if (!attachment) {
+    throw createError({ statusCode: 404, message: 'Attachment not found' })
+  }
+
+  const data = await db.emails.getAttachment(attachment)
+  if (!data) {
+    throw createError({ statusCode: 404, message: 'Attachment not found' })
+  }
+
+  // Attachments come from anyone who can send mail, never render them on this origin.
+  const filename = attachment.filename.replace(/["\\\r\n]/g, '_')
+  setResponseHeader(event, 'Content-Type', attachment.contentType || 'application/octet-stream')
+  setResponseHeader(event, 'Content-Disposition', `attachment; filename="${filename.replace(/[^\x20-\x7e]/g, '_')}"; filename*=UTF-8''${encodeURIComponent(filename)}`)
+  setResponseHeader(event, 'X-Content-Type-Options', 'nosniff')
+
+  return data
+})
@@ -2,6 +2,8 @@ import { defineEventHandler, createError, type H3Event, type EventHandlerRequest
 import { useDatabase } from '~~/server/lib/db'
 import { getOrCreateSession } from '~~/server/lib/session'
 import { parseHeaders, capitalizeHeader } from '~~/server/lib/utils'
+import { getRawHeaders } from '~~/shared/headers'
+import type { RawHeader } from '~~/shared/types'
 
 export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) => {
   const sessionId = await getOrCreateSession(event)
@@ -31,6 +33,28 @@ export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) =>
     throw createError({ statusCode: 404, message: 'Request not found' })
   }
 
+  // The body of an email is the whole message as received, headers included.
+  if (row.email) {
+    const download = 'true' === query.download || '1' === query.download
+    setResponseHeader(event, 'Content-Type', download ? 'message/rfc822' : 'text/plain; charset=utf-8')
+    setResponseHeader(event, 'Content-Disposition', `${download ? 'attachment' : 'inline'}; filename="r-${tokenId}-${id}-raw.eml"`)
+
+    const bodyStream = await db.requests.streamBody(sessionId, tokenId, id)
+    if (!bodyStream) {
+      return ''
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const res = event.node.res
+      bodyStream.stream.on('error', (streamErr: Error) => reject(streamErr))
+      bodyStream.stream.on('end', () => {
+        res.end()
+        resolve()
+      })
+      bodyStream.stream.pipe(res, { end: false })
+    })
+  }
+
   const headers = parseHeaders(row.headers as string)
   const isBinary = row.isBinary ?? false
 
@@ -45,9 +69,11 @@ export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) =>
   }
 
   const statusLine = `${method} ${process.env.RAW_FULL_URL ? fullUrl : url} HTTP/1.1`
-  const headerLines = Object.entries(headers).map(
-    ([key, value]) => `${capitalizeHeader(key)}: ${String(value)}`
-  ).join('\r\n')
+  // Headers go out as received, older requests only kept the lowercased map.
+  const headerLines = (row.rawHeaders
+    ? getRawHeaders(row)
+    : getRawHeaders(row).map(([key, value]): RawHeader => [capitalizeHeader(key), value])
+  ).map(([key, value]) => `${key}: ${value}`).join('\r\n')
 
   setResponseHeader(event, 'Content-Type', 'text/plain; charset=utf-8')
 
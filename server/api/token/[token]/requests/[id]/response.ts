@@ -0,0 +1,64 @@
+import { defineEventHandler, createError, type H3Event, type EventHandlerRequest } from 'h3'
+import { useDatabase } from '~~/server/lib/db'
+import { getOrCreateSession } from '~~/server/lib/session'
+import { parseHeaders } from '~~/server/lib/utils'
+
+export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) => {
+  const sessionId = await getOrCreateSession(event)
+  type EventParams = { params?: Record<string, string> }
+  const ctx = (event.context as unknown as EventParams) || {}
+  const params = ctx.params || {}
+  const id = params.id
+  const tokenId = params.token
+  const db = useDatabase()
+
+  if (!tokenId) {
+    throw createError({ statusCode: 400, message: 'Token ID is required' })
+  }
+
+  if (!id) {
+    throw createError({ statusCode: 400, message: 'Invalid request ID' })
+  }
+
+  const token = await db.tokens.get(sessionId, tokenId)
+  if (!token) {
+    throw createError({ statusCode: 404, message: 'Token not found' })
+  }
+
+  const row = await db.requests.get(sessionId, tokenId, id)
+  if (!row) {
+    throw createError({ statusCode: 404, message: 'Request not found' })
+  }
+
+  const response = await db.responses.get(id)
+  if (!response) {
+    return null
+  }
+
+  const headers = parseHeaders(response.headers)
+  const meta = {
+    source: response.source,
+    ruleId: response.ruleId,
+    status: response.status,
+    headers,
+    contentType: response.contentType,
+    contentLength: response.contentLength,
+    latencyMs: response.latencyMs,
+    durationMs: response.durationMs,
+    error: response.error,
+    createdAt: response.createdAt,
+  }
+
+  const bodyData = await db.responses.getBody(id)
+  const bodyBuffer = bodyData ? Buffer.from(bodyData) : null
+
+  if (!bodyBuffer || 0 === bodyBuffer.length) {
+    return { ...meta, text: '', isBinary: false }
+  }
+
+  if (response.isBinary) {
+    return { ...meta, hex: bodyBuffer.toString('hex'), isBinary: true }
+  }
+
+  return { ...meta, text: bodyBuffer.toString('utf8'), isBinary: false }
+})
@@ -1,4 +1,4 @@
-import { defineEventHandler, createError, type H3Event, type EventHandlerRequest } from 'h3'
+import { defineEventHandler, createError, getQuery, type H3Event, type EventHandlerRequest } from 'h3'
 import { useDatabase } from '~~/server/lib/db'
 import { getOrCreateSession } from '~~/server/lib/session'
 import { useServerEvents } from '~~/server/lib/events'
@@ -32,5 +32,7 @@ export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) =>
     return { ok: true }
   }
 
-  return await db.requests.list(sessionId, token.id)
+  const { path } = getQuery(event)
+
+  return await db.requests.list(sessionId, token.id, 'string' === typeof path && path ? path : undefined)
 })
@@ -0,0 +1,36 @@
+import { defineEventHandler, createError, setResponseHeader, type H3Event, type EventHandlerRequest } from 'h3'
+import { useDatabase } from '~~/server/lib/db'
+import { getOrCreateSession } from '~~/server/lib/session'
+
+export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) => {
+  const sessionId = await getOrCreateSession(event)
+  const method = event.node.req.method?.toUpperCase() || 'GET'
+  const tokenId = event.context.params?.token
+  const db = useDatabase()
+
+  if ('GET' !== method) {
+    throw createError({ statusCode: 405, message: 'Method not allowed' })
+  }
+
+  if (!tokenId) {
+    throw createError({ statusCode: 400, message: 'Token ID is required' })
+  }
+
+  const token = await db.tokens.get(sessionId, tokenId)
+  if (!token) {
+    throw createError({ statusCode: 404, message: 'Token not found' })
+  }
+
+  const data = await db.tokens.getResponseFile(token)
+  if (!data) {
+    throw createError({ statusCode: 404, message: 'Response file not found' })
+  }
+
+  const filename = (token.responseFileName || `t-${tokenId}-response.bin`).replace(/["\r\n]/g, '')
+
+  setResponseHeader(event, 'Content-Type', token.responseFileType || 'application/octet-stream')
+  setResponseHeader(event, 'Content-Length', data.length)
+  setResponseHeader(event, 'Content-Disposition', `attachment; filename="${filename}"`)
+
+  return data
+})
@@ -0,0 +1,61 @@
+import { defineEventHandler, readBody, createError, type H3Event, type EventHandlerRequest } from 'h3'
+import { useDatabase } from '~~/server/lib/db'
+import { getOrCreateSession } from '~~/server/lib/session'
+import { useServerEvents } from '~~/server/lib/events'
+import { normalizeRuleInput, toRuleConfig } from '~~/server/lib/response-rules'
+
+export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) => {
+  const sessionId = await getOrCreateSession(event)
+  const method = event.node.req.method?.toUpperCase() || 'GET'
+  type EventParams = { params?: Record<string, string> }
+  const ctx = (event.context as unknown as EventParams) || {}
+  const params = ctx.params || {}
+  const id = params.id
+  const tokenId = params.token
+  const db = useDatabase()
+
+  if (true !== ['GET', 'PATCH', 'DELETE'].includes(method)) {
+    throw createError({ statusCode: 405, message: 'Method not allowed' })
+  }
+
+  if (!tokenId) {
+    throw createError({ statusCode: 400, message: 'Token ID is required' })
+  }
+
+  if (!id) {
+    throw createError({ statusCode: 400, message: 'Invalid rule ID' })
+  }
+
+  const token = await db.tokens.get(sessionId, tokenId)
+  if (!token) {
+    throw createError({ statusCode: 404, message: 'Token not found' })
+  }
+
+  const rule = await db.rules.get(token.id, id)
+  if (!rule) {
+    throw createError({ statusCode: 404, message: 'Rule not found' })
+  }
+
+  if ('DELETE' === method) {
+    await db.rules._delete(token.id, id)
+    useServerEvents().publish(sessionId, 'token.rules.updated', { token: { id: token.id } })
+    return { ok: true }
+  }
+
+  if ('PATCH' === method) {
+    const body = (await readBody(event).catch(() => ({}))) as Record<string, unknown> | null
+
+    let fields
+    try {
+      fields = normalizeRuleInput(body || {})
+    } catch (err) {
+      throw createError({ statusCode: 400, message: err instanceof Error ? err.message : 'Invalid rule' })
+    }
+
+    const updated = await db.rules.update(token.id, id, fields)
+    useServerEvents().publish(sessionId, 'token.rules.updated', { token: { id: token.id } })
+    return updated ? toRuleConfig(updated) : null
+  }
+
+  return toRuleConfig(rule)
+})
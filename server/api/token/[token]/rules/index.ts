@@ -0,0 +1,56 @@
+import { defineEventHandler, readBody, createError, type H3Event, type EventHandlerRequest } from 'h3'
+import { useDatabase } from '~~/server/lib/db'
+import { getOrCreateSession } from '~~/server/lib/session'
+import { useServerEvents } from '~~/server/lib/events'
+import { normalizeRuleInput, toRuleConfig } from '~~/server/lib/response-rules'
+
+export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) => {
+  const sessionId = await getOrCreateSession(event)
+  const method = event.node.req.method?.toUpperCase() || 'GET'
+  type EventParams = { params?: Record<string, string> }
+  const ctx = (event.context as unknown as EventParams) || {}
+  const params = ctx.params || {}
+  const tokenId = params.token
+  const db = useDatabase()
+
+  if (true !== ['GET', 'POST', 'PUT'].includes(method)) {
+    throw createError({ statusCode: 405, message: 'Method not allowed' })
+  }
+
+  if (!tokenId) {
+    throw createError({ statusCode: 400, message: 'Token ID is required' })
+  }
+
+  const token = await db.tokens.get(sessionId, tokenId)
+  if (!token) {
+    throw createError({ statusCode: 404, message: 'Token not found' })
+  }
+
+  if ('GET' === method) {
+    return (await db.rules.list(token.id)).map(toRuleConfig)
+  }
+
+  const body = (await readBody(event).catch(() => ({}))) as Record<string, unknown> | null
+
+  if ('PUT' === method) {
+    const ids = body?.ids
+    if (!Array.isArray(ids) || ids.some(id => 'string' !== typeof id)) {
+      throw createError({ statusCode: 400, message: 'Invalid request body. Expected { ids: string[] }' })
+    }
+
+    const ordered = await db.rules.reorder(token.id, ids as string[])
+    useServerEvents().publish(sessionId, 'token.rules.updated', { token: { id: token.id } })
+    return ordered.map(toRuleConfig)
+  }
+
+  let fields
+  try {
+    fields = normalizeRuleInput(body || {})
+  } catch (err) {
+    throw createError({ statusCode: 400, message: err instanceof Error ? err.message : 'Invalid rule' })
+  }
+
+  const rule = await db.rules.create(token.id, fields)
+  useServerEvents().publish(sessionId, 'token.rules.updated', { token: { id: token.id } })
+  return toRuleConfig(rule)
+})
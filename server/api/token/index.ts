@@ -2,6 +2,7 @@ import { defineEventHandler, createError } from 'h3'
 import { useDatabase } from '~~/server/lib/db'
 import { getOrCreateSession } from '~~/server/lib/session'
 import { useServerEvents } from '~~/server/lib/events'
+import { parseTags } from '~~/server/lib/token-labels'
 
 export default defineEventHandler(async (event) => {
   const sessionId = await getOrCreateSession(event)
@@ -10,7 +11,8 @@ export default defineEventHandler(async (event) => {
   const db = useDatabase()
 
   if ('GET' === method) {
-    return await db.tokens.list(sessionId)
+    const tokens = await db.tokens.list(sessionId)
+    return tokens.map(token => ({ ...token, tags: parseTags(token.tags) }))
   }
 
   if ('POST' === method) {
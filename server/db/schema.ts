@@ -1,5 +1,6 @@
-import { sqliteTable, text, integer, index } from 'drizzle-orm/sqlite-core'
+import { sqliteTable, text, integer, index, uniqueIndex } from 'drizzle-orm/sqlite-core'
 import { sql } from 'drizzle-orm'
+import type { AuthScheme, AuthStatus, BodyFraming, ResponseDelayMode, ResponseMode, ResponseSequenceMode, ResponseSource, ResponseStreamFormat, SignatureScheme, WebSocketFrame, WebSocketReplyMode } from '../../shared/types'
 
 export const sessions = sqliteTable('sessions', {
     id: text('id').primaryKey(),
@@ -20,19 +21,173 @@ export const tokens = sqliteTable('tokens', {
     responseStatus: integer('response_status').notNull().default(200),
     responseHeaders: text('response_headers'),
     responseBody: text('response_body'),
+    /**
+     * one of `none`, `fixed`, `random` or `hang`.
+     */
+    responseDelayMode: text('response_delay_mode').$type<ResponseDelayMode>().notNull().default('none'),
+    /**
+     * fixed delay, or lower bound of the random range, in milliseconds.
+     */
+    responseDelayMs: integer('response_delay_ms').notNull().default(0),
+    /**
+     * upper bound of the random range in milliseconds.
+     */
+    responseDelayMaxMs: integer('response_delay_max_ms').notNull().default(0),
+    /**
+     * JSON array of scripted response steps, null when no sequence is set.
+     */
+    responseSequence: text('response_sequence'),
+    /**
+     * `loop` restarts after the last step, `stick` keeps returning it.
+     */
+    responseSequenceMode: text('response_sequence_mode').$type<ResponseSequenceMode>().notNull().default('stick'),
+    /**
+     * number of requests the sequence has answered since it was last reset.
+     */
+    responseSequencePosition: integer('response_sequence_position').notNull().default(0),
+    /**
+     * `static` answers with the configured response, `proxy` relays requests to `proxyUrl`,
+     * `stream` writes `responseStream` chunks over time.
+     */
+    responseMode: text('response_mode').$type<ResponseMode>().notNull().default('static'),
+    proxyUrl: text('proxy_url'),
+    /**
+     * JSON array of stream chunks, null when no stream is set.
+     */
+    responseStream: text('response_stream'),
+    responseStreamFormat: text('response_stream_format').$type<ResponseStreamFormat>().notNull().default('sse'),
+    responseStreamLoop: integer('response_stream_loop', { mode: 'boolean' }).notNull().default(false),
+    /**
+     * relative path to an uploaded file sent instead of `responseBody`.
+     */
+    responseFilePath: text('response_file_path'),
+    responseFileName: text('response_file_name'),
+    responseFileType: text('response_file_type'),
+    responseFileSize: integer('response_file_size'),
+    /**
+     * JSON CORS policy, null keeps the permissive default.
+     */
+    corsPolicy: text('cors_policy'),
+    /**
+     * webhook signature check run on every captured request, null disables it.
+     */
+    signatureScheme: text('signature_scheme').$type<SignatureScheme>(),
+    signatureSecret: text('signature_secret'),
+    /**
+     * header carrying the digest for the generic HMAC schemes.
+     */
+    signatureHeader: text('signature_header'),
+    /**
+     * seconds a signed timestamp may differ from the server clock.
+     */
+    signatureTolerance: integer('signature_tolerance').notNull().default(300),
+    /**
+     * requests accepted per minute, null for no limit.
+     */
+    rateLimitPerMinute: integer('rate_limit_per_minute'),
+    /**
+     * stored requests kept before new ones are rejected, null for no limit.
+     */
+    maxRequests: integer('max_requests'),
+    /**
+     * seconds sent in `Retry-After` with a 429.
+     */
+    rateLimitRetryAfter: integer('rate_limit_retry_after').notNull().default(60),
+    /**
+     * requests turned away by a limit since the counter was last reset.
+     */
+    rejectedCount: integer('rejected_count').notNull().default(0),
+    /**
+     * JSON allow and deny lists of client addresses, null lets every address through.
+     */
+    ipPolicy: text('ip_policy'),
+    /**
+     * credentials required before the custom response is sent, null lets everyone through.
+     */
+    authScheme: text('auth_scheme').$type<AuthScheme>(),
+    authUsername: text('auth_username'),
+    authSecret: text('auth_secret'),
+    /**
+     * header or query parameter carrying the key for the `header` and `query` schemes.
+     */
+    authParam: text('auth_param'),
+    /**
+     * labels shown in the token list, null when not set.
+     */
+    name: text('name'),
+    description: text('description'),
+    /**
+     * hex colour, `#rrggbb`.
+     */
+    color: text('color'),
+    /**
+     * JSON array of lowercase tags used to filter the token list.
+     */
+    tags: text('tags'),
+    /**
+     * pinned tokens and their requests never expire.
+     */
+    pinned: integer('pinned', { mode: 'boolean' }).notNull().default(false),
+    /**
+     * minutes requests are kept, replacing the global request TTL. null uses the global one.
+     */
+    requestTtlMinutes: integer('request_ttl_minutes'),
+    /**
+     * newest requests kept, older ones are deleted as new ones arrive. null keeps all of them.
+     */
+    keepLastRequests: integer('keep_last_requests'),
+    /**
+     * how the WebSocket endpoint answers inbound frames, `static` and `template` send `websocketReplyMessage`.
+     */
+    websocketReplyMode: text('websocket_reply_mode').$type<WebSocketReplyMode>().notNull().default('none'),
+    websocketReplyMessage: text('websocket_reply_message'),
 }, (table) => [
     index('token_friendly_id_idx').on(table.friendlyId),
+    // Friendly IDs resolve case-insensitively, two of them may not differ only in case.
+    uniqueIndex('token_friendly_id_lower_unique').on(sql`lower(${table.friendlyId})`),
     index('token_session_idx').on(table.sessionId),
     index('token_created_idx').on(table.createdAt),
 ])
 
+export const responseRules = sqliteTable('response_rules', {
+    id: text('id').primaryKey(),
+    tokenId: text('token_id').notNull().references(() => tokens.id, { onDelete: 'cascade' }),
+    /**
+     * evaluation order, lowest first.
+     */
+    position: integer('position').notNull().default(0),
+    name: text('name'),
+    enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+    method: text('method'),
+    pathPattern: text('path_pattern'),
+    /**
+     * JSON array of query, header and body predicates.
+     */
+    conditions: text('conditions'),
+    responseStatus: integer('response_status').notNull().default(200),
+    responseHeaders: text('response_headers'),
+    responseBody: text('response_body'),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+}, (table) => [
+    index('rule_token_idx').on(table.tokenId),
+    index('rule_position_idx').on(table.tokenId, table.position),
+])
+
 export const requests = sqliteTable('requests', {
     id: text('id').primaryKey(),
     tokenId: text('token_id').notNull().references(() => tokens.id, { onDelete: 'cascade' }),
     sessionId: text('session_id').notNull().references(() => sessions.id, { onDelete: 'cascade' }),
     method: text('method').notNull(),
     url: text('url').notNull(),
+    /**
+     * sub-path after the payload URL, e.g. `/v1/events` for `/api/payload/<token>/v1/events`.
+     */
+    path: text('path').notNull().default('/'),
     headers: text('headers').notNull(),
+    /**
+     * JSON array of [name, value] pairs as received, `headers` is derived from it.
+     */
+    rawHeaders: text('raw_headers'),
     contentType: text('content_type').notNull(),
     contentLength: integer('content_length').notNull().default(0),
     isBinary: integer('is_binary', { mode: 'boolean' }).notNull(),
@@ -42,13 +197,129 @@ export const requests = sqliteTable('requests', {
      * relative path to the body file stored on disk.
      */
     bodyPath: text('body_path'),
+    /**
+     * SHA-256 hex of the body as received, including any part dropped by truncation.
+     */
+    bodyHash: text('body_hash'),
+    /**
+     * body exceeded MAX_BODY_SIZE and only the leading bytes were stored.
+     */
+    truncated: integer('truncated', { mode: 'boolean' }).notNull().default(false),
+    /**
+     * JSON signature verification result, null when the token has no scheme.
+     */
+    signature: text('signature'),
+    /**
+     * client address was refused by the token's IP policy, recorded for inspection only.
+     */
+    blocked: integer('blocked', { mode: 'boolean' }).notNull().default(false),
+    /**
+     * outcome of the token's authentication check, null when the token requires none.
+     */
+    authStatus: text('auth_status').$type<AuthStatus>(),
+    /**
+     * handshake of a WebSocket connection, its frames are in `websocket_frames`.
+     */
+    websocket: integer('websocket', { mode: 'boolean' }).notNull().default(false),
+    /**
+     * message received by the SMTP listener, its parsed form is in `emails`.
+     */
+    email: integer('email', { mode: 'boolean' }).notNull().default(false),
+    /**
+     * HTTP version of the request, e.g. `1.1`, null when not received over HTTP.
+     */
+    httpVersion: text('http_version'),
+    tls: integer('tls', { mode: 'boolean' }),
+    serverPort: integer('server_port'),
+    /**
+     * `chunked` or `content-length`, null when the sender declared no body.
+     */
+    bodyFraming: text('body_framing').$type<BodyFraming>(),
+    /**
+     * Time from the first body byte until the end of the body.
+     */
+    receiveMs: integer('receive_ms'),
     createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
 }, (table) => [
     index('request_token_idx').on(table.tokenId),
     index('request_session_idx').on(table.sessionId),
     index('request_created_idx').on(table.createdAt),
+    index('request_path_idx').on(table.tokenId, table.path),
 ])
 
+export const requestResponses = sqliteTable('request_responses', {
+    requestId: text('request_id').primaryKey().references(() => requests.id, { onDelete: 'cascade' }),
+    source: text('source').$type<ResponseSource>().notNull(),
+    /**
+     * rule that produced the response, kept as plain text so deleting the rule keeps the history.
+     */
+    ruleId: text('rule_id'),
+    status: integer('status').notNull(),
+    headers: text('headers').notNull(),
+    contentType: text('content_type'),
+    contentLength: integer('content_length').notNull().default(0),
+    isBinary: integer('is_binary', { mode: 'boolean' }).notNull().default(false),
+    /**
+     * relative path to the response body file stored on disk.
+     */
+    bodyPath: text('body_path'),
+    /**
+     * time until the upstream answered, for proxied responses.
+     */
+    latencyMs: integer('latency_ms'),
+    /**
+     * time from receiving the request until the response was written, including delays.
+     */
+    durationMs: integer('duration_ms'),
+    error: text('error'),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+})
+
+export const websocketFrames = sqliteTable('websocket_frames', {
+    id: text('id').primaryKey(),
+    requestId: text('request_id').notNull().references(() => requests.id, { onDelete: 'cascade' }),
+    direction: text('direction').$type<WebSocketFrame['direction']>().notNull(),
+    type: text('type').$type<WebSocketFrame['type']>().notNull(),
+    /**
+     * text, base64 for binary frames, the reason for close frames.
+     */
+    data: text('data').notNull(),
+    /**
+     * bytes in the frame as sent, data keeps at most MAX_FRAME_BYTES of them.
+     */
+    size: integer('size').notNull(),
+    truncated: integer('truncated', { mode: 'boolean' }).notNull().default(false),
+    closeCode: integer('close_code'),
+    /**
+     * frames arrive faster than once a second, so these keep milliseconds.
+     */
+    createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull(),
+}, (table) => [
+    index('websocket_frame_request_idx').on(table.requestId, table.createdAt),
+])
+
+export const emails = sqliteTable('emails', {
+    requestId: text('request_id').primaryKey().references(() => requests.id, { onDelete: 'cascade' }),
+    envelopeFrom: text('envelope_from'),
+    /**
+     * JSON array of the RCPT TO addresses that reached the token.
+     */
+    envelopeTo: text('envelope_to').notNull(),
+    from: text('from'),
+    to: text('to'),
+    cc: text('cc'),
+    replyTo: text('reply_to'),
+    subject: text('subject'),
+    date: text('date'),
+    messageId: text('message_id'),
+    text: text('text'),
+    html: text('html'),
+    /**
+     * JSON array of attachment metadata, the files are stored next to the request body.
+     */
+    attachments: text('attachments').notNull().default('[]'),
+})
+
 export const keyValueStore = sqliteTable('key_value_store', {
     key: text('key').primaryKey(),
     value: text('value').notNull(),
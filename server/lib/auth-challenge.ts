@@ -0,0 +1,153 @@
+import { timingSafeEqual } from 'crypto'
+import type { AuthScheme, AuthStatus, Token } from '~~/shared/types'
+
+export const AUTH_SCHEMES: readonly AuthScheme[] = ['basic', 'bearer', 'header', 'query']
+
+/**
+ * Header checked by the `header` scheme when none is configured.
+ */
+export const DEFAULT_AUTH_HEADER = 'x-api-key'
+
+/**
+ * Query parameter checked by the `query` scheme when none is configured.
+ */
+export const DEFAULT_AUTH_QUERY = 'api_key'
+
+/**
+ * Realm sent in `WWW-Authenticate`.
+ */
+const REALM = 'http-inspector'
+
+type AuthConfig = Pick<Token, 'authScheme' | 'authUsername' | 'authSecret' | 'authParam'>
+
+type AuthFields = Partial<AuthConfig>
+
+const PARAM_NAME = /^[!#$%&'*+.^_`|~0-9a-z-]+$/i
+
+const toText = (value: unknown, field: string): string | null => {
+    if (null !== value && undefined !== value && 'string' !== typeof value) {
+        throw new Error(`${field} must be a string or null`)
+    }
+    return value?.trim() || null
+}
+
+/**
+ * Validate authentication settings from a token update payload.
+ *
+ * @param payload Raw request body.
+ *
+ * @throws Error if a field is invalid
+ * @returns Fields present in the payload, ready to be stored.
+ */
+export const normalizeAuthInput = (payload: Record<string, unknown>): AuthFields => {
+    const out: AuthFields = {}
+
+    if ('authScheme' in payload) {
+        const scheme = payload.authScheme
+        if (null !== scheme && undefined !== scheme && '' !== scheme && !AUTH_SCHEMES.includes(scheme as AuthScheme)) {
+            throw new Error(`authScheme must be one of ${AUTH_SCHEMES.join(', ')} or null`)
+        }
+        out.authScheme = (scheme || null) as AuthScheme | null
+    }
+
+    if ('authUsername' in payload) {
+        const username = toText(payload.authUsername, 'authUsername')
+        if (username?.includes(':')) {
+            throw new Error('authUsername cannot contain ":"')
+        }
+        out.authUsername = username
+    }
+
+    if ('authSecret' in payload) {
+        out.authSecret = toText(payload.authSecret, 'authSecret')
+    }
+
+    if ('authParam' in payload) {
+        const param = toText(payload.authParam, 'authParam')
+        if (param && !PARAM_NAME.test(param)) {
+            throw new Error('authParam must be a valid header or query parameter name')
+        }
+        out.authParam = param
+    }
+
+    return out
+}
+
+const safeEqual = (a: string, b: string): boolean => {
+    const left = Buffer.from(a)
+    const right = Buffer.from(b)
+    return left.length === right.length && timingSafeEqual(left, right)
+}
+
+const credentialsFor = (config: AuthConfig, headers: Record<string, string>, url: string): string | null => {
+    switch (config.authScheme) {
+        case 'basic':
+        case 'bearer': {
+            const [type, value] = (headers['authorization'] ?? '').trim().split(/\s+/, 2)
+            return type && value && config.authScheme === type.toLowerCase() ? value : null
+        }
+
+        case 'header':
+            return headers[(config.authParam || DEFAULT_AUTH_HEADER).toLowerCase()] ?? null
+
+        case 'query':
+            // A malformed request target carries no usable credentials.
+            try {
+                return new URL(url, 'http://localhost').searchParams.get(config.authParam || DEFAULT_AUTH_QUERY)
+            } catch {
+                return null
+            }
+
+        default:
+            return null
+    }
+}
+
+/**
+ * Check the credentials a request carries against the token's configuration.
+ *
+ * @param config The token's authentication settings.
+ * @param headers Request headers, lowercase keys.
+ * @param url Request URL, used by the `query` scheme.
+ *
+ * @returns The outcome, null when the token does not require authentication.
+ */
+export const checkAuth = (config: AuthConfig, headers: Record<string, string>, url: string): AuthStatus | null => {
+    if (!config.authScheme || !config.authSecret) {
+        return null
+    }
+
+    const received = credentialsFor(config, headers, url)
+    if (!received) {
+        return 'missing'
+    }
+
+    if ('basic' === config.authScheme) {
+        const decoded = Buffer.from(received, 'base64').toString('utf8')
+        return safeEqual(decoded, `${config.authUsername ?? ''}:${config.authSecret}`) ? 'passed' : 'invalid'
+    }
+
+    return safeEqual(received, config.authSecret) ? 'passed' : 'invalid'
+}
+
+/**
+ * Build the `WWW-Authenticate` challenge sent with a 401.
+ * API keys have no registered scheme, the challenge names where the key is expected.
+ *
+ * @param config The token's authentication settings.
+ * @param status Outcome of the check, rejected bearer tokens are reported as `invalid_token`.
+ *
+ * @returns The header value.
+ */
+export const buildChallenge = (config: AuthConfig, status: AuthStatus | null = 'missing'): string => {
+    switch (config.authScheme) {
+        case 'basic':
+            return `Basic realm="${REALM}", charset="UTF-8"`
+        case 'header':
+            return `ApiKey realm="${REALM}", header="${config.authParam || DEFAULT_AUTH_HEADER}"`
+        case 'query':
+            return `ApiKey realm="${REALM}", query="${config.authParam || DEFAULT_AUTH_QUERY}"`
+        default:
+            return 'invalid' === status ? `Bearer realm="${REALM}", error="invalid_token"` : `Bearer realm="${REALM}"`
+    }
+}
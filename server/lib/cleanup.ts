@@ -1,14 +1,35 @@
 import { getDb } from '../db'
-import { sessions, tokens, requests } from '../db/schema'
-import { lt, sql, isNotNull } from 'drizzle-orm'
+import { sessions, tokens, requests, requestResponses, emails } from '../db/schema'
+import { eq, sql, type SQL } from 'drizzle-orm'
 import { useFileStorage } from './file-storage'
+import { getRetentionPolicy, type RetentionPolicy } from './retention'
+import { existsSync } from 'fs'
 import { readdir, stat } from 'fs/promises'
 import { join } from 'path'
+import type { EmailAttachment } from '~~/shared/types'
 
-// TTL values (in days)
-const SESSION_TTL_DAYS = 30
-const TOKEN_TTL_DAYS = 30
-const REQUEST_TTL_DAYS = 7
+type CleanupOptions = {
+  /** Report what would be removed without deleting anything. */
+  dryRun?: boolean
+}
+
+const DAY_SECONDS = 24 * 60 * 60
+
+/**
+ * Total size of the files below a directory.
+ *
+ * @param path Directory to measure.
+ */
+const directorySize = async (path: string): Promise<number> => {
+  let bytes = 0
+
+  for (const entry of await readdir(path, { withFileTypes: true })) {
+    const entryPath = join(path, entry.name)
+    bytes += entry.isDirectory() ? await directorySize(entryPath) : (await stat(entryPath)).size
+  }
+
+  return bytes
+}
 
 /**
  * Clean up orphaned files that are not referenced in the database
@@ -21,16 +42,19 @@ const REQUEST_TTL_DAYS = 7
  * 
  * @param dbFile Optional database file path for testing
  * @param filesPath Optional files storage path for testing
+ * @param options Set dryRun to only count the orphaned files and their size
  */
-export const cleanupOrphanedFiles = async (dbFile?: string, filesPath?: string) => {
+export const cleanupOrphanedFiles = async (dbFile?: string, filesPath?: string, options: CleanupOptions = {}) => {
   const db = getDb(dbFile)
   const storage = useFileStorage(filesPath)
+  const dryRun = true === options.dryRun
 
-  console.debug('Starting orphaned files cleanup...')
+  console.debug(`Starting orphaned files cleanup${dryRun ? ' (dry run)' : ''}...`)
 
   const storageDir = storage.getStorageDir()
   let deletedFiles = 0
   let scannedFiles = 0
+  let freedBytes = 0
 
   try {
     // Get all sessions from the file system
@@ -54,7 +78,10 @@ export const cleanupOrphanedFiles = async (dbFile?: string, filesPath?: string)
       if (0 === sessionExists.length) {
         // Session doesn't exist in DB - delete entire session directory
         console.debug(`Deleting orphaned session directory: ${sessionId}`)
-        await storage.deleteSession(sessionId)
+        freedBytes += await directorySize(sessionPath)
+        if (!dryRun) {
+          await storage.deleteSession(sessionId)
+        }
         continue
       }
 
@@ -71,7 +98,7 @@ export const cleanupOrphanedFiles = async (dbFile?: string, filesPath?: string)
 
         // Check if token exists in database
         const tokenExists = await db
-          .select({ id: tokens.id })
+          .select({ id: tokens.id, responseFilePath: tokens.responseFilePath })
           .from(tokens)
           .where(sql`${tokens.id} = ${tokenId}`)
           .limit(1)
@@ -79,7 +106,10 @@ export const cleanupOrphanedFiles = async (dbFile?: string, filesPath?: string)
         if (0 === tokenExists.length) {
           // Token doesn't exist in DB - delete entire token directory
           console.debug(`Deleting orphaned token directory: ${sessionId}/${tokenId}`)
-          await storage.deleteToken(sessionId, tokenId)
+          freedBytes += await directorySize(tokenPath)
+          if (!dryRun) {
+            await storage.deleteToken(sessionId, tokenId)
+          }
           continue
         }
 
@@ -89,14 +119,19 @@ export const cleanupOrphanedFiles = async (dbFile?: string, filesPath?: string)
         for (const filename of requestFiles) {
           scannedFiles++
 
-          // Extract request ID from filename (e.g., "uuid.bin" -> "uuid")
+          // Extract request ID from filename (e.g., "uuid.bin" or "uuid.response.bin" -> "uuid")
           if (false === filename.endsWith('.bin')) {
             continue
           }
 
-          const requestId = filename.slice(0, -4) // Remove .bin extension
+          const requestId = filename.slice(0, -4).split('.')[0] // Remove .bin extension and file suffix
           const relativePath = join(sessionId, tokenId, filename)
 
+          // The token's own response body file lives next to its requests
+          if (relativePath === tokenExists[0].responseFilePath) {
+            continue
+          }
+
           // Check if request exists in database
           const requestExists = await db
             .select({ id: requests.id })
@@ -107,7 +142,10 @@ export const cleanupOrphanedFiles = async (dbFile?: string, filesPath?: string)
           if (0 === requestExists.length) {
             // Request doesn't exist in DB - delete the file
             console.debug(`Deleting orphaned request file: ${relativePath}`)
-            await storage.delete(relativePath)
+            freedBytes += (await stat(join(tokenPath, filename))).size
+            if (!dryRun) {
+              await storage.delete(relativePath)
+            }
             deletedFiles++
           }
         }
@@ -119,76 +157,133 @@ export const cleanupOrphanedFiles = async (dbFile?: string, filesPath?: string)
     return {
       scannedFiles,
       deletedFiles,
+      freedBytes,
     }
   } catch (error) {
     console.error('[Cleanup] Error during orphaned files cleanup:', error)
     return {
       scannedFiles,
       deletedFiles,
+      freedBytes,
     }
   }
 }
 
-export const cleanupExpiredData = async (dbFile?: string, filesPath?: string) => {
+/**
+ * Remove expired requests, tokens and sessions according to the retention policy.
+ *
+ * Counts include rows removed along with an expired token or session. freedBytes is the stored size
+ * of the expired requests' bodies and attachments, the files of expired tokens and any orphaned files,
+ * each counted once so a dry run reports what the real run frees.
+ *
+ * @param dbFile Optional database file path for testing
+ * @param filesPath Optional files storage path for testing
+ * @param options Set dryRun to report what would be removed without deleting anything
+ */
+export const cleanupExpiredData = async (dbFile?: string, filesPath?: string, options: CleanupOptions = {}) => {
   const db = getDb(dbFile)
   const storage = useFileStorage(filesPath)
+  const dryRun = true === options.dryRun
+  const policy: RetentionPolicy = (await getRetentionPolicy(dbFile)).policy
+
+  console.debug(`Starting database cleanup${dryRun ? ' (dry run)' : ''}...`, policy)
+
+  // Timestamps are stored in seconds.
+  const nowSeconds = Math.floor(Date.now() / 1000)
+  const sessionCutoff = nowSeconds - policy.sessionTtlDays * DAY_SECONDS
+  const tokenCutoff = nowSeconds - policy.tokenTtlDays * DAY_SECONDS
+  const requestCutoff = nowSeconds - policy.requestTtlDays * DAY_SECONDS
+
+  // Requests of pinned tokens never expire, a per-token TTL replaces the global one.
+  // Columns of the outer table are unqualified in DELETE statements, so inner tables are aliased.
+  const requestExpired: SQL = sql`${requests.createdAt} < (
+    select case when t.pinned = 1 then 0 else coalesce(${nowSeconds} - t.request_ttl_minutes * 60, ${requestCutoff}) end
+    from ${tokens} t where t.id = ${requests.tokenId}
+  )`
+  const tokenExpired: SQL = sql`${tokens.createdAt} < ${tokenCutoff} and ${tokens.pinned} = 0`
+  // Deleting a session cascades to its tokens, keep the ones holding a pinned token.
+  const sessionExpired: SQL = sql`${sessions.lastAccessedAt} < ${sessionCutoff}
+    and ${sessions.id} not in (select t.session_id from ${tokens} t where t.pinned = 1)`
+
+  const expiredSessionIds = sql`select ${sessions.id} from ${sessions} where ${sessionExpired}`
+  const expiredTokenIds = sql`select ${tokens.id} from ${tokens} where (${tokenExpired}) or ${tokens.sessionId} in (${expiredSessionIds})`
+
+  const [removed] = await db
+    .select({ requests: sql<number>`count(*)` })
+    .from(requests)
+    .where(sql`(${requestExpired}) or ${requests.tokenId} in (${expiredTokenIds})`)
+
+  const [removedTokens] = await db.select({ count: sql<number>`count(*)` }).from(tokens).where(sql`${tokens.id} in (${expiredTokenIds})`)
+  const [removedSessions] = await db.select({ count: sql<number>`count(*)` }).from(sessions).where(sessionExpired)
+
+  // Files of expired tokens are measured and removed with their directory, so their requests are left out here.
+  const oldRequests = await db
+    .select({
+      id: requests.id,
+      bodyPath: requests.bodyPath,
+      bytes: requests.contentLength,
+      responseBodyPath: requestResponses.bodyPath,
+      responseBytes: requestResponses.contentLength,
+      attachments: emails.attachments,
+    })
+    .from(requests)
+    .leftJoin(requestResponses, eq(requestResponses.requestId, requests.id))
+    .leftJoin(emails, eq(emails.requestId, requests.id))
+    .where(sql`(${requestExpired}) and ${requests.tokenId} not in (${expiredTokenIds})`)
 
-  console.debug('Starting database cleanup...')
-
-  const now = new Date()
+  const expiredTokens = await db
+    .select({ id: tokens.id, sessionId: tokens.sessionId })
+    .from(tokens)
+    .where(sql`${tokens.id} in (${expiredTokenIds})`)
 
-  // Calculate cutoff dates
-  const sessionCutoff = new Date(now.getTime() - SESSION_TTL_DAYS * 24 * 60 * 60 * 1000)
-  const tokenCutoff = new Date(now.getTime() - TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000)
-  const requestCutoff = new Date(now.getTime() - REQUEST_TTL_DAYS * 24 * 60 * 60 * 1000)
+  let freedBytes = 0
 
-  // Delete old request body files first (before deleting request records)
-  const oldRequestsWithBodies = await db
-    .select({ id: requests.id, bodyPath: requests.bodyPath })
-    .from(requests)
-    .where(sql`${lt(requests.createdAt, requestCutoff)} AND ${isNotNull(requests.bodyPath)}`)
+  for (const record of oldRequests) {
+    const attachments = record.attachments ? JSON.parse(record.attachments) as EmailAttachment[] : []
+    freedBytes += record.bytes + (record.responseBytes ?? 0) + attachments.reduce((sum, attachment) => sum + attachment.size, 0)
 
-  console.debug(`Found ${oldRequestsWithBodies.length} old request bodies to delete`)
+    if (dryRun) {
+      continue
+    }
 
-  for (const record of oldRequestsWithBodies) {
-    if (record.bodyPath) {
-      await storage.delete(record.bodyPath)
+    for (const path of [record.bodyPath, record.responseBodyPath, ...attachments.map(attachment => attachment.path)]) {
+      if (path) {
+        await storage.delete(path)
+      }
     }
   }
 
-  const deletedRequests = await db
-    .delete(requests)
-    .where(lt(requests.createdAt, requestCutoff))
-    .returning({ id: requests.id })
-
-  console.debug(`Deleted ${deletedRequests.length} old requests`)
-
-  const deletedTokens = await db
-    .delete(tokens)
-    .where(lt(tokens.createdAt, tokenCutoff))
-    .returning({ id: tokens.id })
-
-  console.debug(`Deleted ${deletedTokens.length} old tokens`)
-
-  const deletedSessions = await db
-    .delete(sessions)
-    .where(lt(sessions.lastAccessedAt, sessionCutoff))
-    .returning({ id: sessions.id })
+  for (const token of expiredTokens) {
+    const tokenPath = join(storage.getStorageDir(), token.sessionId, token.id)
+    if (existsSync(tokenPath)) {
+      freedBytes += await directorySize(tokenPath)
+    }
+    if (!dryRun) {
+      await storage.deleteToken(token.sessionId, token.id)
+    }
+  }
 
-  console.debug(`Deleted ${deletedSessions.length} inactive sessions`)
+  if (!dryRun) {
+    await db.delete(requests).where(requestExpired)
+    await db.delete(tokens).where(tokenExpired)
+    await db.delete(sessions).where(sessionExpired)
 
-  // Run VACUUM to reclaim space (SQLite specific)
-  db.run(sql`VACUUM`)
+    // Run VACUUM to reclaim space (SQLite specific)
+    db.run(sql`VACUUM`)
+  }
 
-  console.debug('Database cleanup complete')
+  console.debug(`Database cleanup complete: ${removed.requests} requests, ${removedTokens.count} tokens, ${removedSessions.count} sessions`)
 
-  // Clean up orphaned files
-  const orphanedResult = await cleanupOrphanedFiles(dbFile, filesPath)
+  // Clean up orphaned files, the files removed above are gone by now and not counted again.
+  const orphanedResult = await cleanupOrphanedFiles(dbFile, filesPath, { dryRun })
 
   return {
-    deletedRequests: deletedRequests.length,
-    deletedTokens: deletedTokens.length,
-    deletedSessions: deletedSessions.length,
+    dryRun,
+    policy,
+    deletedRequests: removed.requests,
+    deletedTokens: removedTokens.count,
+    deletedSessions: removedSessions.count,
+    freedBytes: freedBytes + orphanedResult.freedBytes,
     orphanedFiles: orphanedResult.deletedFiles,
     scannedFiles: orphanedResult.scannedFiles,
   }
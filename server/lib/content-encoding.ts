@@ -0,0 +1,72 @@
+import zlib from 'zlib'
+import { promisify } from 'util'
+import { getMaxBodySize } from './request-body'
+
+/**
+ * Largest decoded body returned when `MAX_BODY_SIZE` is not set, a small compressed body
+ * can expand to many times its size.
+ */
+export const DEFAULT_MAX_DECODED_SIZE = 32 * 1024 * 1024
+
+type Decoder = (input: Buffer, options: { partial: boolean, maxOutputLength: number }) => Promise<Buffer>
+
+const gunzip = promisify(zlib.gunzip)
+const inflate = promisify(zlib.inflate)
+const inflateRaw = promisify(zlib.inflateRaw)
+const brotliDecompress = promisify(zlib.brotliDecompress)
+
+/**
+ * `deflate` should be zlib wrapped, but some senders use raw deflate. A zlib stream starts
+ * with a compression method of 8 and a header that is a multiple of 31.
+ */
+const isZlibWrapped = (input: Buffer): boolean => input.length >= 2 && 8 === (input[0]! & 0x0f) && 0 === ((input[0]! << 8) | input[1]!) % 31
+
+const DECODERS: Record<string, Decoder> = {
+    gzip: (input, { partial, maxOutputLength }) => gunzip(input, { maxOutputLength, ...(partial ? { finishFlush: zlib.constants.Z_SYNC_FLUSH } : {}) }),
+    deflate: (input, { partial, maxOutputLength }) => {
+        const options = { maxOutputLength, ...(partial ? { finishFlush: zlib.constants.Z_SYNC_FLUSH } : {}) }
+        return isZlibWrapped(input) ? inflate(input, options) : inflateRaw(input, options)
+    },
+    br: (input, { partial, maxOutputLength }) => brotliDecompress(input, { maxOutputLength, ...(partial ? { finishFlush: zlib.constants.BROTLI_OPERATION_FLUSH } : {}) }),
+}
+DECODERS['x-gzip'] = DECODERS.gzip!
+
+// zstd arrived in Node.js 22.15, older runtimes cannot decode it.
+if ('function' === typeof zlib.zstdDecompress) {
+    const zstdDecompress = promisify(zlib.zstdDecompress)
+    DECODERS.zstd = (input, { partial, maxOutputLength }) => zstdDecompress(input, { maxOutputLength, ...(partial ? { finishFlush: zlib.constants.ZSTD_e_flush } : {}) })
+}
+
+/**
+ * Undo the content codings of a body, last applied first.
+ *
+ * @param body Body as stored.
+ * @param codings Codings from `Content-Encoding` in the order they were applied.
+ * @param partial The body was truncated, decode as much as it holds instead of failing at its end.
+ *
+ * @returns The decoded body.
+ */
+export const decodeContent = async (body: Buffer, codings: string[], partial = false): Promise<Buffer> => {
+    const maxOutputLength = getMaxBodySize() || DEFAULT_MAX_DECODED_SIZE
+
+    let decoded = body
+    for (const coding of [...codings].reverse()) {
+        const decoder = DECODERS[coding]
+        if (!decoder) {
+            throw new Error('zstd' === coding
+                ? `zstd needs Node.js 22.15 or newer, the server runs ${process.version}`
+                : `Unsupported content encoding: ${coding}`)
+        }
+
+        try {
+            decoded = await decoder(decoded, { partial, maxOutputLength })
+        } catch (err) {
+            if ('ERR_BUFFER_TOO_LARGE' === (err as NodeJS.ErrnoException).code) {
+                throw new Error(`Decoded body is larger than ${maxOutputLength} bytes`)
+            }
+            throw new Error(`Body is not valid ${coding}: ${err instanceof Error ? err.message : String(err)}`)
+        }
+    }
+
+    return decoded
+}
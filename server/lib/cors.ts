@@ -0,0 +1,196 @@
+import type { CorsPolicy } from '~~/shared/types'
+
+/**
+ * Policy used when a token has none, allows every origin like the payload endpoint always did.
+ */
+export const DEFAULT_CORS_POLICY: CorsPolicy = {
+    enabled: true,
+    origins: ['*'],
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS', 'HEAD'],
+    headers: ['*'],
+    exposeHeaders: ['*'],
+    credentials: false,
+    maxAge: null,
+    capturePreflight: false,
+}
+
+/**
+ * Longest preflight cache accepted, one day.
+ */
+export const MAX_CORS_MAX_AGE = 86400
+
+const toList = (value: unknown, field: string, transform: (item: string) => string = item => item): string[] => {
+    const items = 'string' === typeof value ? value.split(/[\n,]/) : value
+    if (!Array.isArray(items)) {
+        throw new Error(`corsPolicy.${field} must be a list`)
+    }
+
+    return [...new Set(items.map(item => transform(String(item).trim())).filter(Boolean))]
+}
+
+const toPolicy = (input: Record<string, unknown>, base: CorsPolicy): CorsPolicy => {
+    const policy = { ...base }
+
+    for (const key of ['enabled', 'credentials', 'capturePreflight'] as const) {
+        if (key in input) {
+            if ('boolean' !== typeof input[key]) {
+                throw new Error(`corsPolicy.${key} must be a boolean`)
+            }
+            policy[key] = input[key] as boolean
+        }
+    }
+
+    if ('origins' in input) {
+        policy.origins = toList(input.origins, 'origins', item => item.replace(/\/+$/, ''))
+    }
+    if ('methods' in input) {
+        policy.methods = toList(input.methods, 'methods', item => item.toUpperCase())
+    }
+    if ('headers' in input) {
+        policy.headers = toList(input.headers, 'headers')
+    }
+    if ('exposeHeaders' in input) {
+        policy.exposeHeaders = toList(input.exposeHeaders, 'exposeHeaders')
+    }
+
+    if ('maxAge' in input) {
+        if (null === input.maxAge || undefined === input.maxAge || '' === input.maxAge) {
+            policy.maxAge = null
+        } else {
+            const maxAge = Number(input.maxAge)
+            if (!Number.isInteger(maxAge) || maxAge < 0 || maxAge > MAX_CORS_MAX_AGE) {
+                throw new Error(`corsPolicy.maxAge must be an integer between 0 and ${MAX_CORS_MAX_AGE}`)
+            }
+            policy.maxAge = maxAge
+        }
+    }
+
+    return policy
+}
+
+/**
+ * Parse a stored CORS policy.
+ *
+ * @param raw JSON string of the policy.
+ *
+ * @returns The policy, the permissive default when none is set or the value is invalid.
+ */
+export const parseCorsPolicy = (raw: string | null): CorsPolicy => {
+    if (!raw) {
+        return { ...DEFAULT_CORS_POLICY }
+    }
+
+    try {
+        const parsed = JSON.parse(raw) as unknown
+        return parsed && 'object' === typeof parsed ? toPolicy(parsed as Record<string, unknown>, DEFAULT_CORS_POLICY) : { ...DEFAULT_CORS_POLICY }
+    } catch {
+        return { ...DEFAULT_CORS_POLICY }
+    }
+}
+
+/**
+ * Validate a CORS policy from a token update payload.
+ * Fields missing from `corsPolicy` keep their stored value, null restores the default.
+ *
+ * @param payload Raw request body.
+ * @param current Currently stored policy.
+ *
+ * @throws Error if a field is invalid
+ * @returns Fields ready to be stored.
+ */
+export const normalizeCorsInput = (payload: Record<string, unknown>, current: string | null = null): { corsPolicy?: string | null } => {
+    if (!('corsPolicy' in payload)) {
+        return {}
+    }
+
+    const input = payload.corsPolicy
+    if (null === input || undefined === input) {
+        return { corsPolicy: null }
+    }
+
+    if ('object' !== typeof input || Array.isArray(input)) {
+        throw new Error('corsPolicy must be an object or null')
+    }
+
+    return { corsPolicy: JSON.stringify(toPolicy(input as Record<string, unknown>, parseCorsPolicy(current))) }
+}
+
+/**
+ * Check an origin against the allowed list.
+ *
+ * @param origin Value of the Origin request header.
+ * @param allowed Allowed origins, `https://*.example.com` matches any subdomain.
+ *
+ * @returns True if the origin is allowed.
+ */
+export const isOriginAllowed = (origin: string, allowed: string[]): boolean => allowed.some((entry) => {
+    if ('*' === entry || entry === origin) {
+        return true
+    }
+
+    const wildcard = /^([a-z][a-z0-9+.-]*:\/\/)\*\.(.+)$/i.exec(entry)
+    if (!wildcard) {
+        return false
+    }
+
+    return origin.startsWith(wildcard[1]) && origin.slice(wildcard[1].length).endsWith(`.${wildcard[2]}`)
+})
+
+/**
+ * Build the CORS headers for a response.
+ * Origins that are not allowed get no Access-Control-Allow-Origin header so browsers reject the call.
+ *
+ * @param policy The token's policy.
+ * @param headers Request headers, lowercase keys.
+ * @param preflight Whether this answers an OPTIONS preflight.
+ *
+ * @returns Headers to set on the response.
+ */
+export const buildCorsHeaders = (policy: CorsPolicy, headers: Record<string, string>, preflight = false): Record<string, string> => {
+    if (!policy.enabled) {
+        return {}
+    }
+
+    const out: Record<string, string> = {}
+    const origin = headers['origin']
+    const wildcard = policy.origins.includes('*')
+
+    if (wildcard && !policy.credentials) {
+        out['Access-Control-Allow-Origin'] = '*'
+    } else if (origin && isOriginAllowed(origin, policy.origins)) {
+        // Credentialed requests can't use '*', so the origin is echoed back.
+        out['Access-Control-Allow-Origin'] = origin
+        out['Vary'] = 'Origin'
+    } else {
+        return out
+    }
+
+    if (policy.credentials) {
+        out['Access-Control-Allow-Credentials'] = 'true'
+    }
+
+    if (!preflight) {
+        if (policy.exposeHeaders.length) {
+            out['Access-Control-Expose-Headers'] = policy.exposeHeaders.join(', ')
+        }
+        return out
+    }
+
+    if (policy.methods.length) {
+        out['Access-Control-Allow-Methods'] = policy.methods.join(',')
+    }
+
+    if (policy.headers.includes('*') && policy.credentials) {
+        if (headers['access-control-request-headers']) {
+            out['Access-Control-Allow-Headers'] = headers['access-control-request-headers']
+        }
+    } else if (policy.headers.length) {
+        out['Access-Control-Allow-Headers'] = policy.headers.join(', ')
+    }
+
+    if (null !== policy.maxAge) {
+        out['Access-Control-Max-Age'] = String(policy.maxAge)
+    }
+
+    return out
+}
@@ -1,12 +1,37 @@
 import { getDb } from '../db/index'
-import { tokens as tokensSchema, requests as requestsSchema } from '../db/schema'
-import type { Token, Request, TokenWithCount } from '~~/shared/types'
-import { eq, and, desc, sql } from 'drizzle-orm'
+import {
+  tokens as tokensSchema,
+  requests as requestsSchema,
+  responseRules as rulesSchema,
+  requestResponses as responsesSchema,
+  websocketFrames as framesSchema,
+  emails as emailsSchema,
+} from '../db/schema'
+import type { AuthStatus, Token, Request, TokenWithCount, ResponseRule, RequestResponse, ResponseSource, SignatureResult, WebSocketFrame, Email, EmailAttachment, RawHeader, RequestProtocol } from '~~/shared/types'
+import type { ParsedEmail } from './mime'
+import { eq, and, or, lt, inArray, asc, desc, sql } from 'drizzle-orm'
 import { useFileStorage } from './file-storage'
+import { extractSubPath } from '~~/shared/rules'
+import { DEFAULT_SIGNATURE_TOLERANCE } from './signature'
+import { DEFAULT_RETRY_AFTER } from './rate-limit'
+import { getMaxBodySize } from './request-body'
 import { randomUUID, randomBytes } from 'crypto'
+import { Readable } from 'stream'
 
 const SAFE_FRIENDLY_ID = /[A-Za-z0-9]/g
 
+/**
+ * Whether a write failed on a unique constraint, drizzle may wrap the driver error.
+ */
+const isUniqueViolation = (err: unknown): boolean => {
+  for (let current = err; current instanceof Error; current = current.cause) {
+    if ('SQLITE_CONSTRAINT_UNIQUE' === (current as Error & { code?: string }).code) {
+      return true
+    }
+  }
+  return false
+}
+
 const detectBinary = (buffer: Buffer, contentType: string): boolean => {
   if (contentType) {
     const type = contentType.toLowerCase()
@@ -39,6 +64,27 @@ export const useDatabase = (dbFile?: string, filesPath?: string) => {
   const db = getDb(dbFile)
   const storage = useFileStorage(filesPath)
 
+  /**
+   * Delete the attachment files of captured emails, the rows go with their requests.
+   * 
+   * @param requestIds Request IDs about to be deleted.
+   */
+  const deleteEmailFiles = async (requestIds: string[]): Promise<void> => {
+    if (!requestIds.length) {
+      return
+    }
+
+    const rows = await db.select({ attachments: emailsSchema.attachments })
+      .from(emailsSchema)
+      .where(inArray(emailsSchema.requestId, requestIds))
+
+    for (const row of rows) {
+      for (const attachment of JSON.parse(row.attachments) as EmailAttachment[]) {
+        await storage.delete(attachment.path)
+      }
+    }
+  }
+
   /**
    * Try to generate a unique short ID for friendlyId fields
    * Falls back to UUID if collisions persist
@@ -52,7 +98,7 @@ export const useDatabase = (dbFile?: string, filesPath?: string) => {
       if (id.length < 8) {
         continue
       }
-      const exists = await db.select().from(tokensSchema).where(eq(tokensSchema.friendlyId, id)).limit(1)
+      const exists = await db.select().from(tokensSchema).where(sql`lower(${tokensSchema.friendlyId}) = lower(${id})`).limit(1)
       if (!exists.length) {
         return id
       }
@@ -64,7 +110,7 @@ export const useDatabase = (dbFile?: string, filesPath?: string) => {
       if (id.length < 10) {
         continue
       }
-      const exists = await db.select().from(tokensSchema).where(eq(tokensSchema.friendlyId, id)).limit(1)
+      const exists = await db.select().from(tokensSchema).where(sql`lower(${tokensSchema.friendlyId}) = lower(${id})`).limit(1)
       if (!exists.length) {
         return id
       }
@@ -97,6 +143,44 @@ export const useDatabase = (dbFile?: string, filesPath?: string) => {
         responseStatus: 200,
         responseHeaders: null,
         responseBody: null,
+        responseDelayMode: 'none',
+        responseDelayMs: 0,
+        responseDelayMaxMs: 0,
+        responseSequence: null,
+        responseSequenceMode: 'stick',
+        responseSequencePosition: 0,
+        responseMode: 'static',
+        proxyUrl: null,
+        responseStream: null,
+        responseStreamFormat: 'sse',
+        responseStreamLoop: false,
+        responseFilePath: null,
+        responseFileName: null,
+        responseFileType: null,
+        responseFileSize: null,
+        corsPolicy: null,
+        signatureScheme: null,
+        signatureSecret: null,
+        signatureHeader: null,
+        signatureTolerance: DEFAULT_SIGNATURE_TOLERANCE,
+        rateLimitPerMinute: null,
+        maxRequests: null,
+        rateLimitRetryAfter: DEFAULT_RETRY_AFTER,
+        rejectedCount: 0,
+        ipPolicy: null,
+        authScheme: null,
+        authUsername: null,
+        authSecret: null,
+        authParam: null,
+        name: null,
+        description: null,
+        color: null,
+        tags: null,
+        pinned: false,
+        requestTtlMinutes: null,
+        keepLastRequests: null,
+        websocketReplyMode: 'none',
+        websocketReplyMessage: null,
       }
 
       await db.insert(tokensSchema).values(tokenData)
@@ -110,6 +194,44 @@ export const useDatabase = (dbFile?: string, filesPath?: string) => {
         responseStatus: 200,
         responseHeaders: null,
         responseBody: null,
+        responseDelayMode: 'none',
+        responseDelayMs: 0,
+        responseDelayMaxMs: 0,
+        responseSequence: null,
+        responseSequenceMode: 'stick',
+        responseSequencePosition: 0,
+        responseMode: 'static',
+        proxyUrl: null,
+        responseStream: null,
+        responseStreamFormat: 'sse',
+        responseStreamLoop: false,
+        responseFilePath: null,
+        responseFileName: null,
+        responseFileType: null,
+        responseFileSize: null,
+        corsPolicy: null,
+        signatureScheme: null,
+        signatureSecret: null,
+        signatureHeader: null,
+        signatureTolerance: DEFAULT_SIGNATURE_TOLERANCE,
+        rateLimitPerMinute: null,
+        maxRequests: null,
+        rateLimitRetryAfter: DEFAULT_RETRY_AFTER,
+        rejectedCount: 0,
+        ipPolicy: null,
+        authScheme: null,
+        authUsername: null,
+        authSecret: null,
+        authParam: null,
+        name: null,
+        description: null,
+        color: null,
+        tags: null,
+        pinned: false,
+        requestTtlMinutes: null,
+        keepLastRequests: null,
+        websocketReplyMode: 'none',
+        websocketReplyMessage: null,
       }
     },
 
@@ -125,6 +247,22 @@ export const useDatabase = (dbFile?: string, filesPath?: string) => {
       return !result.length ? null : result[0]
     },
 
+    /**
+     * Get a token by the subdomain label of a host routed request.
+     * Host names are case-insensitive, so ambiguous labels match no token.
+     * 
+     * @param label The left-most host label.
+     * 
+     * @returns The token if exactly one matches, null otherwise.
+     */
+    getByHostLabel: async (label: string): Promise<Token | null> => {
+      const result = await db.select().from(tokensSchema)
+        .where(sql`lower(${tokensSchema.friendlyId}) = ${label.toLowerCase()}`)
+        .limit(2)
+
+      return 1 === result.length ? result[0] : null
+    },
+
     /**
      * Get a token by ID
      * 
@@ -165,6 +303,44 @@ export const useDatabase = (dbFile?: string, filesPath?: string) => {
           responseStatus: tokensSchema.responseStatus,
           responseHeaders: tokensSchema.responseHeaders,
           responseBody: tokensSchema.responseBody,
+          responseDelayMode: tokensSchema.responseDelayMode,
+          responseDelayMs: tokensSchema.responseDelayMs,
+          responseDelayMaxMs: tokensSchema.responseDelayMaxMs,
+          responseSequence: tokensSchema.responseSequence,
+          responseSequenceMode: tokensSchema.responseSequenceMode,
+          responseSequencePosition: tokensSchema.responseSequencePosition,
+          responseMode: tokensSchema.responseMode,
+          proxyUrl: tokensSchema.proxyUrl,
+          responseStream: tokensSchema.responseStream,
+          responseStreamFormat: tokensSchema.responseStreamFormat,
+          responseStreamLoop: tokensSchema.responseStreamLoop,
+          responseFilePath: tokensSchema.responseFilePath,
+          responseFileName: tokensSchema.responseFileName,
+          responseFileType: tokensSchema.responseFileType,
+          responseFileSize: tokensSchema.responseFileSize,
+          corsPolicy: tokensSchema.corsPolicy,
+          signatureScheme: tokensSchema.signatureScheme,
+          signatureSecret: tokensSchema.signatureSecret,
+          signatureHeader: tokensSchema.signatureHeader,
+          signatureTolerance: tokensSchema.signatureTolerance,
+          rateLimitPerMinute: tokensSchema.rateLimitPerMinute,
+          maxRequests: tokensSchema.maxRequests,
+          rateLimitRetryAfter: tokensSchema.rateLimitRetryAfter,
+          rejectedCount: tokensSchema.rejectedCount,
+          ipPolicy: tokensSchema.ipPolicy,
+          authScheme: tokensSchema.authScheme,
+          authUsername: tokensSchema.authUsername,
+          authSecret: tokensSchema.authSecret,
+          authParam: tokensSchema.authParam,
+          name: tokensSchema.name,
+          description: tokensSchema.description,
+          color: tokensSchema.color,
+          tags: tokensSchema.tags,
+          pinned: tokensSchema.pinned,
+          requestTtlMinutes: tokensSchema.requestTtlMinutes,
+          keepLastRequests: tokensSchema.keepLastRequests,
+          websocketReplyMode: tokensSchema.websocketReplyMode,
+          websocketReplyMessage: tokensSchema.websocketReplyMessage,
           requestCount: sql<number>`count(${requestsSchema.id})`,
         })
         .from(tokensSchema)
@@ -182,6 +358,44 @@ export const useDatabase = (dbFile?: string, filesPath?: string) => {
         responseStatus: row.responseStatus,
         responseHeaders: row.responseHeaders,
         responseBody: row.responseBody,
+        responseDelayMode: row.responseDelayMode,
+        responseDelayMs: row.responseDelayMs,
+        responseDelayMaxMs: row.responseDelayMaxMs,
+        responseSequence: row.responseSequence,
+        responseSequenceMode: row.responseSequenceMode,
+        responseSequencePosition: row.responseSequencePosition,
+        responseMode: row.responseMode,
+        proxyUrl: row.proxyUrl,
+        responseStream: row.responseStream,
+        responseStreamFormat: row.responseStreamFormat,
+        responseStreamLoop: row.responseStreamLoop,
+        responseFilePath: row.responseFilePath,
+        responseFileName: row.responseFileName,
+        responseFileType: row.responseFileType,
+        responseFileSize: row.responseFileSize,
+        corsPolicy: row.corsPolicy,
+        signatureScheme: row.signatureScheme,
+        signatureSecret: row.signatureSecret,
+        signatureHeader: row.signatureHeader,
+        signatureTolerance: row.signatureTolerance,
+        rateLimitPerMinute: row.rateLimitPerMinute,
+        maxRequests: row.maxRequests,
+        rateLimitRetryAfter: row.rateLimitRetryAfter,
+        rejectedCount: row.rejectedCount,
+        ipPolicy: row.ipPolicy,
+        authScheme: row.authScheme,
+        authUsername: row.authUsername,
+        authSecret: row.authSecret,
+        authParam: row.authParam,
+        name: row.name,
+        description: row.description,
+        color: row.color,
+        tags: row.tags,
+        pinned: row.pinned,
+        requestTtlMinutes: row.requestTtlMinutes,
+        keepLastRequests: row.keepLastRequests,
+        websocketReplyMode: row.websocketReplyMode,
+        websocketReplyMessage: row.websocketReplyMessage,
         _count: { requests: row.requestCount },
       }))
     },
@@ -198,7 +412,7 @@ export const useDatabase = (dbFile?: string, filesPath?: string) => {
     update: async (
       sessionId: string,
       tokenId: string,
-      updates: Partial<Pick<Token, 'responseEnabled' | 'responseStatus' | 'responseHeaders' | 'responseBody'>>
+      updates: Partial<Omit<Token, 'id' | 'friendlyId' | 'sessionId' | 'createdAt'>>
     ): Promise<Token | null> => {
       const existing = await tokens.get(sessionId, tokenId)
       if (!existing) {
@@ -213,6 +427,115 @@ export const useDatabase = (dbFile?: string, filesPath?: string) => {
       return tokens.get(sessionId, tokenId)
     },
 
+    /**
+     * Replace a token's friendly ID with an alias, or release the alias for a new random ID.
+     * Friendly IDs are compared case-insensitively, matching how host routing resolves them.
+     *
+     * @param sessionId The session ID to verify ownership
+     * @param tokenId The token ID.
+     * @param alias The validated alias, or null to release it.
+     *
+     * @returns The updated token, null if not found, or false if another token holds the alias.
+     */
+    setFriendlyId: async (sessionId: string, tokenId: string, alias: string | null): Promise<Token | null | false> => {
+      const existing = await tokens.get(sessionId, tokenId)
+      if (!existing) {
+        return null
+      }
+
+      // The unique index on lower(friendly_id) settles races between two claims of the same alias.
+      try {
+        await db.update(tokensSchema)
+          .set({ friendlyId: alias ?? await generateUniqueShortId() })
+          .where(eq(tokensSchema.id, tokenId))
+      } catch (err) {
+        if (isUniqueViolation(err)) {
+          return false
+        }
+        throw err
+      }
+
+      return tokens.get(sessionId, tokenId)
+    },
+
+    /**
+     * Move a token's response sequence one step forward.
+     * 
+     * @param tokenId The token ID.
+     * 
+     * @returns The position before advancing, i.e. the one answering the current request.
+     */
+    advanceSequence: async (tokenId: string): Promise<number> => {
+      const result = await db.update(tokensSchema)
+        .set({ responseSequencePosition: sql`${tokensSchema.responseSequencePosition} + 1` })
+        .where(eq(tokensSchema.id, tokenId))
+        .returning({ position: tokensSchema.responseSequencePosition })
+
+      return result.length ? result[0].position - 1 : 0
+    },
+
+    /**
+     * Count a request turned away by a rate limit or quota.
+     * 
+     * @param tokenId The token ID.
+     * 
+     * @returns The rejected count after the increment.
+     */
+    recordRejection: async (tokenId: string): Promise<number> => {
+      const result = await db.update(tokensSchema)
+        .set({ rejectedCount: sql`${tokensSchema.rejectedCount} + 1` })
+        .where(eq(tokensSchema.id, tokenId))
+        .returning({ count: tokensSchema.rejectedCount })
+
+      return result.length ? result[0].count : 0
+    },
+
+    /**
+     * Replace or remove the file sent as the token's response body.
+     * 
+     * @param sessionId Session ID.
+     * @param tokenId Token ID.
+     * @param file The uploaded file, or null to remove the current one.
+     * 
+     * @returns The updated token, or null if not found.
+     */
+    setResponseFile: async (
+      sessionId: string,
+      tokenId: string,
+      file: { name: string | null, type: string | null, data: Buffer } | null,
+    ): Promise<Token | null> => {
+      const token = await tokens.get(sessionId, tokenId)
+      if (!token) {
+        return null
+      }
+
+      if (token.responseFilePath) {
+        await storage.delete(token.responseFilePath)
+      }
+
+      const responseFilePath = file ? await storage.save(sessionId, tokenId, `response-${randomUUID()}`, file.data) : null
+
+      await db.update(tokensSchema).set({
+        responseFilePath,
+        responseFileName: file?.name ?? null,
+        responseFileType: file?.type ?? null,
+        responseFileSize: file ? file.data.length : null,
+      }).where(eq(tokensSchema.id, tokenId))
+
+      return tokens.get(sessionId, tokenId)
+    },
+
+    /**
+     * Read the file sent as the token's response body.
+     * 
+     * @param token The token.
+     * 
+     * @returns The file contents, or null when no file is set.
+     */
+    getResponseFile: async (token: Pick<Token, 'responseFilePath'>): Promise<Buffer | null> => {
+      return token.responseFilePath ? await storage.read(token.responseFilePath) : null
+    },
+
     /**
      * Delete a single token and its associated requests.
      * 
@@ -267,16 +590,18 @@ export const useDatabase = (dbFile?: string, filesPath?: string) => {
 
   const requests = {
     /**
-     * Create a new request and save its body to disk
+     * Create a new request and stream its body to disk
      * 
      * @param sessionId The session ID the request belongs to
      * @param tokenId The token ID the request belongs to
      * @param method HTTP method of the request
      * @param headers HTTP headers of the request
-     * @param body Optional body buffer of the request
+     * @param body Optional body of the request, streams are written to disk as they are read
      * @param url Full URL of the request
      * @param clientIp Client IP address
      * @param remoteIp Remote IP address
+     * @param rawHeaders Optional headers in received order with their original names
+     * @param protocol Optional HTTP details of the connection, the body is timed when given
      * 
      * @returns The created request record.
      */
@@ -285,21 +610,20 @@ export const useDatabase = (dbFile?: string, filesPath?: string) => {
       tokenId: string,
       method: string,
       headers: Record<string, string>,
-      body: Buffer | null,
+      body: Buffer | Readable | null,
       url: string,
       clientIp: string,
       remoteIp: string,
+      rawHeaders: RawHeader[] | null = null,
+      protocol: RequestProtocol | null = null,
     ): Promise<Request> => {
       const contentType = headers['content-type'] || headers['Content-Type'] || 'application/octet-stream'
-      const contentLength = body ? body.length : 0
-      const isBinary = body ? detectBinary(body, contentType) : false
-
       const id = randomUUID()
-      let bodyPath: string | null = null
 
-      if (body && contentLength > 0) {
-        bodyPath = await storage.save(sessionId, tokenId, id, body)
-      }
+      const stored = body
+        ? await storage.saveStream(sessionId, tokenId, id, Buffer.isBuffer(body) ? Readable.from([body]) : body, getMaxBodySize())
+        : null
+      const received = Boolean(stored && (stored.size || stored.truncated))
 
       const dat = {
         id,
@@ -307,13 +631,22 @@ export const useDatabase = (dbFile?: string, filesPath?: string) => {
         sessionId,
         method,
         headers: JSON.stringify(headers),
+        rawHeaders: rawHeaders ? JSON.stringify(rawHeaders) : null,
         url,
+        path: extractSubPath(url),
         contentType,
-        contentLength,
-        isBinary,
+        contentLength: stored?.size ?? 0,
+        isBinary: stored?.size ? detectBinary(stored.head, contentType) : false,
         clientIp,
         remoteIp,
-        bodyPath,
+        bodyPath: stored?.path ?? null,
+        bodyHash: received ? stored!.hash : null,
+        truncated: stored?.truncated ?? false,
+        httpVersion: protocol?.httpVersion ?? null,
+        tls: protocol?.tls ?? null,
+        serverPort: protocol?.serverPort ?? null,
+        bodyFraming: protocol?.bodyFraming ?? null,
+        receiveMs: protocol && received ? stored!.receiveMs : null,
         createdAt: new Date(),
       }
       const request: typeof requestsSchema.$inferInsert = dat
@@ -322,6 +655,27 @@ export const useDatabase = (dbFile?: string, filesPath?: string) => {
       return result[0]
     },
 
+    /**
+     * Store what was found out about a request while it was captured.
+     * 
+     * @param requestId Request ID.
+     * @param fields Signature verification result, IP policy, authentication outcome and whether it opened a WebSocket or is an email.
+     * 
+     * @returns The updated request.
+     */
+    annotate: async (
+      requestId: string,
+      fields: { signature?: SignatureResult, blocked?: boolean, authStatus?: AuthStatus | null, websocket?: boolean, email?: boolean },
+    ): Promise<Request> => {
+      const { signature, ...rest } = fields
+      const result = await db.update(requestsSchema)
+        .set({ ...rest, ...(signature ? { signature: JSON.stringify(signature) } : {}) })
+        .where(eq(requestsSchema.id, requestId))
+        .returning()
+
+      return result[0]
+    },
+
     /**
      * Get request.
      * 
@@ -346,26 +700,46 @@ export const useDatabase = (dbFile?: string, filesPath?: string) => {
      * 
      * @param sessionId Session ID.
      * @param tokenId Token ID.
+     * @param path Optional sub-path to filter by.
      * 
      * @returns Array of requests.
      */
-    list: async (sessionId: string, tokenId: string): Promise<Request[]> => {
+    list: async (sessionId: string, tokenId: string, path?: string): Promise<Request[]> => {
       return await db.select().from(requestsSchema).where(and(
         eq(requestsSchema.tokenId, tokenId),
-        eq(requestsSchema.sessionId, sessionId)
+        eq(requestsSchema.sessionId, sessionId),
+        path ? eq(requestsSchema.path, path) : undefined,
       )).orderBy(desc(requestsSchema.createdAt))
     },
 
+    /**
+     * Count stored requests of a session, or of one of its tokens.
+     * 
+     * @param sessionId Session ID.
+     * @param tokenId Optional token ID to limit the count to.
+     * 
+     * @returns Number of stored requests.
+     */
+    count: async (sessionId: string, tokenId?: string): Promise<number> => {
+      const result = await db.select({ count: sql<number>`count(*)` }).from(requestsSchema).where(and(
+        eq(requestsSchema.sessionId, sessionId),
+        tokenId ? eq(requestsSchema.tokenId, tokenId) : undefined,
+      ))
+
+      return Number(result[0]?.count ?? 0)
+    },
+
     /**
      * Get request body.
      * 
      * @param sessionId Session ID.
      * @param tokenId Token ID.
      * @param requestId Request ID.
+     * @param maxBytes Only read the leading bytes, 0 reads the whole body.
      * 
      * @returns The body as Uint8Array if found, null otherwise.
      */
-    getBody: async (sessionId: string, tokenId: string, requestId: string): Promise<Uint8Array | null> => {
+    getBody: async (sessionId: string, tokenId: string, requestId: string, maxBytes: number = 0): Promise<Uint8Array | null> => {
       const request = await db.select().from(requestsSchema).where(and(
         eq(requestsSchema.id, requestId),
         eq(requestsSchema.tokenId, tokenId),
@@ -376,7 +750,7 @@ export const useDatabase = (dbFile?: string, filesPath?: string) => {
         return null
       }
 
-      const buffer = await storage.read(request[0].bodyPath)
+      const buffer = await storage.read(request[0].bodyPath, maxBytes)
       return buffer ? new Uint8Array(buffer) : null
     },
 
@@ -421,6 +795,15 @@ export const useDatabase = (dbFile?: string, filesPath?: string) => {
         await storage.delete(request.bodyPath)
       }
 
+      const response = await responses.get(requestId)
+      if (response?.bodyPath) {
+        await storage.delete(response.bodyPath)
+      }
+
+      if (request.email) {
+        await deleteEmailFiles([requestId])
+      }
+
       await db.delete(requestsSchema).where(eq(requestsSchema.id, requestId))
     },
 
@@ -434,7 +817,7 @@ export const useDatabase = (dbFile?: string, filesPath?: string) => {
      */
     deleteAll: async (sessionId: string, tokenId: string): Promise<number> => {
       const requestsToDelete = await db
-        .select({ id: requestsSchema.id, bodyPath: requestsSchema.bodyPath })
+        .select({ id: requestsSchema.id, bodyPath: requestsSchema.bodyPath, email: requestsSchema.email })
         .from(requestsSchema).where(and(
           eq(requestsSchema.tokenId, tokenId),
           eq(requestsSchema.sessionId, sessionId),
@@ -447,6 +830,24 @@ export const useDatabase = (dbFile?: string, filesPath?: string) => {
         await storage.delete(req.bodyPath)
       }
 
+      const responseBodies = await db
+        .select({ bodyPath: responsesSchema.bodyPath })
+        .from(responsesSchema)
+        .innerJoin(requestsSchema, eq(requestsSchema.id, responsesSchema.requestId))
+        .where(and(
+          eq(requestsSchema.tokenId, tokenId),
+          eq(requestsSchema.sessionId, sessionId),
+        ))
+
+      for (const res of responseBodies) {
+        if (!res.bodyPath) {
+          continue
+        }
+        await storage.delete(res.bodyPath)
+      }
+
+      await deleteEmailFiles(requestsToDelete.filter(req => req.email).map(req => req.id))
+
       const result = await db.delete(requestsSchema).where(and(
         eq(requestsSchema.tokenId, tokenId),
         eq(requestsSchema.sessionId, sessionId),
@@ -454,7 +855,376 @@ export const useDatabase = (dbFile?: string, filesPath?: string) => {
 
       return result.length
     },
+
+    /**
+     * Delete a token's requests that fell out of its retention window.
+     *
+     * @param tokenId Token ID
+     * @param policy.olderThan Delete requests received before this time
+     * @param policy.keepLast Keep only this many of the newest requests
+     *
+     * @returns IDs of the deleted requests
+     */
+    prune: async (tokenId: string, policy: { olderThan: Date | null, keepLast: number | null }): Promise<string[]> => {
+      const conditions = []
+      if (policy.olderThan) {
+        conditions.push(lt(requestsSchema.createdAt, policy.olderThan))
+      }
+      if (policy.keepLast) {
+        // created_at has second precision, rowid keeps requests from the same second in arrival order.
+        conditions.push(sql`${requestsSchema.id} not in (
+          select ${requestsSchema.id} from ${requestsSchema} where ${requestsSchema.tokenId} = ${tokenId}
+          order by ${requestsSchema.createdAt} desc, rowid desc limit ${policy.keepLast}
+        )`)
+      }
+
+      if (!conditions.length) {
+        return []
+      }
+
+      const expired = await db
+        .select({ id: requestsSchema.id, bodyPath: requestsSchema.bodyPath, email: requestsSchema.email, responseBodyPath: responsesSchema.bodyPath })
+        .from(requestsSchema)
+        .leftJoin(responsesSchema, eq(responsesSchema.requestId, requestsSchema.id))
+        .where(and(eq(requestsSchema.tokenId, tokenId), or(...conditions)))
+
+      if (!expired.length) {
+        return []
+      }
+
+      for (const req of expired) {
+        if (req.bodyPath) {
+          await storage.delete(req.bodyPath)
+        }
+        if (req.responseBodyPath) {
+          await storage.delete(req.responseBodyPath)
+        }
+      }
+
+      await deleteEmailFiles(expired.filter(req => req.email).map(req => req.id))
+
+      const ids = expired.map(req => req.id)
+      await db.delete(requestsSchema).where(inArray(requestsSchema.id, ids))
+
+      return ids
+    },
+  }
+
+  const rules = {
+    /**
+     * List response rules for a token in evaluation order.
+     * 
+     * @param tokenId Token ID.
+     * 
+     * @returns Array of rules.
+     */
+    list: async (tokenId: string): Promise<ResponseRule[]> => {
+      return await db.select().from(rulesSchema)
+        .where(eq(rulesSchema.tokenId, tokenId))
+        .orderBy(asc(rulesSchema.position), asc(rulesSchema.createdAt))
+    },
+
+    /**
+     * Get a response rule.
+     * 
+     * @param tokenId Token ID.
+     * @param ruleId Rule ID.
+     * 
+     * @returns The rule if found, null otherwise.
+     */
+    get: async (tokenId: string, ruleId: string): Promise<ResponseRule | null> => {
+      const result = await db.select().from(rulesSchema).where(and(
+        eq(rulesSchema.id, ruleId),
+        eq(rulesSchema.tokenId, tokenId),
+      )).limit(1)
+
+      return !result.length ? null : result[0]
+    },
+
+    /**
+     * Create a response rule at the end of the token's rule list.
+     * 
+     * @param tokenId Token ID.
+     * @param data Rule fields.
+     * 
+     * @returns The created rule.
+     */
+    create: async (
+      tokenId: string,
+      data: Partial<Omit<ResponseRule, 'id' | 'tokenId' | 'position' | 'createdAt'>>
+    ): Promise<ResponseRule> => {
+      const last = await db
+        .select({ position: sql<number | null>`max(${rulesSchema.position})` })
+        .from(rulesSchema)
+        .where(eq(rulesSchema.tokenId, tokenId))
+
+      const rule: typeof rulesSchema.$inferInsert = {
+        ...data,
+        id: randomUUID(),
+        tokenId,
+        position: (last[0]?.position ?? -1) + 1,
+        createdAt: new Date(),
+      }
+
+      const result = await db.insert(rulesSchema).values(rule).returning()
+      return result[0]
+    },
+
+    /**
+     * Update a response rule.
+     * 
+     * @param tokenId Token ID.
+     * @param ruleId Rule ID.
+     * @param updates Partial fields to update.
+     * 
+     * @returns The updated rule, or null if not found.
+     */
+    update: async (
+      tokenId: string,
+      ruleId: string,
+      updates: Partial<Omit<ResponseRule, 'id' | 'tokenId' | 'position' | 'createdAt'>>
+    ): Promise<ResponseRule | null> => {
+      if (Object.keys(updates).length) {
+        await db.update(rulesSchema).set(updates).where(and(
+          eq(rulesSchema.id, ruleId),
+          eq(rulesSchema.tokenId, tokenId),
+        ))
+      }
+
+      return rules.get(tokenId, ruleId)
+    },
+
+    /**
+     * Reorder response rules. Rules not listed keep their relative order after the listed ones.
+     * 
+     * @param tokenId Token ID.
+     * @param ruleIds Rule IDs in the desired order.
+     * 
+     * @returns The rules in their new order.
+     */
+    reorder: async (tokenId: string, ruleIds: string[]): Promise<ResponseRule[]> => {
+      const existing = await rules.list(tokenId)
+      const ordered = [
+        ...ruleIds.map(id => existing.find(rule => rule.id === id)).filter((rule): rule is ResponseRule => Boolean(rule)),
+        ...existing.filter(rule => !ruleIds.includes(rule.id)),
+      ]
+
+      for (const [position, rule] of ordered.entries()) {
+        if (rule.position === position) {
+          continue
+        }
+        await db.update(rulesSchema).set({ position }).where(eq(rulesSchema.id, rule.id))
+      }
+
+      return rules.list(tokenId)
+    },
+
+    /**
+     * Delete a response rule.
+     * 
+     * @param tokenId Token ID.
+     * @param ruleId Rule ID.
+     */
+    _delete: async (tokenId: string, ruleId: string): Promise<void> => {
+      await db.delete(rulesSchema).where(and(
+        eq(rulesSchema.id, ruleId),
+        eq(rulesSchema.tokenId, tokenId),
+      ))
+    },
+  }
+
+  const responses = {
+    /**
+     * Store the response sent for a request, saving its body to disk
+     * 
+     * @param sessionId The session ID the request belongs to
+     * @param tokenId The token ID the request belongs to
+     * @param requestId The request ID
+     * @param data Response details and optional body buffer
+     * 
+     * @returns The stored response record.
+     */
+    create: async (
+      sessionId: string,
+      tokenId: string,
+      requestId: string,
+      data: {
+        source: ResponseSource
+        ruleId?: string | null
+        status: number
+        headers: Record<string, string>
+        body: Buffer | null
+        latencyMs?: number | null
+        durationMs?: number | null
+        error?: string | null
+      },
+    ): Promise<RequestResponse> => {
+      const contentType = Object.entries(data.headers).find(([key]) => 'content-type' === key.toLowerCase())?.[1] || null
+      const contentLength = data.body ? data.body.length : 0
+      const isBinary = data.body ? detectBinary(data.body, contentType ?? '') : false
+
+      let bodyPath: string | null = null
+      if (data.body && contentLength > 0) {
+        bodyPath = await storage.save(sessionId, tokenId, `${requestId}.response`, data.body)
+      }
+
+      const result = await db.insert(responsesSchema).values({
+        requestId,
+        source: data.source,
+        ruleId: data.ruleId ?? null,
+        status: data.status,
+        headers: JSON.stringify(data.headers),
+        contentType,
+        contentLength,
+        isBinary,
+        bodyPath,
+        latencyMs: data.latencyMs ?? null,
+        durationMs: data.durationMs ?? null,
+        error: data.error ?? null,
+        createdAt: new Date(),
+      }).returning()
+
+      return result[0]
+    },
+
+    /**
+     * Get the stored response for a request.
+     * 
+     * @param requestId Request ID.
+     * 
+     * @returns The response if one was stored, null otherwise.
+     */
+    get: async (requestId: string): Promise<RequestResponse | null> => {
+      const result = await db.select().from(responsesSchema).where(eq(responsesSchema.requestId, requestId)).limit(1)
+      return result.length ? result[0] : null
+    },
+
+    /**
+     * Get the stored response body for a request.
+     * 
+     * @param requestId Request ID.
+     * 
+     * @returns The body as Uint8Array if found, null otherwise.
+     */
+    getBody: async (requestId: string): Promise<Uint8Array | null> => {
+      const response = await responses.get(requestId)
+      if (!response?.bodyPath) {
+        return null
+      }
+
+      const buffer = await storage.read(response.bodyPath)
+      return buffer ? new Uint8Array(buffer) : null
+    },
+  }
+
+  const frames = {
+    /**
+     * Store a frame of a captured WebSocket connection.
+     * 
+     * @param requestId Handshake request ID.
+     * @param data Frame details, data must already be truncated and encoded.
+     * 
+     * @returns The stored frame.
+     */
+    create: async (requestId: string, data: Omit<WebSocketFrame, 'id' | 'requestId' | 'createdAt'>): Promise<WebSocketFrame> => {
+      const result = await db.insert(framesSchema).values({
+        id: randomUUID(),
+        requestId,
+        ...data,
+        createdAt: new Date(),
+      }).returning()
+
+      return result[0]
+    },
+
+    /**
+     * List the frames of a WebSocket connection, oldest first.
+     * 
+     * @param requestId Handshake request ID.
+     * 
+     * @returns Frames in the order they were sent.
+     */
+    list: async (requestId: string): Promise<WebSocketFrame[]> => {
+      return await db.select().from(framesSchema)
+        .where(eq(framesSchema.requestId, requestId))
+        .orderBy(asc(framesSchema.createdAt), asc(sql`rowid`))
+    },
+  }
+
+  const emails = {
+    /**
+     * Store the parsed form of a captured email, saving its attachments to disk.
+     * 
+     * @param sessionId The session ID the request belongs to
+     * @param tokenId The token ID the request belongs to
+     * @param requestId The request holding the raw message
+     * @param envelope Envelope sender and the recipients that reached the token
+     * @param message The parsed message
+     * 
+     * @returns The stored email record.
+     */
+    create: async (
+      sessionId: string,
+      tokenId: string,
+      requestId: string,
+      envelope: { from: string | null, to: string[] },
+      message: ParsedEmail,
+    ): Promise<Email> => {
+      const attachments: EmailAttachment[] = []
+      for (const [index, attachment] of message.attachments.entries()) {
+        attachments.push({
+          filename: attachment.filename,
+          contentType: attachment.contentType,
+          size: attachment.content.length,
+          contentId: attachment.contentId,
+          inline: attachment.inline,
+          // Named after the request so the orphan cleanup keeps it while the request exists.
+          path: await storage.save(sessionId, tokenId, `${requestId}.attachment-${index}`, attachment.content),
+        })
+      }
+
+      const result = await db.insert(emailsSchema).values({
+        requestId,
+        envelopeFrom: envelope.from,
+        envelopeTo: JSON.stringify(envelope.to),
+        from: message.from,
+        to: message.to,
+        cc: message.cc,
+        replyTo: message.replyTo,
+        subject: message.subject,
+        date: message.date,
+        messageId: message.messageId,
+        text: message.text,
+        html: message.html,
+        attachments: JSON.stringify(attachments),
+      }).returning()
+
+      return result[0]
+    },
+
+    /**
+     * Get the parsed form of a captured email.
+     * 
+     * @param requestId Request ID.
+     * 
+     * @returns The email if the request is one, null otherwise.
+     */
+    get: async (requestId: string): Promise<Email | null> => {
+      const result = await db.select().from(emailsSchema).where(eq(emailsSchema.requestId, requestId)).limit(1)
+      return result.length ? result[0] : null
+    },
+
+    /**
+     * Read an attachment of a captured email.
+     * 
+     * @param attachment Attachment metadata.
+     * 
+     * @returns The file contents, or null when the file is gone.
+     */
+    getAttachment: async (attachment: Pick<EmailAttachment, 'path'>): Promise<Buffer | null> => {
+      return await storage.read(attachment.path)
+    },
   }
 
-  return { tokens, requests }
+  return { tokens, requests, rules, responses, frames, emails }
 }
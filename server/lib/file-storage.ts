@@ -1,8 +1,29 @@
-import { mkdir, writeFile, readFile, unlink, rm } from 'fs/promises'
-import { createReadStream, existsSync } from 'fs'
+import { mkdir, writeFile, readFile, open, unlink, rm } from 'fs/promises'
+import { createReadStream, createWriteStream, existsSync } from 'fs'
 import { join, dirname, resolve, normalize, sep } from 'path'
+import { Transform, type Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import { createHash } from 'crypto'
+import { once } from 'events'
 import type { ReadStream } from 'fs'
 
+/**
+ * Leading bytes of a streamed body kept in memory for binary detection.
+ */
+export const SNIFF_BYTES = 8000
+
+/**
+ * Result of writing a body stream to disk.
+ */
+export type StoredBody = {
+    path: string | null // Relative path, null when the body was empty
+    size: number // Bytes written
+    hash: string // SHA-256 hex of the body as received, including any dropped tail
+    truncated: boolean // Cut at the size limit, or the sender went away before the end
+    head: Buffer // First SNIFF_BYTES bytes
+    receiveMs: number | null // From the first body byte until the source ended, null without data
+}
+
 /**
  * File-based storage for request bodies
  * 
@@ -159,22 +180,125 @@ export const useFileStorage = (path: string | undefined = undefined) => {
         return toRelativePath(filePath)
     }
 
+    /**
+     * Stream a request body to disk without buffering it
+     * Bytes past `maxBytes` are hashed but not written, the body is then marked as truncated.
+     * A body whose stream fails part way, such as an aborted upload, keeps what arrived and is
+     * marked as truncated too, only failures to write the file are thrown.
+     * 
+     * @param sessionId - Session ID (UUID)
+     * @param tokenId - Token ID (user-visible token string)
+     * @param requestId - Request ID (UUID)
+     * @param source - Body stream
+     * @param maxBytes - Largest body written, 0 for no limit
+     * 
+     * @returns Stored body details
+     */
+    const saveStream = async (
+        sessionId: string,
+        tokenId: string,
+        requestId: string,
+        source: Readable,
+        maxBytes: number = 0
+    ): Promise<StoredBody> => {
+        const filePath = generatePath(sessionId, tokenId, requestId)
+        await mkdir(dirname(filePath), { recursive: true })
+
+        const hash = createHash('sha256')
+        const head: Buffer[] = []
+        let headLength = 0
+        let size = 0
+        let truncated = false
+        let firstByteAt = 0
+
+        const meter = new Transform({
+            transform(input: Buffer | string, _encoding, done) {
+                const chunk = Buffer.isBuffer(input) ? input : Buffer.from(input)
+                hash.update(chunk)
+
+                const room = maxBytes > 0 ? Math.max(0, maxBytes - size) : chunk.length
+                const part = room < chunk.length ? chunk.subarray(0, room) : chunk
+                if (part.length < chunk.length) {
+                    truncated = true
+                }
+
+                if (headLength < SNIFF_BYTES && part.length) {
+                    const slice = part.subarray(0, SNIFF_BYTES - headLength)
+                    head.push(Buffer.from(slice))
+                    headLength += slice.length
+                }
+
+                size += part.length
+                done(null, part.length ? part : undefined)
+            },
+        })
+
+        const written = pipeline(meter, createWriteStream(filePath))
+        // The write side may fail before the source is drained, it is awaited below.
+        written.catch(() => {})
+
+        try {
+            for await (const input of source) {
+                firstByteAt ||= Date.now()
+                if (!meter.write(input)) {
+                    await once(meter, 'drain')
+                }
+            }
+        } catch {
+            truncated = true
+        }
+        const endedAt = Date.now()
+        meter.end()
+
+        try {
+            await written
+        } catch (error) {
+            await unlink(filePath).catch(() => {})
+            throw error
+        }
+
+        if (!size) {
+            await unlink(filePath).catch(() => {})
+        }
+
+        return {
+            path: size ? toRelativePath(filePath) : null,
+            size,
+            hash: hash.digest('hex'),
+            truncated,
+            head: Buffer.concat(head),
+            receiveMs: firstByteAt ? endedAt - firstByteAt : null,
+        }
+    }
+
     /**
      * Read request body from disk into memory
      * 
      * @param relativePath - Relative path from storage directory
+     * @param maxBytes - Only read the leading bytes, 0 reads the whole file
      * 
      * @throws Error if path traversal detected
      * @returns Buffer or null if not found
      */
-    const read = async (relativePath: string): Promise<Buffer | null> => {
+    const read = async (relativePath: string, maxBytes: number = 0): Promise<Buffer | null> => {
         const filePath = toAbsolutePath(relativePath)
 
         if (false === existsSync(filePath)) {
             return null
         }
 
-        return await readFile(filePath)
+        if (maxBytes <= 0) {
+            return await readFile(filePath)
+        }
+
+        const file = await open(filePath, 'r')
+        try {
+            const buffer = Buffer.alloc(maxBytes)
+            const { bytesRead } = await file.read(buffer, 0, maxBytes, 0)
+            return buffer.subarray(0, bytesRead)
+        } finally {
+            await file.close()
+        }
     }
 
     /**
@@ -275,6 +399,7 @@ export const useFileStorage = (path: string | undefined = undefined) => {
     return {
         ensureStorageDir,
         save,
+        saveStream,
         read,
         stream,
         delete: _delete,
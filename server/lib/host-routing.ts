@@ -0,0 +1,29 @@
+/**
+ * Parent domain of host routed payload URLs, from `PAYLOAD_HOST_DOMAIN`.
+ * With `inspector.example.com`, `<friendlyId>.inspector.example.com/anything` reaches the token.
+ *
+ * @returns The lowercase domain, empty when host routing is off.
+ */
+export const getPayloadHostDomain = (): string => (process.env.PAYLOAD_HOST_DOMAIN ?? '').trim().toLowerCase().replace(/^\.+|\.+$/g, '')
+
+/**
+ * Extract the token label from a request host.
+ *
+ * @param host Host header value, with or without a port.
+ * @param domain Parent domain from `getPayloadHostDomain()`.
+ *
+ * @returns The label in front of the domain, null when the host is not a single level subdomain of it.
+ */
+export const tokenLabelFromHost = (host: string | null | undefined, domain: string): string | null => {
+    if (!host || !domain) {
+        return null
+    }
+
+    const name = host.trim().toLowerCase().replace(/:\d+$/, '').replace(/\.$/, '')
+    if (!name.endsWith(`.${domain}`)) {
+        return null
+    }
+
+    const label = name.slice(0, -(domain.length + 1))
+    return /^[a-z0-9-]+$/.test(label) ? label : null
+}
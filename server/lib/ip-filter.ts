@@ -0,0 +1,187 @@
+import { BlockList, isIP } from 'net'
+import type { IpPolicy } from '~~/shared/types'
+
+/**
+ * Policy used when a token has none, every address is allowed.
+ */
+export const DEFAULT_IP_POLICY: IpPolicy = {
+    allow: [],
+    deny: [],
+    status: 403,
+    recordBlocked: false,
+}
+
+/**
+ * Largest number of entries accepted in each list.
+ */
+export const MAX_IP_RULES = 500
+
+/**
+ * Check an address or CIDR range.
+ *
+ * @param entry Address such as `203.0.113.7` or range such as `2001:db8::/32`.
+ *
+ * @returns The address, prefix length and family, null when invalid.
+ */
+export const parseCidr = (entry: string): { address: string, prefix: number, family: 'ipv4' | 'ipv6' } | null => {
+    const [address = '', prefixText, ...rest] = entry.trim().split('/')
+    const version = isIP(address)
+    if (!version || rest.length) {
+        return null
+    }
+
+    const max = 4 === version ? 32 : 128
+    const prefix = undefined === prefixText ? max : Number(prefixText)
+    if (!/^\d+$/.test(prefixText ?? String(max)) || prefix > max) {
+        return null
+    }
+
+    return { address, prefix, family: 4 === version ? 'ipv4' : 'ipv6' }
+}
+
+const toList = (value: unknown, field: string): string[] => {
+    const items = 'string' === typeof value ? value.split(/[\n,\s]+/) : value
+    if (!Array.isArray(items)) {
+        throw new Error(`ipPolicy.${field} must be a list`)
+    }
+
+    const entries = [...new Set(items.map(item => String(item).trim()).filter(Boolean))]
+    if (entries.length > MAX_IP_RULES) {
+        throw new Error(`ipPolicy.${field} accepts at most ${MAX_IP_RULES} entries`)
+    }
+
+    for (const entry of entries) {
+        if (!parseCidr(entry)) {
+            throw new Error(`ipPolicy.${field} has an invalid address or CIDR range "${entry}"`)
+        }
+    }
+
+    return entries
+}
+
+/**
+ * Blocked clients are refused, so only client and server error statuses are accepted.
+ */
+const isRefusalStatus = (status: number): boolean => Number.isInteger(status) && status >= 400 && status <= 599
+
+const toPolicy = (input: Record<string, unknown>, base: IpPolicy): IpPolicy => {
+    const policy = { ...base }
+
+    if ('allow' in input) {
+        policy.allow = toList(input.allow ?? [], 'allow')
+    }
+    if ('deny' in input) {
+        policy.deny = toList(input.deny ?? [], 'deny')
+    }
+
+    if ('status' in input) {
+        const status = Number(input.status ?? DEFAULT_IP_POLICY.status)
+        if (!isRefusalStatus(status)) {
+            throw new Error('ipPolicy.status must be an integer between 400 and 599')
+        }
+        policy.status = status
+    }
+
+    if ('recordBlocked' in input) {
+        if ('boolean' !== typeof input.recordBlocked) {
+            throw new Error('ipPolicy.recordBlocked must be a boolean')
+        }
+        policy.recordBlocked = input.recordBlocked
+    }
+
+    return policy
+}
+
+/**
+ * Parse a stored IP policy.
+ *
+ * @param raw JSON string of the policy.
+ *
+ * @returns The policy, the allow-all default when none is set or the value is invalid.
+ */
+export const parseIpPolicy = (raw: string | null): IpPolicy => {
+    if (!raw) {
+        return { ...DEFAULT_IP_POLICY }
+    }
+
+    try {
+        const parsed = JSON.parse(raw) as unknown
+        if (!parsed || 'object' !== typeof parsed) {
+            return { ...DEFAULT_IP_POLICY }
+        }
+
+        // Policies saved while any status was accepted keep their lists and get the default status.
+        const { status, ...rest } = parsed as Record<string, unknown>
+        return toPolicy(isRefusalStatus(Number(status ?? DEFAULT_IP_POLICY.status)) ? parsed as Record<string, unknown> : rest, DEFAULT_IP_POLICY)
+    } catch {
+        return { ...DEFAULT_IP_POLICY }
+    }
+}
+
+/**
+ * Validate an IP policy from a token update payload.
+ * Fields missing from `ipPolicy` keep their stored value, null removes the policy.
+ *
+ * @param payload Raw request body.
+ * @param current Currently stored policy.
+ *
+ * @throws Error if a field is invalid
+ * @returns Fields ready to be stored.
+ */
+export const normalizeIpPolicyInput = (payload: Record<string, unknown>, current: string | null = null): { ipPolicy?: string | null } => {
+    if (!('ipPolicy' in payload)) {
+        return {}
+    }
+
+    const input = payload.ipPolicy
+    if (null === input || undefined === input) {
+        return { ipPolicy: null }
+    }
+
+    if ('object' !== typeof input || Array.isArray(input)) {
+        throw new Error('ipPolicy must be an object or null')
+    }
+
+    const policy = toPolicy(input as Record<string, unknown>, parseIpPolicy(current))
+    return { ipPolicy: policy.allow.length || policy.deny.length ? JSON.stringify(policy) : null }
+}
+
+const toBlockList = (entries: string[]): BlockList => {
+    const list = new BlockList()
+    for (const entry of entries) {
+        const cidr = parseCidr(entry)
+        if (cidr) {
+            list.addSubnet(cidr.address, cidr.prefix, cidr.family)
+        }
+    }
+    return list
+}
+
+/**
+ * Check a client address against the policy, the deny list wins over the allow list.
+ * An empty allow list allows every address that is not denied.
+ *
+ * @param policy The token's IP policy.
+ * @param ip Client address.
+ *
+ * @returns Why the address is blocked, null when it is allowed.
+ */
+export const checkIpPolicy = (policy: IpPolicy, ip: string | null): string | null => {
+    if (!policy.allow.length && !policy.deny.length) {
+        return null
+    }
+
+    const address = (ip ?? '').trim()
+    const version = isIP(address)
+    const family = 4 === version ? 'ipv4' : 'ipv6'
+
+    if (version && policy.deny.length && toBlockList(policy.deny).check(address, family)) {
+        return `${address} is in the deny list`
+    }
+
+    if (policy.allow.length && (!version || !toBlockList(policy.allow).check(address, family))) {
+        return `${address || 'Unknown address'} is not in the allow list`
+    }
+
+    return null
+}
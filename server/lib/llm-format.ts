@@ -0,0 +1,199 @@
+import type { AuthStatus, BodyFraming, EmailSummary, RawHeader, Request, RequestResponse, ResponseSource, SignatureResult, WebSocketFrame } from '~~/shared/types'
+import type { useDatabase } from './db'
+import { toEmailSummary } from './smtp'
+import { getRawHeaders } from '~~/shared/headers'
+
+/**
+ * LLM-friendly format of the response sent back for a request
+ */
+export interface LLMRequestResponse {
+    source: ResponseSource
+    ruleId: string | null
+    status: number
+    headers: Record<string, string>
+    contentType: string | null
+    contentLength: number
+    isBinary: boolean
+    body: string | null
+    latencyMs: number | null
+    durationMs: number | null
+    error: string | null
+}
+
+/**
+ * LLM-friendly format of a captured WebSocket frame
+ */
+export type LLMWebSocketFrame = Omit<WebSocketFrame, 'id' | 'requestId' | 'createdAt'> & { createdAt: string }
+
+/**
+ * LLM-friendly format of an email captured by the SMTP listener
+ */
+export type LLMEmail = Omit<EmailSummary, 'requestId'>
+
+/**
+ * LLM-friendly request data format
+ */
+export interface LLMRequest {
+    id: string
+    method: string
+    url: string
+    path: string
+    headers: Record<string, string>
+    rawHeaders: RawHeader[]
+    contentType: string
+    contentLength: number
+    isBinary: boolean
+    bodyHash: string | null
+    truncated: boolean
+    body: string | null
+    clientIp: string
+    remoteIp: string
+    createdAt: string
+    signature: SignatureResult | null
+    blocked: boolean
+    authStatus: AuthStatus | null
+    websocket: boolean
+    frames: LLMWebSocketFrame[] | null
+    email: LLMEmail | null
+    httpVersion: string | null
+    tls: boolean | null
+    serverPort: number | null
+    bodyFraming: BodyFraming | null
+    receiveMs: number | null
+    response: LLMRequestResponse | null
+}
+
+const parseJsonHeaders = (raw: string): Record<string, string> => {
+    try {
+        return JSON.parse(raw)
+    } catch {
+        return {}
+    }
+}
+
+const parseSignature = (raw: string | null): SignatureResult | null => {
+    if (!raw) {
+        return null
+    }
+
+    try {
+        return JSON.parse(raw)
+    } catch {
+        return null
+    }
+}
+
+const decodeBody = (buffer: Uint8Array | null): string | null => {
+    if (!buffer) {
+        return null
+    }
+
+    try {
+        return new TextDecoder('utf-8').decode(buffer)
+    } catch {
+        return '[Unable to decode body as text]'
+    }
+}
+
+const formatResponseForLLM = async (response: RequestResponse, db: ReturnType<typeof useDatabase>): Promise<LLMRequestResponse> => {
+    let body: string | null = null
+    if (response.bodyPath && response.contentLength > 0) {
+        body = response.isBinary ? '[Binary data not included]' : decodeBody(await db.responses.getBody(response.requestId))
+    }
+
+    return {
+        source: response.source,
+        ruleId: response.ruleId,
+        status: response.status,
+        headers: parseJsonHeaders(response.headers),
+        contentType: response.contentType,
+        contentLength: response.contentLength,
+        isBinary: response.isBinary,
+        body,
+        latencyMs: response.latencyMs,
+        durationMs: response.durationMs,
+        error: response.error,
+    }
+}
+
+const formatEmailForLLM = async (requestId: string, db: ReturnType<typeof useDatabase>): Promise<LLMEmail | null> => {
+    const email = await db.emails.get(requestId)
+    if (!email) {
+        return null
+    }
+
+    const summary = toEmailSummary(email)
+    return {
+        envelopeFrom: summary.envelopeFrom,
+        envelopeTo: summary.envelopeTo,
+        from: summary.from,
+        to: summary.to,
+        cc: summary.cc,
+        replyTo: summary.replyTo,
+        subject: summary.subject,
+        date: summary.date,
+        messageId: summary.messageId,
+        text: summary.text,
+        html: summary.html,
+        attachments: summary.attachments,
+    }
+}
+
+/**
+ * Convert Request to LLM-friendly format with body content and the response that was sent.
+ *
+ * @param request The stored request.
+ * @param db Database composable.
+ *
+ * @returns The formatted request.
+ */
+export const formatRequestForLLM = async (request: Request, db: ReturnType<typeof useDatabase>): Promise<LLMRequest> => {
+    let bodyContent: string | null = null
+    if (request.bodyPath && request.contentLength > 0) {
+        bodyContent = request.isBinary
+            ? '[Binary data not included]'
+            : decodeBody(await db.requests.getBody(request.sessionId, request.tokenId, request.id))
+    }
+
+    const response = await db.responses.get(request.id)
+
+    return {
+        id: request.id,
+        method: request.method,
+        url: request.url,
+        path: request.path,
+        headers: parseJsonHeaders(request.headers),
+        rawHeaders: getRawHeaders(request),
+        contentType: request.contentType,
+        contentLength: request.contentLength,
+        isBinary: request.isBinary,
+        bodyHash: request.bodyHash,
+        truncated: request.truncated,
+        body: bodyContent,
+        clientIp: request.clientIp,
+        remoteIp: request.remoteIp,
+        createdAt: request.createdAt.toISOString(),
+        signature: parseSignature(request.signature),
+        blocked: request.blocked,
+        authStatus: request.authStatus,
+        websocket: request.websocket,
+        frames: request.websocket
+            ? (await db.frames.list(request.id)).map(frame => ({
+                direction: frame.direction,
+                type: frame.type,
+                data: frame.data,
+                size: frame.size,
+                truncated: frame.truncated,
+                closeCode: frame.closeCode,
+                createdAt: frame.createdAt.toISOString(),
+            }))
+            : null,
+        email: request.email ? await formatEmailForLLM(request.id, db) : null,
+        httpVersion: request.httpVersion,
+        tls: request.tls,
+        serverPort: request.serverPort,
+        bodyFraming: request.bodyFraming,
+        receiveMs: request.receiveMs,
+        response: response ? await formatResponseForLLM(response, db) : null,
+    }
+}
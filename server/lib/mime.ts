@@ -0,0 +1,310 @@
+/**
+ * Attachment or inline part of an email.
+ */
+export type MimeAttachment = {
+    filename: string
+    contentType: string
+    contentId: string | null // Without the angle brackets, referenced from HTML as cid:<id>
+    inline: boolean
+    content: Buffer
+}
+
+/**
+ * Email parsed into the parts shown when inspecting it.
+ */
+export type ParsedEmail = {
+    headers: Array<[string, string]> // Top-level headers in order, names lowercased and values decoded
+    subject: string | null
+    from: string | null
+    to: string | null
+    cc: string | null
+    replyTo: string | null
+    date: string | null
+    messageId: string | null
+    text: string | null
+    html: string | null
+    attachments: MimeAttachment[]
+}
+
+type MimePart = {
+    headers: Array<[string, string]>
+    body: string // Latin-1 string, one character per byte
+}
+
+/**
+ * Deepest multipart nesting followed, deeper parts are kept as attachments.
+ */
+export const MAX_MIME_DEPTH = 10
+
+const ENCODED_WORD = /=\?([^?\s]+)\?([bBqQ])\?([^?\s]*)\?=/g
+
+const decodeCharset = (bytes: Buffer, charset: string | null | undefined): string => {
+    try {
+        return new TextDecoder(charset || 'utf-8').decode(bytes)
+    } catch {
+        return bytes.toString('utf8')
+    }
+}
+
+/**
+ * Decode quoted-printable text into bytes.
+ *
+ * @param input Encoded text, one character per byte.
+ * @param header Header values use `_` for spaces (RFC 2047).
+ *
+ * @returns Decoded bytes.
+ */
+export const decodeQuotedPrintable = (input: string, header: boolean = false): Buffer => {
+    const text = (header ? input.replace(/_/g, ' ') : input).replace(/=\r?\n/g, '')
+    const bytes: number[] = []
+
+    for (let i = 0; i < text.length; i++) {
+        const hex = '=' === text[i] ? text.slice(i + 1, i + 3) : ''
+        if (/^[0-9A-Fa-f]{2}$/.test(hex)) {
+            bytes.push(parseInt(hex, 16))
+            i += 2
+            continue
+        }
+        bytes.push(text.charCodeAt(i) & 0xff)
+    }
+
+    return Buffer.from(bytes)
+}
+
+/**
+ * Decode RFC 2047 encoded words in a header value, e.g. `=?UTF-8?B?SGk=?=`.
+ * Whitespace between adjacent encoded words is dropped.
+ *
+ * @param value Raw header value.
+ *
+ * @returns Decoded value.
+ */
+export const decodeHeaderValue = (value: string): string => {
+    return value
+        .replace(/(=\?[^?\s]+\?[bBqQ]\?[^?\s]*\?=)\s+(?==\?[^?\s]+\?[bBqQ]\?[^?\s]*\?=)/g, '$1')
+        .replace(ENCODED_WORD, (match: string, charset: string, encoding: string, text: string) => {
+            const bytes = 'b' === encoding.toLowerCase() ? Buffer.from(text, 'base64') : decodeQuotedPrintable(text, true)
+            // Language tags such as UTF-8*en are part of the charset (RFC 2231).
+            return decodeCharset(bytes, charset.split('*')[0])
+        })
+}
+
+/**
+ * Split a header block into unfolded name/value pairs.
+ *
+ * @param block Header block without the blank line ending it.
+ *
+ * @returns Headers in order, names lowercased.
+ */
+export const parseHeaderBlock = (block: string): Array<[string, string]> => {
+    const headers: Array<[string, string]> = []
+
+    for (const line of block.split(/\r?\n/)) {
+        const last = headers[headers.length - 1]
+        if (/^[ \t]/.test(line) && last) {
+            last[1] += ' ' + line.trim()
+            continue
+        }
+
+        const colon = line.indexOf(':')
+        if (colon > 0) {
+            headers.push([line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim()])
+        }
+    }
+
+    return headers
+}
+
+/**
+ * Parse a structured header value such as `text/plain; charset="utf-8"`.
+ * RFC 2231 continuations and charset encoded parameters (`filename*=utf-8''a%20b`) are merged.
+ *
+ * @param value Header value.
+ *
+ * @returns Value before the first `;` lowercased, and parameters keyed by lowercased name.
+ */
+export const parseHeaderParams = (value: string): { value: string, params: Record<string, string> } => {
+    const [head = '', ...rest] = value.match(/(?:"(?:\\.|[^"\\])*"|[^;])+/g) ?? []
+    const parts: Record<string, { index: number, text: string, encoded: boolean }[]> = {}
+
+    for (const segment of rest) {
+        const eq = segment.indexOf('=')
+        if (eq < 0) {
+            continue
+        }
+
+        const key = segment.slice(0, eq).trim().toLowerCase()
+        let text = segment.slice(eq + 1).trim()
+        if (text.startsWith('"') && text.endsWith('"')) {
+            text = text.slice(1, -1).replace(/\\(.)/g, '$1')
+        }
+
+        // name*0*=, name*1= and name*= are pieces of the same parameter.
+        const match = /^(.+?)(?:\*(\d+))?(\*)?$/.exec(key)
+        const name = match?.[1] ?? key
+        const list = parts[name] ?? []
+        list.push({ index: Number(match?.[2] ?? 0), text, encoded: Boolean(match?.[3]) })
+        parts[name] = list
+    }
+
+    const params: Record<string, string> = {}
+    for (const [key, pieces] of Object.entries(parts)) {
+        pieces.sort((a, b) => a.index - b.index)
+
+        let charset: string | null = null
+        const bytes: Buffer[] = []
+        for (const piece of pieces) {
+            if (!piece.encoded) {
+                bytes.push(Buffer.from(piece.text, 'utf8'))
+                continue
+            }
+
+            let text = piece.text
+            if (0 === piece.index || null === charset) {
+                const quote = /^([^']*)'[^']*'(.*)$/.exec(text)
+                if (quote) {
+                    charset = quote[1] || null
+                    text = quote[2] ?? ''
+                }
+            }
+            bytes.push(Buffer.from(text.replace(/%([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))), 'latin1'))
+        }
+
+        params[key] = decodeHeaderValue(decodeCharset(Buffer.concat(bytes), charset))
+    }
+
+    return { value: head.trim().toLowerCase(), params }
+}
+
+const headerOf = (headers: Array<[string, string]>, name: string): string | null => headers.find(([key]) => key === name)?.[1] ?? null
+
+const splitPart = (raw: string): MimePart => {
+    // A part may start with the blank line, it then has no headers of its own.
+    const empty = /^\r?\n/.exec(raw)
+    if (empty) {
+        return { headers: [], body: raw.slice(empty[0].length) }
+    }
+
+    const match = /\r?\n\r?\n/.exec(raw)
+    if (!match) {
+        // Without a blank line everything is headers, unless the first line is not one.
+        return /^[^\s:]+:/.test(raw) ? { headers: parseHeaderBlock(raw), body: '' } : { headers: [], body: raw }
+    }
+
+    // Header bytes are UTF-8 where they are not ASCII (RFC 6532).
+    const block = Buffer.from(raw.slice(0, match.index), 'latin1').toString('utf8')
+    return { headers: parseHeaderBlock(block), body: raw.slice(match.index + match[0].length) }
+}
+
+const decodeBody = (body: string, encoding: string | null): Buffer => {
+    switch ((encoding ?? '').trim().toLowerCase()) {
+        case 'base64':
+            return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64')
+        case 'quoted-printable':
+            return decodeQuotedPrintable(body)
+        default:
+            return Buffer.from(body, 'latin1')
+    }
+}
+
+const splitMultipart = (body: string, boundary: string): string[] => {
+    const delimiter = '--' + boundary
+    const parts: string[] = []
+    const lines = body.split(/(?<=\n)/)
+    let current: string[] | null = null
+
+    for (const line of lines) {
+        const trimmed = line.replace(/[ \t]*\r?\n$/, '')
+        if (trimmed === delimiter || trimmed === delimiter + '--') {
+            if (current) {
+                // The line break before a delimiter belongs to the delimiter.
+                parts.push(current.join('').replace(/\r?\n$/, ''))
+            }
+            current = trimmed === delimiter ? [] : null
+            if (!current) {
+                break
+            }
+            continue
+        }
+        current?.push(line)
+    }
+
+    // A missing closing delimiter still ends the last part.
+    if (current?.length) {
+        parts.push(current.join('').replace(/\r?\n$/, ''))
+    }
+
+    return parts
+}
+
+const walkPart = (part: MimePart, out: ParsedEmail, depth: number): void => {
+    const contentType = parseHeaderParams(headerOf(part.headers, 'content-type') ?? 'text/plain')
+    const disposition = parseHeaderParams(headerOf(part.headers, 'content-disposition') ?? '')
+    const type = contentType.value || 'text/plain'
+    const boundary = contentType.params.boundary
+
+    if (type.startsWith('multipart/') && boundary && depth < MAX_MIME_DEPTH) {
+        for (const raw of splitMultipart(part.body, boundary)) {
+            walkPart(splitPart(raw), out, depth + 1)
+        }
+        return
+    }
+
+    const content = decodeBody(part.body, headerOf(part.headers, 'content-transfer-encoding'))
+    const filename = disposition.params.filename ?? contentType.params.name ?? null
+    const isAttachment = 'attachment' === disposition.value || null !== filename
+
+    if (!isAttachment && 'text/plain' === type && null === out.text) {
+        out.text = decodeCharset(content, contentType.params.charset)
+        return
+    }
+
+    if (!isAttachment && 'text/html' === type && null === out.html) {
+        out.html = decodeCharset(content, contentType.params.charset)
+        return
+    }
+
+    const contentId = headerOf(part.headers, 'content-id')?.replace(/^<|>$/g, '') ?? null
+    const extension = 'message/rfc822' === type ? 'eml' : type.split('/')[1]?.replace(/[^a-z0-9]/g, '') || 'bin'
+
+    out.attachments.push({
+        filename: filename ?? `attachment-${out.attachments.length + 1}.${extension}`,
+        contentType: type,
+        contentId,
+        inline: 'attachment' !== disposition.value && null !== contentId,
+        content,
+    })
+}
+
+/**
+ * Parse an email into its headers, text and HTML bodies and attachments.
+ * The first text/plain and text/html parts that are not attachments are used as the bodies,
+ * every other part is an attachment.
+ *
+ * @param raw The message as received, headers included.
+ *
+ * @returns The parsed message.
+ */
+export const parseEmail = (raw: Buffer): ParsedEmail => {
+    const part = splitPart(raw.toString('latin1'))
+    const headers = part.headers.map(([key, value]): [string, string] => [key, decodeHeaderValue(value)])
+    const first = (name: string) => headerOf(headers, name)
+
+    const out: ParsedEmail = {
+        headers,
+        subject: first('subject'),
+        from: first('from'),
+        to: first('to'),
+        cc: first('cc'),
+        replyTo: first('reply-to'),
+        date: first('date'),
+        messageId: first('message-id')?.replace(/^<|>$/g, '') ?? null,
+        text: null,
+        html: null,
+        attachments: [],
+    }
+
+    walkPart(part, out, 0)
+
+    return out
+}
@@ -0,0 +1,184 @@
+import type { ResponseMode, Token } from '~~/shared/types'
+import { extractSubPath } from '~~/shared/rules'
+import { Readable } from 'stream'
+
+type ProxyFields = Pick<Token, 'responseMode' | 'proxyUrl'>
+
+export const RESPONSE_MODES: ResponseMode[] = ['static', 'proxy', 'stream']
+
+/**
+ * How long to wait for the upstream before giving up, 30 seconds.
+ */
+export const PROXY_TIMEOUT_MS = 30 * 1000
+
+/**
+ * Headers that describe a single connection and must not be relayed.
+ */
+const HOP_BY_HOP = new Set([
+    'connection',
+    'keep-alive',
+    'proxy-authenticate',
+    'proxy-authorization',
+    'proxy-connection',
+    'te',
+    'trailer',
+    'transfer-encoding',
+    'upgrade',
+    'host',
+    'content-length',
+])
+
+export type UpstreamResponse = {
+    status: number
+    headers: Record<string, string | string[]> // Set-Cookie is kept as one entry per cookie
+    body: Buffer | null
+    latencyMs: number
+    error: string | null
+}
+
+/**
+ * Validate proxy settings from a token update payload.
+ * Only keys present in the payload are returned.
+ *
+ * @param payload Raw request body.
+ *
+ * @throws Error if a field is invalid
+ * @returns Fields ready to be stored.
+ */
+export const normalizeProxyInput = (payload: Record<string, unknown>): Partial<ProxyFields> => {
+    const out: Partial<ProxyFields> = {}
+
+    if ('responseMode' in payload) {
+        const mode = payload.responseMode ?? 'static'
+        if (!RESPONSE_MODES.includes(mode as ResponseMode)) {
+            throw new Error(`responseMode must be one of ${RESPONSE_MODES.join(', ')}`)
+        }
+        out.responseMode = mode as ResponseMode
+    }
+
+    if ('proxyUrl' in payload) {
+        const raw = null === payload.proxyUrl || undefined === payload.proxyUrl ? '' : String(payload.proxyUrl).trim()
+        if (raw) {
+            let url: URL
+            try {
+                url = new URL(raw)
+            } catch {
+                throw new Error('proxyUrl must be an absolute URL')
+            }
+            if (!['http:', 'https:'].includes(url.protocol)) {
+                throw new Error('proxyUrl must use http or https')
+            }
+        }
+        out.proxyUrl = raw || null
+    }
+
+    if ('proxy' === out.responseMode && 'proxyUrl' in out && !out.proxyUrl) {
+        throw new Error('proxyUrl is required when responseMode is proxy')
+    }
+
+    return out
+}
+
+/**
+ * Build the upstream URL by appending the payload sub-path and query string to the base URL.
+ *
+ * @param base Upstream base URL.
+ * @param url Incoming request URL.
+ *
+ * @returns The URL to forward to.
+ */
+export const buildUpstreamUrl = (base: string, url: string): string => {
+    const target = new URL(base)
+    const incoming = new URL(url, 'http://localhost')
+    const subPath = extractSubPath(incoming.pathname)
+
+    if ('/' !== subPath) {
+        target.pathname = target.pathname.replace(/\/+$/, '') + subPath
+    }
+
+    incoming.searchParams.forEach((value, key) => target.searchParams.append(key, value))
+
+    return target.toString()
+}
+
+/**
+ * Relay a request to the upstream and capture its response.
+ * Network errors and timeouts are reported as a 502 with `error` set.
+ *
+ * @param target Upstream URL.
+ * @param method HTTP method.
+ * @param headers Incoming request headers.
+ * @param body Request body, streams are relayed as they are read.
+ *
+ * @returns The upstream response.
+ */
+export const forwardRequest = async (
+    target: string,
+    method: string,
+    headers: Record<string, string>,
+    body: Buffer | Readable | null
+): Promise<UpstreamResponse> => {
+    const outgoing: Record<string, string> = {}
+    for (const [key, value] of Object.entries(headers)) {
+        if (!HOP_BY_HOP.has(key.toLowerCase())) {
+            outgoing[key] = value
+        }
+    }
+
+    const withBody = null !== body && !['GET', 'HEAD'].includes(method)
+    if (!withBody && body instanceof Readable) {
+        body.destroy()
+    }
+
+    const started = Date.now()
+
+    try {
+        const res = await fetch(target, {
+            method,
+            headers: outgoing,
+            body: withBody
+                ? Buffer.isBuffer(body) ? (body.length ? new Uint8Array(body) : undefined) : Readable.toWeb(body) as unknown as ReadableStream
+                : undefined,
+            // Streamed bodies are sent while the response is awaited.
+            ...(withBody && !Buffer.isBuffer(body) ? { duplex: 'half' as const } : {}),
+            redirect: 'manual',
+            signal: AbortSignal.timeout(PROXY_TIMEOUT_MS),
+        })
+
+        const data = Buffer.from(await res.arrayBuffer())
+
+        const responseHeaders: Record<string, string | string[]> = {}
+        res.headers.forEach((value, key) => {
+            // fetch already decoded the body, so the upstream encoding no longer applies
+            if (!HOP_BY_HOP.has(key) && 'content-encoding' !== key && 'set-cookie' !== key) {
+                responseHeaders[key] = value
+            }
+        })
+
+        // Joined cookies are not a valid header, each one is relayed on its own.
+        const cookies = res.headers.getSetCookie()
+        if (cookies.length) {
+            responseHeaders['set-cookie'] = cookies
+        }
+
+        return {
+            status: res.status,
+            headers: responseHeaders,
+            body: data.length ? data : null,
+            latencyMs: Date.now() - started,
+            error: null,
+        }
+    } catch (err) {
+        const error = err instanceof Error && 'TimeoutError' === err.name
+            ? `Upstream did not respond within ${PROXY_TIMEOUT_MS}ms`
+            : `Upstream request failed: ${err instanceof Error ? (err.cause as Error | undefined)?.message || err.message : String(err)}`
+
+        return {
+            status: 502,
+            headers: { 'content-type': 'text/plain; charset=utf-8' },
+            body: Buffer.from(error),
+            latencyMs: Date.now() - started,
+            error,
+        }
+    }
+}
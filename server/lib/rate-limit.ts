@@ -0,0 +1,209 @@
+import type { Token } from '~~/shared/types'
+
+type RateLimitFields = Partial<Pick<Token, 'rateLimitPerMinute' | 'maxRequests' | 'rateLimitRetryAfter' | 'rejectedCount'>>
+
+type LimitedToken = Pick<Token, 'id' | 'sessionId' | 'rateLimitPerMinute' | 'maxRequests' | 'rateLimitRetryAfter'>
+
+type Window = { start: number, count: number }
+
+/**
+ * Seconds sent in `Retry-After` when a token has not configured its own.
+ */
+export const DEFAULT_RETRY_AFTER = 60
+
+/**
+ * Largest accepted `Retry-After`, one day.
+ */
+export const MAX_RETRY_AFTER = 86400
+
+/**
+ * Largest accepted per minute limit.
+ */
+export const MAX_RATE_LIMIT = 100000
+
+/**
+ * Largest accepted stored request quota.
+ */
+export const MAX_REQUEST_QUOTA = 1000000
+
+const WINDOW_MS = 60_000
+
+/**
+ * Fixed one minute windows, keyed by `token:<id>` or `session:<id>`.
+ */
+const windows = new Map<string, Window>()
+
+export type LimitResult = {
+    scope: 'token' | 'session'
+    reason: 'rate' | 'quota'
+    retryAfter: number
+    message: string
+}
+
+const toLimit = (value: unknown, name: string, max: number): number | null => {
+    if (null === value || undefined === value || '' === value) {
+        return null
+    }
+
+    const limit = Number(value)
+    if (!Number.isInteger(limit) || limit < 0 || limit > max) {
+        throw new Error(`${name} must be an integer between 0 and ${max} or null`)
+    }
+
+    return limit
+}
+
+const envLimit = (value: string | undefined): number | null => {
+    const limit = Number(value)
+    return value && Number.isInteger(limit) && limit > 0 ? limit : null
+}
+
+/**
+ * Requests a session accepts per minute across its tokens, from `SESSION_RATE_LIMIT`.
+ *
+ * @returns The limit, null when not set.
+ */
+export const getSessionRateLimit = (): number | null => envLimit(process.env.SESSION_RATE_LIMIT)
+
+/**
+ * Requests a session stores across its tokens, from `SESSION_MAX_REQUESTS`.
+ *
+ * @returns The limit, null when not set.
+ */
+export const getSessionMaxRequests = (): number | null => envLimit(process.env.SESSION_MAX_REQUESTS)
+
+/**
+ * Validate rate limit settings from a token update payload.
+ * Passing `rejectedCountReset: true` clears the rejected request counter.
+ *
+ * @param payload Raw request body.
+ *
+ * @throws Error if a field is invalid
+ * @returns Fields present in the payload, ready to be stored.
+ */
+export const normalizeRateLimitInput = (payload: Record<string, unknown>): RateLimitFields => {
+    const out: RateLimitFields = {}
+
+    if ('rateLimitPerMinute' in payload) {
+        out.rateLimitPerMinute = toLimit(payload.rateLimitPerMinute, 'rateLimitPerMinute', MAX_RATE_LIMIT)
+    }
+
+    if ('maxRequests' in payload) {
+        out.maxRequests = toLimit(payload.maxRequests, 'maxRequests', MAX_REQUEST_QUOTA)
+    }
+
+    if ('rateLimitRetryAfter' in payload) {
+        const retryAfter = Number(payload.rateLimitRetryAfter ?? DEFAULT_RETRY_AFTER)
+        if (!Number.isInteger(retryAfter) || retryAfter < 0 || retryAfter > MAX_RETRY_AFTER) {
+            throw new Error(`rateLimitRetryAfter must be an integer between 0 and ${MAX_RETRY_AFTER}`)
+        }
+        out.rateLimitRetryAfter = retryAfter
+    }
+
+    if (true === payload.rejectedCountReset) {
+        out.rejectedCount = 0
+    }
+
+    return out
+}
+
+const currentWindow = (key: string, now: number): Window => {
+    const window = windows.get(key)
+    if (window && now - window.start < WINDOW_MS) {
+        return window
+    }
+
+    const fresh = { start: now, count: 0 }
+    windows.set(key, fresh)
+    return fresh
+}
+
+/**
+ * Drop windows that ended, keeps the map from growing with every token ever seen.
+ */
+const sweep = (now: number): void => {
+    for (const [key, window] of windows) {
+        if (now - window.start >= WINDOW_MS) {
+            windows.delete(key)
+        }
+    }
+}
+
+/**
+ * Check the per minute limits and count the request against them when it is let through.
+ * The token and its session are both checked before either is counted, so a rejected
+ * request never uses up the other's allowance.
+ *
+ * @param token The token receiving the request.
+ * @param now Current time in milliseconds.
+ *
+ * @returns Which limit was exceeded, null when the request is allowed.
+ */
+export const consumeRateLimit = (token: LimitedToken, now: number = Date.now()): LimitResult | null => {
+    if (windows.size > 1000) {
+        sweep(now)
+    }
+
+    const checks: Array<{ scope: LimitResult['scope'], key: string, limit: number | null }> = [
+        { scope: 'token', key: `token:${token.id}`, limit: token.rateLimitPerMinute ?? null },
+        { scope: 'session', key: `session:${token.sessionId}`, limit: getSessionRateLimit() },
+    ]
+
+    const active = checks.filter(check => null !== check.limit)
+    for (const check of active) {
+        if (currentWindow(check.key, now).count >= (check.limit as number)) {
+            return {
+                scope: check.scope,
+                reason: 'rate',
+                retryAfter: token.rateLimitRetryAfter,
+                message: `Rate limit of ${check.limit} requests per minute exceeded for this ${check.scope}`,
+            }
+        }
+    }
+
+    for (const check of active) {
+        currentWindow(check.key, now).count++
+    }
+
+    return null
+}
+
+/**
+ * Check the stored request quotas of a token and its session.
+ *
+ * @param token The token receiving the request.
+ * @param counts Stored requests of the token and of the whole session.
+ *
+ * @returns Which quota is full, null when the request may be stored.
+ */
+export const checkRequestQuota = (token: LimitedToken, counts: { token: number, session: number }): LimitResult | null => {
+    if (null !== token.maxRequests && counts.token >= token.maxRequests) {
+        return {
+            scope: 'token',
+            reason: 'quota',
+            retryAfter: token.rateLimitRetryAfter,
+            message: `This token already stores ${counts.token} of ${token.maxRequests} allowed requests`,
+        }
+    }
+
+    const sessionMax = getSessionMaxRequests()
+    if (null !== sessionMax && counts.session >= sessionMax) {
+        return {
+            scope: 'session',
+            reason: 'quota',
+            retryAfter: token.rateLimitRetryAfter,
+            message: `This session already stores ${counts.session} of ${sessionMax} allowed requests`,
+        }
+    }
+
+    return null
+}
+
+/**
+ * Start a token's per minute window over.
+ *
+ * @param tokenId The token ID.
+ */
+export const resetRateLimit = (tokenId: string): void => {
+    windows.delete(`token:${tokenId}`)
+}
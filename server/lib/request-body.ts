@@ -0,0 +1,52 @@
+import { Readable } from 'stream'
+import type { ReadableStream as WebReadableStream } from 'stream/web'
+import { getRequestWebStream, type H3Event } from 'h3'
+
+const SIZE_UNITS: Record<string, number> = { '': 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 }
+
+/**
+ * Parse a size such as `1048576`, `512k`, `50mb` or `1g`.
+ *
+ * @param value Size in bytes, with an optional k/m/g suffix.
+ *
+ * @returns Size in bytes, 0 when empty or invalid.
+ */
+export const parseSize = (value: string | undefined): number => {
+    const match = /^\s*(\d+)\s*([kmg]?)b?\s*$/i.exec(value ?? '')
+    if (!match) {
+        return 0
+    }
+
+    return Number(match[1]) * (SIZE_UNITS[match[2].toLowerCase()] ?? 1)
+}
+
+/**
+ * Largest request body stored, from `MAX_BODY_SIZE`. 0 stores bodies of any size.
+ *
+ * @returns Size in bytes.
+ */
+export const getMaxBodySize = (): number => parseSize(process.env.MAX_BODY_SIZE)
+
+/**
+ * Get the request body as a stream so it can be written to disk as it arrives.
+ * Bodies that were already read, or are provided by the runtime, are replayed from memory.
+ *
+ * @param event The H3 event.
+ *
+ * @returns The body stream, null for methods without a body.
+ */
+export const getBodyStream = (event: H3Event): Readable | null => {
+    const req = event.node.req as H3Event['node']['req'] & Record<string | symbol, unknown>
+    const method = (req.method || 'GET').toUpperCase()
+    if (!['POST', 'PUT', 'PATCH', 'DELETE'].includes(method)) {
+        return null
+    }
+
+    const preloaded = Symbol.for('h3RawBody') in req || 'rawBody' in req || 'body' in req || '__unenv__' in req
+    if (!preloaded && 'function' === typeof req.pipe) {
+        return req
+    }
+
+    const stream = getRequestWebStream(event)
+    return stream ? Readable.fromWeb(stream as unknown as WebReadableStream) : null
+}
@@ -1,6 +1,14 @@
 import { useDatabase } from './db'
-import type { Request } from '~~/shared/types'
+import type { BodyFraming, RawHeader, Request, RequestProtocol, Token } from '~~/shared/types'
+import { headersFromPairs } from '~~/shared/headers'
 import { useServerEvents } from './events'
+import { createSignatureVerifier, type SignatureVerifier } from './signature'
+import { checkAuth } from './auth-challenge'
+import { getPrunePolicy } from './retention'
+import { checkRequestQuota, consumeRateLimit, getSessionMaxRequests, type LimitResult } from './rate-limit'
+import type { ParsedEmail } from './mime'
+import { Readable } from 'stream'
+import type { IncomingMessage } from 'http'
 
 const selectFirstIp = (input?: string | null) => {
     if (!input) {
@@ -61,18 +69,110 @@ export function determineClientIp(headers: Record<string, string>) {
     return null
 }
 
+/**
+ * Resolve the address a request came from. Forwarding headers are only honored when
+ * `TRUST_PROXY_CLIENT_IP` is enabled, otherwise anyone could claim any address.
+ *
+ * @param headers HTTP headers as a key-value map
+ * @param fallbackClientIp Address of the connecting socket
+ *
+ * @returns The client address
+ */
+export function resolveClientIp(headers: Record<string, string>, fallbackClientIp: string): string {
+    const trustProxy = 'true' === process.env.TRUST_PROXY_CLIENT_IP
+    return (trustProxy ? determineClientIp(headers) : null) || fallbackClientIp
+}
+
+/**
+ * Describe how a request arrived: its HTTP version, whether it came over TLS, the port it
+ * was sent to and how its body was delimited. Behind a proxy the connection is the proxy's,
+ * `X-Forwarded-Proto` and `X-Forwarded-Port` are only honored when `TRUST_PROXY_CLIENT_IP`
+ * is enabled.
+ *
+ * @param req Incoming Node.js request
+ * @param headers HTTP headers as a key-value map
+ *
+ * @returns The protocol details
+ */
+export function resolveProtocol(req: IncomingMessage, headers: Record<string, string>): RequestProtocol {
+    const trustProxy = 'true' === process.env.TRUST_PROXY_CLIENT_IP
+    const forwardedProto = trustProxy ? headers['x-forwarded-proto']?.split(',')[0]?.trim().toLowerCase() : undefined
+    const forwardedPort = trustProxy ? Number.parseInt(headers['x-forwarded-port']?.split(',')[0] ?? '', 10) : Number.NaN
+    const socket = req.socket as (IncomingMessage['socket'] & { encrypted?: boolean }) | undefined
+
+    let bodyFraming: BodyFraming | null = null
+    if (/\bchunked\b/i.test(headers['transfer-encoding'] ?? '')) {
+        bodyFraming = 'chunked'
+    } else if (undefined !== headers['content-length']) {
+        bodyFraming = 'content-length'
+    }
+
+    return {
+        httpVersion: req.httpVersion || null,
+        tls: forwardedProto ? 'https' === forwardedProto : Boolean(socket?.encrypted),
+        serverPort: Number.isInteger(forwardedPort) ? forwardedPort : socket?.localPort ?? null,
+        bodyFraming,
+    }
+}
+
+/**
+ * Check the token's and session's quotas and per minute limits, quotas first so a request
+ * turned away for a full quota does not use up the minute's allowance.
+ */
+export const checkLimits = async (tokenRow: Token): Promise<LimitResult | null> => {
+    const db = useDatabase()
+    const tokenMax = tokenRow.maxRequests ?? null
+    const sessionMax = getSessionMaxRequests()
+
+    if (null !== tokenMax || null !== sessionMax) {
+        const quota = checkRequestQuota(tokenRow, {
+            token: null !== tokenMax ? await db.requests.count(tokenRow.sessionId, tokenRow.id) : 0,
+            session: null !== sessionMax ? await db.requests.count(tokenRow.sessionId) : 0,
+        })
+        if (quota) {
+            return quota
+        }
+    }
+
+    return consumeRateLimit(tokenRow)
+}
+
+const tap = (body: Buffer | Readable, verifier: SignatureVerifier): Buffer | Readable => {
+    if (Buffer.isBuffer(body)) {
+        verifier.update(body)
+        return body
+    }
+
+    return Readable.from((async function* () {
+        for await (const chunk of body) {
+            const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk)
+            verifier.update(buffer)
+            yield buffer
+        }
+    })())
+}
+
 /**
  * Core logic for ingesting a request into the system.
+ * The body is written to disk as it streams in, the signature is verified along the way
+ * when the token has a signature scheme. Credentials are checked and recorded when the
+ * token requires authentication. Requests outside the token's retention window are
+ * pruned once the new one is stored.
  * 
  * @param sessionId The session ID associated with the token
  * @param tokenId The token ID used for this request
  * @param method HTTP method (e.g., GET, POST)
  * @param headers HTTP headers as a key-value map
- * @param body Optional request body as a Buffer
+ * @param body Optional request body as a Buffer or a stream
  * @param url The full URL of the request
  * @param fallbackClientIp The fallback client IP if no headers provide one
  * @param overrideClientIp Optional override for client IP (e.g., from ingest endpoint)
  * @param overrideRemoteIp Optional override for remote IP (e.g., from ingest endpoint)
+ * @param options.blocked Record the request as refused by the token's IP policy
+ * @param options.websocket Record the request as the handshake of a WebSocket connection
+ * @param options.email Record the request as an email received over SMTP, with its envelope and parsed form
+ * @param options.rawHeaders Headers in received order with their original names, `headers` must be derived from them
+ * @param options.protocol How the request arrived over HTTP, its body is timed when given
  * 
  * @returns The created Request record
  */
@@ -81,30 +181,66 @@ export async function ingestRequest(
     tokenId: string,
     method: string,
     headers: Record<string, string>,
-    body: Buffer | null,
+    body: Buffer | Readable | null,
     url: string,
     fallbackClientIp: string,
     overrideClientIp?: string | null,
-    overrideRemoteIp?: string | null
+    overrideRemoteIp?: string | null,
+    options: {
+        blocked?: boolean
+        websocket?: boolean
+        email?: { from: string | null, to: string[], message: ParsedEmail }
+        rawHeaders?: RawHeader[]
+        protocol?: RequestProtocol
+    } = {}
 ): Promise<Request> {
-    const trustProxy = 'true' === process.env.TRUST_PROXY_CLIENT_IP
     const db = useDatabase()
 
     const clientIp = overrideClientIp || fallbackClientIp
-    const remoteIp = overrideRemoteIp || (trustProxy ? determineClientIp(headers) : null) || clientIp
+    const remoteIp = overrideRemoteIp || resolveClientIp(headers, clientIp)
+
+    const token = await db.tokens.get(sessionId, tokenId)
+    // Signatures and credentials are HTTP concerns, email headers would never carry them.
+    const verifier = token && !options.email ? createSignatureVerifier(token, headers) : null
+    // Browsers never send credentials with a CORS preflight.
+    const authStatus = token && !options.email && 'OPTIONS' !== method.toUpperCase() ? checkAuth(token, headers, url) : null
 
-    const created = await db.requests.create(
+    let created = await db.requests.create(
         sessionId,
         tokenId,
         method,
         headers,
-        body,
+        verifier && body ? tap(body, verifier) : body,
         url,
         clientIp,
-        remoteIp
+        remoteIp,
+        options.rawHeaders ?? null,
+        options.protocol ?? null,
     )
 
-    useServerEvents().publish(sessionId, 'request.received', { token: tokenId, request: created })
+    if (verifier || options.blocked || options.websocket || options.email || authStatus) {
+        created = await db.requests.annotate(created.id, {
+            ...(verifier ? { signature: verifier.finish() } : {}),
+            ...(options.blocked ? { blocked: true } : {}),
+            ...(options.websocket ? { websocket: true } : {}),
+            ...(options.email ? { email: true } : {}),
+            ...(authStatus ? { authStatus } : {}),
+        })
+    }
+
+    if (options.email) {
+        await db.emails.create(sessionId, tokenId, created.id, options.email, options.email.message)
+    }
+
+    const events = useServerEvents()
+    events.publish(sessionId, 'request.received', { token: tokenId, request: created })
+
+    const prunePolicy = token ? getPrunePolicy(token) : null
+    if (prunePolicy) {
+        for (const requestId of await db.requests.prune(tokenId, prunePolicy)) {
+            events.publish(sessionId, 'request.deleted', { token: tokenId, requestId })
+        }
+    }
 
     return created
 }
@@ -122,9 +258,9 @@ export async function ingestRequest(
  * 
  * @param rawText The full raw HTTP request text
  * 
- * @returns An object containing method, url, headers, and body
+ * @returns An object containing method, url, headers in order and as a map, and body
  */
-export function parseRawRequest(rawText: string): { method: string, url: string, headers: Record<string, string>, body: string, } {
+export function parseRawRequest(rawText: string): { method: string, url: string, headers: Record<string, string>, rawHeaders: RawHeader[], body: string, } {
     const lines = rawText.split('\r\n')
 
     // Parse the request line (e.g., "POST /api/test HTTP/1.1" or "GET http://example.com/api/test HTTP/1.1")
@@ -145,7 +281,7 @@ export function parseRawRequest(rawText: string): { method: string, url: string,
     // Both formats are supported and stored as-is
 
     // Parse headers
-    const headers: Record<string, string> = {}
+    const rawHeaders: RawHeader[] = []
     let lineIndex = 1
     let foundEmptyLine = false
 
@@ -162,9 +298,7 @@ export function parseRawRequest(rawText: string): { method: string, url: string,
         // Parse header (e.g., "Content-Type: application/json")
         const headerMatch = line.match(/^([^:]+):\s*(.*)$/)
         if (headerMatch) {
-            const headerName = headerMatch[1].trim()
-            const headerValue = headerMatch[2].trim()
-            headers[headerName.toLowerCase()] = headerValue
+            rawHeaders.push([headerMatch[1].trim(), headerMatch[2].trim()])
         }
 
         lineIndex++
@@ -173,5 +307,5 @@ export function parseRawRequest(rawText: string): { method: string, url: string,
     // Parse body (everything after the empty line)
     const body = foundEmptyLine ? lines.slice(lineIndex).join('\r\n') : ''
 
-    return { method, url, headers, body }
+    return { method, url, headers: headersFromPairs(rawHeaders), rawHeaders, body }
 }
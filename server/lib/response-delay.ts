@@ -0,0 +1,111 @@
+import type { IncomingMessage, ServerResponse } from 'http'
+import type { ResponseDelayMode, Token } from '~~/shared/types'
+
+type DelayFields = Pick<Token, 'responseDelayMode' | 'responseDelayMs' | 'responseDelayMaxMs'>
+
+export const DELAY_MODES: ResponseDelayMode[] = ['none', 'fixed', 'random', 'hang']
+
+/**
+ * Upper bound for fixed and random delays, 10 minutes.
+ */
+export const MAX_RESPONSE_DELAY_MS = 10 * 60 * 1000
+
+const toDelayMs = (value: unknown, field: string): number => {
+    const ms = Number(value ?? 0)
+    if (!Number.isInteger(ms) || ms < 0 || ms > MAX_RESPONSE_DELAY_MS) {
+        throw new Error(`${field} must be an integer between 0 and ${MAX_RESPONSE_DELAY_MS}`)
+    }
+    return ms
+}
+
+/**
+ * Validate delay settings from a token update payload.
+ * Only keys present in the payload are returned.
+ *
+ * @param payload Raw request body.
+ *
+ * @throws Error if a field is invalid
+ * @returns Fields ready to be stored.
+ */
+export const normalizeDelayInput = (payload: Record<string, unknown>): Partial<DelayFields> => {
+    const out: Partial<DelayFields> = {}
+
+    if ('responseDelayMode' in payload) {
+        const mode = payload.responseDelayMode ?? 'none'
+        if (!DELAY_MODES.includes(mode as ResponseDelayMode)) {
+            throw new Error(`responseDelayMode must be one of ${DELAY_MODES.join(', ')}`)
+        }
+        out.responseDelayMode = mode as ResponseDelayMode
+    }
+
+    if ('responseDelayMs' in payload) {
+        out.responseDelayMs = toDelayMs(payload.responseDelayMs, 'responseDelayMs')
+    }
+
+    if ('responseDelayMaxMs' in payload) {
+        out.responseDelayMaxMs = toDelayMs(payload.responseDelayMaxMs, 'responseDelayMaxMs')
+    }
+
+    return out
+}
+
+/**
+ * Resolve how long to wait before responding.
+ *
+ * @param token Token delay settings.
+ *
+ * @returns Delay in milliseconds, `null` to hang until the client disconnects.
+ */
+export const resolveDelay = (token: DelayFields): number | null => {
+    switch (token.responseDelayMode) {
+        case 'fixed':
+            return Math.max(0, token.responseDelayMs)
+        case 'random': {
+            const min = Math.max(0, Math.min(token.responseDelayMs, token.responseDelayMaxMs))
+            const max = Math.max(token.responseDelayMs, token.responseDelayMaxMs)
+            return min + Math.floor(Math.random() * (max - min + 1))
+        }
+        case 'hang':
+            return null
+        default:
+            return 0
+    }
+}
+
+/**
+ * Wait for the configured response delay, returning early if the client goes away.
+ *
+ * @param token Token delay settings.
+ * @param req Incoming request.
+ * @param res Server response.
+ *
+ * @returns True if the client is still connected and the response should be written.
+ */
+export const waitForResponseDelay = async (token: DelayFields, req: IncomingMessage, res: ServerResponse): Promise<boolean> => {
+    const delay = resolveDelay(token)
+    if (0 === delay) {
+        return true
+    }
+
+    return await new Promise<boolean>(resolve => {
+        let timer: ReturnType<typeof setTimeout> | null = null
+
+        const onClose = () => {
+            if (timer) {
+                clearTimeout(timer)
+            }
+            resolve(false)
+        }
+
+        res.once('close', onClose)
+        req.socket?.once('close', onClose)
+
+        if (null !== delay) {
+            timer = setTimeout(() => {
+                res.off('close', onClose)
+                req.socket?.off('close', onClose)
+                resolve(!res.destroyed && !res.writableEnded)
+            }, delay)
+        }
+    })
+}
@@ -0,0 +1,70 @@
+/**
+ * Largest file accepted as a response body, 10 MiB.
+ */
+export const MAX_RESPONSE_FILE_BYTES = 10 * 1024 * 1024
+
+export type ResponseFileInput = { name: string | null, type: string | null, data: Buffer }
+
+const BASE64 = /^[A-Za-z0-9+/\s]*={0,2}\s*$/
+
+/**
+ * Validate a response file from a token update payload.
+ *
+ * `responseFile` is either null to remove the file, or `{ base64, filename?, contentType? }`.
+ * A data URL is accepted for `base64`, its media type is used when `contentType` is missing.
+ *
+ * @param payload Raw request body.
+ *
+ * @throws Error if the file is invalid
+ * @returns undefined when not present, null to remove the file, the decoded file otherwise.
+ */
+export const normalizeResponseFileInput = (payload: Record<string, unknown>): ResponseFileInput | null | undefined => {
+    if (!('responseFile' in payload)) {
+        return undefined
+    }
+
+    const input = payload.responseFile
+    if (null === input || undefined === input) {
+        return null
+    }
+
+    if ('object' !== typeof input || Array.isArray(input)) {
+        throw new Error('responseFile must be an object with a base64 field or null')
+    }
+
+    const { base64, filename, contentType } = input as Record<string, unknown>
+    if ('string' !== typeof base64 || !base64.trim()) {
+        throw new Error('responseFile.base64 is required')
+    }
+
+    let encoded = base64.trim()
+    let type = 'string' === typeof contentType && contentType.trim() ? contentType.trim() : null
+
+    const dataUrl = /^data:([^;,]*)(;[^,]*)?,/.exec(encoded)
+    if (dataUrl) {
+        if (!dataUrl[2]?.includes('base64')) {
+            throw new Error('responseFile.base64 data URLs must be base64 encoded')
+        }
+        type = type ?? (dataUrl[1] || null)
+        encoded = encoded.slice(dataUrl[0].length)
+    }
+
+    if (!BASE64.test(encoded)) {
+        throw new Error('responseFile.base64 is not valid base64')
+    }
+
+    const data = Buffer.from(encoded, 'base64')
+    if (!data.length) {
+        throw new Error('responseFile is empty')
+    }
+
+    if (data.length > MAX_RESPONSE_FILE_BYTES) {
+        throw new Error(`responseFile must be at most ${MAX_RESPONSE_FILE_BYTES} bytes`)
+    }
+
+    return {
+        name: 'string' === typeof filename && filename.trim() ? filename.trim().slice(0, 255) : null,
+        type,
+        data,
+    }
+}
@@ -0,0 +1,93 @@
+import type { ResponseRule, ResponseRuleConfig } from '~~/shared/types'
+import { parseConditions } from '~~/shared/rules'
+import { parseHeaders } from './utils'
+
+type RuleFields = Partial<Omit<ResponseRule, 'id' | 'tokenId' | 'position' | 'createdAt'>>
+
+const optionalString = (value: unknown): string | null => {
+    if (null === value || undefined === value) {
+        return null
+    }
+    const str = String(value).trim()
+    return str.length ? str : null
+}
+
+/**
+ * Convert a stored rule into its API representation.
+ *
+ * @param rule The stored rule.
+ *
+ * @returns Rule with parsed conditions and headers.
+ */
+export const toRuleConfig = (rule: ResponseRule): ResponseRuleConfig => {
+    const headers = parseHeaders(rule.responseHeaders) as Record<string, string>
+    return {
+        ...rule,
+        conditions: parseConditions(rule.conditions),
+        responseHeaders: Object.keys(headers).length ? headers : null,
+    }
+}
+
+/**
+ * Validate a rule create/update payload and convert it into database fields.
+ * Only keys present in the payload are returned.
+ *
+ * @param payload Raw request body.
+ *
+ * @throws Error if a field is invalid
+ * @returns Fields ready to be stored.
+ */
+export const normalizeRuleInput = (payload: Record<string, unknown>): RuleFields => {
+    const out: RuleFields = {}
+
+    if ('name' in payload) {
+        out.name = optionalString(payload.name)
+    }
+
+    if ('enabled' in payload) {
+        out.enabled = Boolean(payload.enabled)
+    }
+
+    if ('method' in payload) {
+        const method = optionalString(payload.method)
+        out.method = method ? method.toUpperCase() : null
+    }
+
+    if ('pathPattern' in payload) {
+        const pattern = optionalString(payload.pathPattern)
+        out.pathPattern = pattern && !pattern.startsWith('/') && !pattern.startsWith('*') ? `/${pattern}` : pattern
+    }
+
+    if ('conditions' in payload) {
+        if (null !== payload.conditions && undefined !== payload.conditions && !Array.isArray(payload.conditions)) {
+            throw new Error('conditions must be an array')
+        }
+        const conditions = parseConditions(payload.conditions ?? [])
+        out.conditions = conditions.length ? JSON.stringify(conditions) : null
+    }
+
+    if ('responseStatus' in payload) {
+        const status = Number(payload.responseStatus ?? 200)
+        if (!Number.isInteger(status) || status < 100 || status > 599) {
+            throw new Error('responseStatus must be an integer between 100 and 599')
+        }
+        out.responseStatus = status
+    }
+
+    if ('responseHeaders' in payload) {
+        const raw = payload.responseHeaders
+        const headers = 'string' === typeof raw ? parseHeaders(raw) : (raw ?? {})
+        if ('object' !== typeof headers || Array.isArray(headers)) {
+            throw new Error('responseHeaders must be an object')
+        }
+        const entries = Object.entries(headers as Record<string, unknown>).filter(([key]) => key.trim())
+        out.responseHeaders = entries.length ? JSON.stringify(Object.fromEntries(entries.map(([k, v]) => [k.trim(), String(v)]))) : null
+    }
+
+    if ('responseBody' in payload) {
+        const body = payload.responseBody
+        out.responseBody = null === body || undefined === body || '' === body ? null : String(body)
+    }
+
+    return out
+}
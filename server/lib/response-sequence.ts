@@ -0,0 +1,118 @@
+import type { ResponseSequenceMode, ResponseSequenceStep, Token } from '~~/shared/types'
+
+type SequenceFields = Pick<Token, 'responseSequence' | 'responseSequenceMode' | 'responseSequencePosition'>
+
+export const SEQUENCE_MODES: ResponseSequenceMode[] = ['loop', 'stick']
+
+/**
+ * Maximum number of steps in a sequence.
+ */
+export const MAX_SEQUENCE_STEPS = 100
+
+const toStep = (item: unknown, index: number): ResponseSequenceStep => {
+    if (!item || 'object' !== typeof item || Array.isArray(item)) {
+        throw new Error(`responseSequence[${index}] must be an object`)
+    }
+
+    const { status, headers, body } = item as Record<string, unknown>
+
+    const code = Number(status ?? 200)
+    if (!Number.isInteger(code) || code < 100 || code > 599) {
+        throw new Error(`responseSequence[${index}].status must be an integer between 100 and 599`)
+    }
+
+    if (null !== headers && undefined !== headers && ('object' !== typeof headers || Array.isArray(headers))) {
+        throw new Error(`responseSequence[${index}].headers must be an object`)
+    }
+
+    const entries = Object.entries((headers ?? {}) as Record<string, unknown>).filter(([key]) => key.trim())
+
+    return {
+        status: code,
+        headers: entries.length ? Object.fromEntries(entries.map(([k, v]) => [k.trim(), String(v)])) : null,
+        body: null === body || undefined === body || '' === body ? null : String(body),
+    }
+}
+
+/**
+ * Parse stored sequence steps.
+ *
+ * @param raw JSON string of steps.
+ *
+ * @returns Steps, empty if none are set or the value is invalid.
+ */
+export const parseSequence = (raw: string | null): ResponseSequenceStep[] => {
+    if (!raw) {
+        return []
+    }
+
+    try {
+        const parsed = JSON.parse(raw) as unknown
+        return Array.isArray(parsed) ? parsed.map(toStep) : []
+    } catch {
+        return []
+    }
+}
+
+/**
+ * Validate sequence settings from a token update payload.
+ * Only keys present in the payload are returned. Changing the steps or passing
+ * `responseSequenceReset: true` starts the sequence over.
+ *
+ * @param payload Raw request body.
+ * @param current Currently stored steps, used to detect changes.
+ *
+ * @throws Error if a field is invalid
+ * @returns Fields ready to be stored.
+ */
+export const normalizeSequenceInput = (payload: Record<string, unknown>, current: string | null = null): Partial<SequenceFields> => {
+    const out: Partial<SequenceFields> = {}
+
+    if ('responseSequence' in payload) {
+        const raw = payload.responseSequence
+        if (null !== raw && undefined !== raw && !Array.isArray(raw)) {
+            throw new Error('responseSequence must be an array')
+        }
+
+        const steps = (raw ?? []).map(toStep)
+        if (steps.length > MAX_SEQUENCE_STEPS) {
+            throw new Error(`responseSequence must have at most ${MAX_SEQUENCE_STEPS} steps`)
+        }
+
+        out.responseSequence = steps.length ? JSON.stringify(steps) : null
+        if (out.responseSequence !== current) {
+            out.responseSequencePosition = 0
+        }
+    }
+
+    if ('responseSequenceMode' in payload) {
+        const mode = payload.responseSequenceMode ?? 'stick'
+        if (!SEQUENCE_MODES.includes(mode as ResponseSequenceMode)) {
+            throw new Error(`responseSequenceMode must be one of ${SEQUENCE_MODES.join(', ')}`)
+        }
+        out.responseSequenceMode = mode as ResponseSequenceMode
+    }
+
+    if (true === payload.responseSequenceReset) {
+        out.responseSequencePosition = 0
+    }
+
+    return out
+}
+
+/**
+ * Map a sequence position to the step that answers it.
+ *
+ * @param position Requests answered so far.
+ * @param length Number of steps.
+ * @param mode What to do after the last step.
+ *
+ * @returns Step index, or -1 for an empty sequence.
+ */
+export const sequenceIndex = (position: number, length: number, mode: ResponseSequenceMode): number => {
+    if (length < 1) {
+        return -1
+    }
+
+    return 'loop' === mode ? position % length : Math.min(position, length - 1)
+}
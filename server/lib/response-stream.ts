@@ -0,0 +1,255 @@
+import type { IncomingMessage, ServerResponse } from 'http'
+import type { ResponseStreamChunk, ResponseStreamFormat, Token } from '~~/shared/types'
+
+type StreamFields = Pick<Token, 'responseStream' | 'responseStreamFormat' | 'responseStreamLoop'>
+
+export const STREAM_FORMATS: ResponseStreamFormat[] = ['sse', 'chunked']
+
+/**
+ * Maximum number of chunks in a stream.
+ */
+export const MAX_STREAM_CHUNKS = 500
+
+/**
+ * Longest wait before a single chunk, one minute.
+ */
+export const MAX_CHUNK_DELAY_MS = 60 * 1000
+
+/**
+ * Bytes of a streamed body kept in the response record, looping streams can go on for a long time.
+ */
+export const MAX_RECORDED_STREAM_BYTES = 1024 * 1024
+
+const toField = (value: unknown, field: string): string | null => {
+    if (null === value || undefined === value || '' === value) {
+        return null
+    }
+
+    const text = String(value)
+    if (/[\r\n]/.test(text)) {
+        throw new Error(`${field} must not contain line breaks`)
+    }
+
+    return text
+}
+
+const toChunk = (item: unknown, index: number): ResponseStreamChunk => {
+    if (!item || 'object' !== typeof item || Array.isArray(item)) {
+        throw new Error(`responseStream[${index}] must be an object`)
+    }
+
+    const { data, delayMs, event, id } = item as Record<string, unknown>
+
+    const delay = Number(delayMs ?? 0)
+    if (!Number.isInteger(delay) || delay < 0 || delay > MAX_CHUNK_DELAY_MS) {
+        throw new Error(`responseStream[${index}].delayMs must be an integer between 0 and ${MAX_CHUNK_DELAY_MS}`)
+    }
+
+    return {
+        data: null === data || undefined === data ? '' : String(data),
+        delayMs: delay,
+        event: toField(event, `responseStream[${index}].event`),
+        id: toField(id, `responseStream[${index}].id`),
+    }
+}
+
+/**
+ * Parse stored stream chunks.
+ *
+ * @param raw JSON string of chunks.
+ *
+ * @returns Chunks, empty if none are set or the value is invalid.
+ */
+export const parseStream = (raw: string | null): ResponseStreamChunk[] => {
+    if (!raw) {
+        return []
+    }
+
+    try {
+        const parsed = JSON.parse(raw) as unknown
+        return Array.isArray(parsed) ? parsed.map(toChunk) : []
+    } catch {
+        return []
+    }
+}
+
+/**
+ * Validate stream settings from a token update payload.
+ * Only keys present in the payload are returned. A looping stream needs at least one
+ * delayed chunk, otherwise it would write as fast as the connection allows.
+ *
+ * @param payload Raw request body.
+ * @param current Currently stored settings, used when the payload only changes part of them.
+ *
+ * @throws Error if a field is invalid
+ * @returns Fields ready to be stored.
+ */
+export const normalizeStreamInput = (payload: Record<string, unknown>, current: Pick<StreamFields, 'responseStream' | 'responseStreamLoop'> | null = null): Partial<StreamFields> => {
+    const out: Partial<StreamFields> = {}
+
+    if ('responseStream' in payload) {
+        const raw = payload.responseStream
+        if (null !== raw && undefined !== raw && !Array.isArray(raw)) {
+            throw new Error('responseStream must be an array')
+        }
+
+        const chunks = (raw ?? []).map(toChunk)
+        if (chunks.length > MAX_STREAM_CHUNKS) {
+            throw new Error(`responseStream must have at most ${MAX_STREAM_CHUNKS} chunks`)
+        }
+
+        out.responseStream = chunks.length ? JSON.stringify(chunks) : null
+    }
+
+    if ('responseStreamFormat' in payload) {
+        const format = payload.responseStreamFormat ?? 'sse'
+        if (!STREAM_FORMATS.includes(format as ResponseStreamFormat)) {
+            throw new Error(`responseStreamFormat must be one of ${STREAM_FORMATS.join(', ')}`)
+        }
+        out.responseStreamFormat = format as ResponseStreamFormat
+    }
+
+    if ('responseStreamLoop' in payload) {
+        if ('boolean' !== typeof payload.responseStreamLoop) {
+            throw new Error('responseStreamLoop must be a boolean')
+        }
+        out.responseStreamLoop = payload.responseStreamLoop
+    }
+
+    const loop = out.responseStreamLoop ?? current?.responseStreamLoop ?? false
+    const chunks = parseStream('responseStream' in out ? out.responseStream ?? null : current?.responseStream ?? null)
+    if (loop && chunks.length && !chunks.some(chunk => chunk.delayMs > 0)) {
+        throw new Error('responseStreamLoop needs at least one chunk with a delay')
+    }
+
+    return out
+}
+
+/**
+ * Encode a chunk for the wire. Server-sent events get one `data:` line per line of data.
+ *
+ * @param chunk Chunk to write.
+ * @param format Stream format.
+ *
+ * @returns Text to write.
+ */
+export const formatStreamChunk = (chunk: ResponseStreamChunk, format: ResponseStreamFormat): string => {
+    if ('chunked' === format) {
+        return chunk.data
+    }
+
+    const lines: string[] = []
+    if (chunk.event) {
+        lines.push(`event: ${chunk.event}`)
+    }
+    if (chunk.id) {
+        lines.push(`id: ${chunk.id}`)
+    }
+    for (const line of chunk.data.split(/\r?\n/)) {
+        lines.push(`data: ${line}`)
+    }
+
+    return lines.join('\n') + '\n\n'
+}
+
+const waitForChunk = (delay: number, req: IncomingMessage, res: ServerResponse): Promise<boolean> => {
+    if (res.destroyed || res.writableEnded) {
+        return Promise.resolve(false)
+    }
+
+    if (0 === delay) {
+        return Promise.resolve(true)
+    }
+
+    return new Promise<boolean>(resolve => {
+        const onClose = () => {
+            clearTimeout(timer)
+            resolve(false)
+        }
+
+        const timer = setTimeout(() => {
+            res.off('close', onClose)
+            req.socket?.off('close', onClose)
+            resolve(!res.destroyed && !res.writableEnded)
+        }, delay)
+
+        res.once('close', onClose)
+        req.socket?.once('close', onClose)
+    })
+}
+
+/**
+ * Wait until a full write buffer was flushed to the client, so a slow reader cannot make
+ * the chunks pile up in memory.
+ */
+const waitForDrain = (req: IncomingMessage, res: ServerResponse): Promise<boolean> => {
+    if (res.destroyed || res.writableEnded) {
+        return Promise.resolve(false)
+    }
+
+    return new Promise<boolean>(resolve => {
+        const done = (drained: boolean) => () => {
+            res.off('drain', onDrain)
+            res.off('close', onClose)
+            req.socket?.off('close', onClose)
+            resolve(drained)
+        }
+        const onDrain = done(true)
+        const onClose = done(false)
+
+        res.once('drain', onDrain)
+        res.once('close', onClose)
+        req.socket?.once('close', onClose)
+    })
+}
+
+/**
+ * Write the chunks one by one, waiting each chunk's delay first. Looping streams start over
+ * after the last chunk and only stop when the client disconnects. The response is ended
+ * once the stream is done.
+ *
+ * @param chunks Chunks to write.
+ * @param options Stream format and whether to loop.
+ * @param req Incoming request.
+ * @param res Server response, headers must already be set.
+ *
+ * @returns What was written, capped at MAX_RECORDED_STREAM_BYTES, and whether the stream ran to its end.
+ */
+export const writeStream = async (
+    chunks: ResponseStreamChunk[],
+    options: { format: ResponseStreamFormat, loop: boolean },
+    req: IncomingMessage,
+    res: ServerResponse,
+): Promise<{ body: Buffer, completed: boolean }> => {
+    const written: Buffer[] = []
+    let recorded = 0
+    // Without a delay a loop would never yield to notice the client leaving.
+    const loop = options.loop && chunks.some(chunk => chunk.delayMs > 0)
+
+    res.flushHeaders()
+
+    do {
+        for (const chunk of chunks) {
+            if (!(await waitForChunk(chunk.delayMs, req, res))) {
+                return { body: Buffer.concat(written), completed: false }
+            }
+
+            const data = Buffer.from(formatStreamChunk(chunk, options.format))
+            const flushed = res.write(data)
+
+            if (recorded < MAX_RECORDED_STREAM_BYTES) {
+                const kept = data.subarray(0, MAX_RECORDED_STREAM_BYTES - recorded)
+                written.push(kept)
+                recorded += kept.length
+            }
+
+            if (!flushed && !(await waitForDrain(req, res))) {
+                return { body: Buffer.concat(written), completed: false }
+            }
+        }
+    } while (loop)
+
+    res.end()
+
+    return { body: Buffer.concat(written), completed: true }
+}
@@ -0,0 +1,196 @@
+import type { Token } from '~~/shared/types'
+import { useKVStore } from './kv-store'
+
+type RetentionFields = Partial<Pick<Token, 'pinned' | 'requestTtlMinutes' | 'keepLastRequests'>>
+
+type RetainedToken = Pick<Token, 'pinned' | 'requestTtlMinutes' | 'keepLastRequests'>
+
+export type RetentionPolicy = {
+    sessionTtlDays: number
+    tokenTtlDays: number
+    requestTtlDays: number
+}
+
+type RetentionOverrides = Partial<RetentionPolicy>
+
+/**
+ * Built-in expiry used when neither the environment nor the admin API sets one.
+ */
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+    sessionTtlDays: 30,
+    tokenTtlDays: 30,
+    requestTtlDays: 7,
+}
+
+/**
+ * Longest accepted global expiry, ten years.
+ */
+export const MAX_RETENTION_DAYS = 3650
+
+const RETENTION_POLICY_KEY = 'retention:policy'
+
+const POLICY_ENV: Record<keyof RetentionPolicy, string> = {
+    sessionTtlDays: 'SESSION_TTL_DAYS',
+    tokenTtlDays: 'TOKEN_TTL_DAYS',
+    requestTtlDays: 'REQUEST_TTL_DAYS',
+}
+
+const POLICY_KEYS = Object.keys(POLICY_ENV) as (keyof RetentionPolicy)[]
+
+/**
+ * Longest accepted per-token request TTL, one year.
+ */
+export const MAX_REQUEST_TTL_MINUTES = 525600
+
+/**
+ * Largest accepted ring buffer size.
+ */
+export const MAX_KEEP_LAST_REQUESTS = 100000
+
+const toPositive = (value: unknown, name: string, max: number): number | null => {
+    if (null === value || undefined === value || '' === value) {
+        return null
+    }
+
+    const number = Number(value)
+    if (!Number.isInteger(number) || number < 1 || number > max) {
+        throw new Error(`${name} must be an integer between 1 and ${max} or null`)
+    }
+
+    return number
+}
+
+/**
+ * Validate retention settings from a token update payload.
+ *
+ * @param payload Raw request body.
+ *
+ * @throws Error if a field is invalid
+ * @returns Fields present in the payload, ready to be stored.
+ */
+export const normalizeRetentionInput = (payload: Record<string, unknown>): RetentionFields => {
+    const out: RetentionFields = {}
+
+    if ('pinned' in payload) {
+        if ('boolean' !== typeof payload.pinned) {
+            throw new Error('pinned must be a boolean')
+        }
+        out.pinned = payload.pinned
+    }
+
+    if ('requestTtlMinutes' in payload) {
+        out.requestTtlMinutes = toPositive(payload.requestTtlMinutes, 'requestTtlMinutes', MAX_REQUEST_TTL_MINUTES)
+    }
+
+    if ('keepLastRequests' in payload) {
+        out.keepLastRequests = toPositive(payload.keepLastRequests, 'keepLastRequests', MAX_KEEP_LAST_REQUESTS)
+    }
+
+    return out
+}
+
+/**
+ * Work out which of a token's requests to drop when a new one is stored.
+ * Pinning suspends the TTL but not the ring buffer, which the user asked for explicitly.
+ *
+ * @param token The token's retention settings.
+ * @param now Current time.
+ *
+ * @returns Cutoff and ring buffer size, null when nothing needs pruning.
+ */
+export const getPrunePolicy = (token: RetainedToken, now: Date = new Date()): { olderThan: Date | null, keepLast: number | null } | null => {
+    const olderThan = !token.pinned && token.requestTtlMinutes
+        ? new Date(now.getTime() - token.requestTtlMinutes * 60_000)
+        : null
+
+    if (!olderThan && !token.keepLastRequests) {
+        return null
+    }
+
+    return { olderThan, keepLast: token.keepLastRequests }
+}
+
+/**
+ * Read the global expiry from SESSION_TTL_DAYS, TOKEN_TTL_DAYS and REQUEST_TTL_DAYS.
+ * Invalid values are logged and replaced by the default rather than stopping the server.
+ *
+ * @param env Environment to read, defaults to process.env.
+ *
+ * @returns The policy from the environment.
+ */
+export const getEnvRetentionPolicy = (env: NodeJS.ProcessEnv = process.env): RetentionPolicy => {
+    const policy = { ...DEFAULT_RETENTION_POLICY }
+
+    for (const key of POLICY_KEYS) {
+        const name = POLICY_ENV[key]
+        try {
+            policy[key] = toPositive(env[name]?.trim(), name, MAX_RETENTION_DAYS) ?? policy[key]
+        } catch (error) {
+            console.warn(`[Retention] Ignoring ${name}: ${(error as Error).message}`)
+        }
+    }
+
+    return policy
+}
+
+/**
+ * Validate a global retention policy update.
+ *
+ * @param payload Raw request body.
+ *
+ * @throws Error if a field is invalid
+ * @returns Fields present in the payload, null clears an override.
+ */
+export const normalizeRetentionPolicyInput = (payload: Record<string, unknown>): Partial<Record<keyof RetentionPolicy, number | null>> => {
+    const out: Partial<Record<keyof RetentionPolicy, number | null>> = {}
+
+    for (const key of POLICY_KEYS) {
+        if (key in payload) {
+            out[key] = toPositive(payload[key], key, MAX_RETENTION_DAYS)
+        }
+    }
+
+    return out
+}
+
+/**
+ * Resolve the global retention policy. Overrides saved through the admin API win over the environment.
+ *
+ * @param dbFile Optional database file path for testing
+ *
+ * @returns The effective policy and the stored overrides.
+ */
+export const getRetentionPolicy = async (dbFile?: string): Promise<{ policy: RetentionPolicy, overrides: RetentionOverrides }> => {
+    const overrides = await useKVStore(dbFile).get<RetentionOverrides>(RETENTION_POLICY_KEY) || {}
+
+    return { policy: { ...getEnvRetentionPolicy(), ...overrides }, overrides }
+}
+
+/**
+ * Store global retention overrides, null removes an override so the environment applies again.
+ *
+ * @param changes Normalized fields from normalizeRetentionPolicyInput.
+ * @param dbFile Optional database file path for testing
+ *
+ * @returns The effective policy and the stored overrides.
+ */
+export const updateRetentionPolicy = async (changes: Partial<Record<keyof RetentionPolicy, number | null>>, dbFile?: string) => {
+    const kv = useKVStore(dbFile)
+    const stored = await kv.get<RetentionOverrides>(RETENTION_POLICY_KEY) || {}
+    const overrides: RetentionOverrides = {}
+
+    for (const key of POLICY_KEYS) {
+        const value = key in changes ? changes[key] : stored[key]
+        if (null !== value && undefined !== value) {
+            overrides[key] = value
+        }
+    }
+
+    if (Object.keys(overrides).length) {
+        await kv.set(RETENTION_POLICY_KEY, overrides)
+    } else {
+        await kv.delete(RETENTION_POLICY_KEY)
+    }
+
+    return getRetentionPolicy(dbFile)
+}
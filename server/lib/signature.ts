@@ -0,0 +1,273 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import type { SignatureResult, SignatureScheme, Token } from '~~/shared/types'
+
+export const SIGNATURE_SCHEMES: readonly SignatureScheme[] = ['hmac-sha256', 'hmac-sha1', 'github', 'stripe', 'slack', 'shopify', 'svix']
+
+/**
+ * Default seconds a signed timestamp may be off, matches Stripe, Slack and Svix.
+ */
+export const DEFAULT_SIGNATURE_TOLERANCE = 300
+
+/**
+ * Largest accepted tolerance, one day.
+ */
+export const MAX_SIGNATURE_TOLERANCE = 86400
+
+/**
+ * Digest header checked by the generic HMAC schemes when none is configured.
+ */
+export const DEFAULT_SIGNATURE_HEADER = 'x-signature'
+
+type SignatureConfig = Pick<Token, 'signatureScheme' | 'signatureSecret' | 'signatureHeader' | 'signatureTolerance'>
+
+type SignatureFields = Partial<Pick<Token, 'signatureScheme' | 'signatureSecret' | 'signatureHeader' | 'signatureTolerance'>>
+
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9a-z-]+$/i
+
+/**
+ * Validate signature settings from a token update payload.
+ *
+ * @param payload Raw request body.
+ *
+ * @throws Error if a field is invalid
+ * @returns Fields present in the payload, ready to be stored.
+ */
+export const normalizeSignatureInput = (payload: Record<string, unknown>): SignatureFields => {
+    const out: SignatureFields = {}
+
+    if ('signatureScheme' in payload) {
+        const scheme = payload.signatureScheme
+        if (null !== scheme && undefined !== scheme && '' !== scheme && !SIGNATURE_SCHEMES.includes(scheme as SignatureScheme)) {
+            throw new Error(`signatureScheme must be one of ${SIGNATURE_SCHEMES.join(', ')} or null`)
+        }
+        out.signatureScheme = (scheme || null) as SignatureScheme | null
+    }
+
+    if ('signatureSecret' in payload) {
+        const secret = payload.signatureSecret
+        if (null !== secret && undefined !== secret && 'string' !== typeof secret) {
+            throw new Error('signatureSecret must be a string or null')
+        }
+        out.signatureSecret = secret?.trim() || null
+    }
+
+    if ('signatureHeader' in payload) {
+        const header = payload.signatureHeader
+        if (null !== header && undefined !== header && 'string' !== typeof header) {
+            throw new Error('signatureHeader must be a string or null')
+        }
+        const name = header?.trim().toLowerCase() || null
+        if (name && !HEADER_NAME.test(name)) {
+            throw new Error('signatureHeader must be a valid header name')
+        }
+        out.signatureHeader = name
+    }
+
+    if ('signatureTolerance' in payload) {
+        const tolerance = Number(payload.signatureTolerance ?? DEFAULT_SIGNATURE_TOLERANCE)
+        if (!Number.isInteger(tolerance) || tolerance < 0 || tolerance > MAX_SIGNATURE_TOLERANCE) {
+            throw new Error(`signatureTolerance must be an integer between 0 and ${MAX_SIGNATURE_TOLERANCE}`)
+        }
+        out.signatureTolerance = tolerance
+    }
+
+    return out
+}
+
+const safeEqual = (a: string, b: string): boolean => {
+    const left = Buffer.from(a)
+    const right = Buffer.from(b)
+    return left.length === right.length && timingSafeEqual(left, right)
+}
+
+/**
+ * Check a signed timestamp against the server clock.
+ *
+ * @returns Why the timestamp is rejected, null when it is fine.
+ */
+const checkTimestamp = (timestamp: string | null, tolerance: number, now: number): string | null => {
+    if (!timestamp) {
+        return 'Missing signature timestamp'
+    }
+
+    const seconds = Number(timestamp)
+    if (!Number.isFinite(seconds)) {
+        return `Invalid signature timestamp "${timestamp}"`
+    }
+
+    const drift = Math.round(Math.abs(now / 1000 - seconds))
+    if (tolerance > 0 && drift > tolerance) {
+        return `Timestamp is ${drift}s away from the server clock, tolerance is ${tolerance}s`
+    }
+
+    return null
+}
+
+const compare = (
+    scheme: SignatureScheme,
+    expected: string,
+    received: string | null,
+    candidates: string[],
+    header: string,
+    rejected: string | null = null,
+): SignatureResult => {
+    if (!received) {
+        return { scheme, status: 'missing', expected, received: null, message: `Missing ${header} header` }
+    }
+
+    if (rejected) {
+        return { scheme, status: 'invalid', expected, received, message: rejected }
+    }
+
+    const valid = candidates.some(candidate => safeEqual(candidate, expected))
+    return { scheme, status: valid ? 'valid' : 'invalid', expected, received, message: valid ? null : 'Signature does not match' }
+}
+
+type Plan = {
+    algorithm: 'sha256' | 'sha1'
+    key: string | Buffer
+    prefix: string // Signed data that precedes the body
+    finish: (digest: Buffer) => SignatureResult
+}
+
+/**
+ * Work out what the scheme signs and how the digest is compared, everything but the body comes from headers.
+ */
+const planFor = (config: SignatureConfig, headers: Record<string, string>, now: number): Plan | null => {
+    const { signatureScheme: scheme, signatureSecret: secret } = config
+    if (!scheme || !secret) {
+        return null
+    }
+
+    const tolerance = config.signatureTolerance ?? DEFAULT_SIGNATURE_TOLERANCE
+    const header = (name: string): string | null => headers[name] || null
+
+    switch (scheme) {
+        case 'github': {
+            const received = header('x-hub-signature-256')
+            return {
+                algorithm: 'sha256', key: secret, prefix: '',
+                finish: digest => compare(scheme, `sha256=${digest.toString('hex')}`, received,
+                    received ? [received.toLowerCase()] : [], 'X-Hub-Signature-256'),
+            }
+        }
+
+        case 'shopify': {
+            const received = header('x-shopify-hmac-sha256')
+            return {
+                algorithm: 'sha256', key: secret, prefix: '',
+                finish: digest => compare(scheme, digest.toString('base64'), received, received ? [received] : [], 'X-Shopify-Hmac-Sha256'),
+            }
+        }
+
+        case 'slack': {
+            const timestamp = header('x-slack-request-timestamp')
+            const received = header('x-slack-signature')
+            return {
+                algorithm: 'sha256', key: secret, prefix: `v0:${timestamp ?? ''}:`,
+                finish: digest => compare(scheme, `v0=${digest.toString('hex')}`, received,
+                    received ? [received.toLowerCase()] : [], 'X-Slack-Signature', checkTimestamp(timestamp, tolerance, now)),
+            }
+        }
+
+        case 'stripe': {
+            // t=<timestamp>,v1=<hex>[,v1=<hex>], several v1 entries appear while a secret is rolled.
+            const received = header('stripe-signature')
+            const pairs = (received ?? '').split(',').map(pair => pair.trim().split('='))
+            const timestamp = pairs.find(([key]) => 't' === key)?.[1] ?? null
+            const candidates = pairs.filter(([key]) => 'v1' === key).map(([, value]) => value ?? '')
+            return {
+                algorithm: 'sha256', key: secret, prefix: `${timestamp ?? ''}.`,
+                finish: digest => compare(scheme, digest.toString('hex'), received, candidates, 'Stripe-Signature',
+                    received ? checkTimestamp(timestamp, tolerance, now) : null),
+            }
+        }
+
+        case 'svix': {
+            // Secrets look like whsec_<base64 key>, signatures like "v1,<base64> v1,<base64>".
+            const id = header('svix-id') ?? header('webhook-id')
+            const timestamp = header('svix-timestamp') ?? header('webhook-timestamp')
+            const received = header('svix-signature') ?? header('webhook-signature')
+            const candidates = (received ?? '').split(' ')
+                .map(entry => entry.split(','))
+                .filter(([version]) => 'v1' === version)
+                .map(([, value]) => value ?? '')
+            return {
+                algorithm: 'sha256', key: Buffer.from(secret.replace(/^whsec_/, ''), 'base64'), prefix: `${id ?? ''}.${timestamp ?? ''}.`,
+                finish: digest => compare(scheme, digest.toString('base64'), received, candidates, 'Svix-Signature',
+                    received ? checkTimestamp(timestamp, tolerance, now) : null),
+            }
+        }
+
+        default: {
+            const name = config.signatureHeader || DEFAULT_SIGNATURE_HEADER
+            const received = header(name)
+            const value = received?.replace(/^sha(1|256)=/i, '') ?? null
+            // Senders use either hex or base64, answer in the encoding that was received.
+            const isHex = !value || /^[0-9a-f]+$/i.test(value)
+            return {
+                algorithm: 'hmac-sha1' === scheme ? 'sha1' : 'sha256', key: secret, prefix: '',
+                finish: digest => compare(scheme, digest.toString(isHex ? 'hex' : 'base64'), received,
+                    value ? [isHex ? value.toLowerCase() : value] : [], name),
+            }
+        }
+    }
+}
+
+export type SignatureVerifier = {
+    update: (chunk: Buffer) => void
+    finish: () => SignatureResult
+}
+
+/**
+ * Create a verifier fed with the body as it streams in, so large bodies are never held in memory.
+ *
+ * @param config The token's signature settings.
+ * @param headers Request headers, lowercase keys.
+ * @param now Current time in milliseconds.
+ *
+ * @returns The verifier, null when the token has no scheme or secret.
+ */
+export const createSignatureVerifier = (
+    config: SignatureConfig,
+    headers: Record<string, string>,
+    now: number = Date.now(),
+): SignatureVerifier | null => {
+    const plan = planFor(config, headers, now)
+    if (!plan) {
+        return null
+    }
+
+    const hmac = createHmac(plan.algorithm, plan.key).update(plan.prefix)
+    return {
+        update: chunk => void hmac.update(chunk),
+        finish: () => plan.finish(hmac.digest()),
+    }
+}
+
+/**
+ * Verify the signature of a captured request with the token's scheme and secret.
+ *
+ * @param config The token's signature settings.
+ * @param headers Request headers, lowercase keys.
+ * @param body Raw request body.
+ * @param now Current time in milliseconds.
+ *
+ * @returns The result, null when the token has no scheme or secret.
+ */
+export const verifySignature = (
+    config: SignatureConfig,
+    headers: Record<string, string>,
+    body: Buffer | null,
+    now: number = Date.now(),
+): SignatureResult | null => {
+    const verifier = createSignatureVerifier(config, headers, now)
+    if (!verifier) {
+        return null
+    }
+
+    if (body) {
+        verifier.update(body)
+    }
+    return verifier.finish()
+}
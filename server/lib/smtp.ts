@@ -0,0 +1,531 @@
+import { createServer, type Server, type Socket } from 'net'
+import { randomUUID } from 'crypto'
+import type { Email, EmailAttachment, EmailSummary, Token } from '~~/shared/types'
+import { useDatabase } from './db'
+import { useServerEvents } from './events'
+import { checkIpPolicy, parseIpPolicy } from './ip-filter'
+import { parseEmail } from './mime'
+import { checkLimits, ingestRequest } from './request-ingestion'
+import { parseSize } from './request-body'
+import { isUUID } from './utils'
+
+/**
+ * Outcome of checking a recipient, a refusal is sent back as the SMTP reply.
+ */
+export type RecipientCheck = { ok: true } | { ok: false, code: number, message: string }
+
+/**
+ * Message accepted by the listener.
+ */
+export type SmtpMessage = {
+    id: string
+    mailFrom: string | null // Envelope sender, null for the null reverse-path <>
+    recipients: string[] // Envelope recipients that were accepted
+    data: Buffer // Message as received, dot-stuffing removed
+    remoteIp: string
+    helo: string | null
+}
+
+export type SmtpServerOptions = {
+    hostname: string
+    maxSize: number // Largest message accepted in bytes
+    checkRecipient: (address: string, remoteIp: string) => Promise<RecipientCheck>
+    onMessage: (message: SmtpMessage) => Promise<void>
+}
+
+/**
+ * Listener settings read from the environment.
+ */
+export type SmtpConfig = {
+    port: number
+    host: string
+    hostname: string
+    domain: string | null // Only recipients at this domain are accepted, any domain when null
+    maxSize: number
+}
+
+/**
+ * Size limit used when `SMTP_MAX_SIZE` is not set, messages are held in memory while parsed.
+ */
+export const DEFAULT_SMTP_MAX_SIZE = 25 * 1024 * 1024
+
+/**
+ * Recipients accepted per message.
+ */
+export const MAX_RECIPIENTS = 100
+
+/**
+ * Longest command line accepted, RFC 5321 allows 512 bytes but extensions add parameters.
+ */
+const MAX_LINE_LENGTH = 4096
+
+/**
+ * Connections idle for this long are closed.
+ */
+const IDLE_TIMEOUT_MS = 5 * 60 * 1000
+
+/**
+ * Read the SMTP listener settings. The listener only runs when `SMTP_ENABLED` is `true`.
+ *
+ * @param env Environment variables.
+ *
+ * @returns The settings, or null when disabled.
+ */
+export const getSmtpConfig = (env: NodeJS.ProcessEnv = process.env): SmtpConfig | null => {
+    if ('true' !== env.SMTP_ENABLED) {
+        return null
+    }
+
+    const port = Number(env.SMTP_PORT || 2525)
+    const domain = (env.SMTP_DOMAIN || '').trim().toLowerCase().replace(/^@/, '')
+
+    return {
+        port: Number.isInteger(port) && port > 0 && port < 65536 ? port : 2525,
+        host: env.SMTP_HOST || '0.0.0.0',
+        hostname: domain || 'localhost',
+        domain: domain || null,
+        maxSize: parseSize(env.SMTP_MAX_SIZE) || DEFAULT_SMTP_MAX_SIZE,
+    }
+}
+
+/**
+ * Extract the address from a `MAIL FROM:` or `RCPT TO:` argument.
+ *
+ * @param argument Text after the colon, e.g. `<user@example.com> SIZE=100`.
+ *
+ * @returns Address and parameters, address is empty for `<>`, null when malformed.
+ */
+export const parseAddressArgument = (argument: string): { address: string, params: Record<string, string> } | null => {
+    const match = /^\s*<([^<>]*)>\s*(.*)$/.exec(argument) ?? /^\s*([^\s<>]+)\s*(.*)$/.exec(argument)
+    if (!match) {
+        return null
+    }
+
+    const params: Record<string, string> = {}
+    for (const param of (match[2] ?? '').split(/\s+/).filter(Boolean)) {
+        const [key = '', value = ''] = param.split('=')
+        params[key.toUpperCase()] = value
+    }
+
+    // Source routes (@a,@b:user@host) are obsolete, only the mailbox counts.
+    return { address: (match[1] ?? '').replace(/^@[^:]+:/, '').trim(), params }
+}
+
+/**
+ * Remove the dot-stuffing added by the client (RFC 5321 4.5.2).
+ *
+ * @param data Message text, one character per byte.
+ *
+ * @returns Message text as sent.
+ */
+export const unstuffDots = (data: string): string => data.replace(/(^|\n)\.\./g, '$1.')
+
+const DATA_END = /(?:^|\r?\n)\.\r?\n/g
+
+/**
+ * Characters of the end marker that can arrive before the rest of it, `\r\n.\r` of `\r\n.\r\n`.
+ */
+const DATA_END_OVERLAP = 4
+
+const handleConnection = (socket: Socket, options: SmtpServerOptions): void => {
+    const remoteIp = socket.remoteAddress?.replace(/^::ffff:/, '') || '127.0.0.1'
+
+    let buffer = ''
+    // How far the message has been searched for its end marker.
+    let dataScanned = 0
+    let mode: 'command' | 'data' | 'auth-plain' | 'auth-login-user' | 'auth-login-pass' = 'command'
+    let helo: string | null = null
+    let mailFrom: string | null | undefined = undefined
+    let recipients: string[] = []
+    let processing = false
+    let closed = false
+
+    const reply = (code: number, ...lines: string[]) => {
+        if (closed) {
+            return
+        }
+        const text = lines.length ? lines : ['']
+        socket.write(text.map((line, i) => `${code}${i < text.length - 1 ? '-' : ' '}${line}`).join('\r\n') + '\r\n')
+    }
+
+    const resetTransaction = () => {
+        mailFrom = undefined
+        recipients = []
+    }
+
+    const finishData = async (raw: string) => {
+        mode = 'command'
+        const size = raw.length
+        const message: SmtpMessage = {
+            id: randomUUID(),
+            mailFrom: mailFrom ?? null,
+            recipients,
+            data: Buffer.from(unstuffDots(raw), 'latin1'),
+            remoteIp,
+            helo,
+        }
+        resetTransaction()
+
+        if (size > options.maxSize) {
+            reply(552, `Message exceeds the maximum size of ${options.maxSize} bytes`)
+            return
+        }
+
+        try {
+            await options.onMessage(message)
+            reply(250, `OK queued as ${message.id}`)
+        } catch (err) {
+            console.error('[SMTP] Failed to store message:', err)
+            reply(451, 'Local error in processing')
+        }
+    }
+
+    const handleCommand = async (line: string) => {
+        if ('auth-plain' === mode || 'auth-login-user' === mode || 'auth-login-pass' === mode) {
+            // Any credentials are accepted, the sink only records what it is sent.
+            mode = 'auth-login-user' === mode ? 'auth-login-pass' : 'command'
+            if ('auth-login-pass' === mode) {
+                reply(334, 'UGFzc3dvcmQ6')
+                return
+            }
+            reply(235, 'Authentication successful')
+            return
+        }
+
+        const match = /^([A-Za-z]+)(?:\s+(.*))?$/.exec(line.trim())
+        const verb = match?.[1]?.toUpperCase() ?? ''
+        const argument = match?.[2] ?? ''
+
+        switch (verb) {
+            case 'HELO':
+                helo = argument || null
+                resetTransaction()
+                reply(250, options.hostname)
+                return
+            case 'EHLO':
+                helo = argument || null
+                resetTransaction()
+                reply(250, options.hostname, `SIZE ${options.maxSize}`, '8BITMIME', 'SMTPUTF8', 'PIPELINING', 'AUTH PLAIN LOGIN', 'HELP')
+                return
+            case 'AUTH': {
+                const [mechanism = '', initial] = argument.split(/\s+/)
+                if ('PLAIN' === mechanism.toUpperCase()) {
+                    if (initial) {
+                        reply(235, 'Authentication successful')
+                        return
+                    }
+                    mode = 'auth-plain'
+                    reply(334, '')
+                    return
+                }
+                if ('LOGIN' === mechanism.toUpperCase()) {
+                    mode = initial ? 'auth-login-pass' : 'auth-login-user'
+                    reply(334, initial ? 'UGFzc3dvcmQ6' : 'VXNlcm5hbWU6')
+                    return
+                }
+                reply(504, 'Unrecognized authentication type')
+                return
+            }
+            case 'MAIL': {
+                const parsed = /^FROM:/i.test(argument) ? parseAddressArgument(argument.slice(5)) : null
+                if (!parsed) {
+                    reply(501, 'Syntax: MAIL FROM:<address>')
+                    return
+                }
+                if (undefined !== mailFrom) {
+                    reply(503, 'Sender already specified')
+                    return
+                }
+                if (Number(parsed.params.SIZE || 0) > options.maxSize) {
+                    reply(552, `Message exceeds the maximum size of ${options.maxSize} bytes`)
+                    return
+                }
+                mailFrom = parsed.address || null
+                reply(250, 'OK')
+                return
+            }
+            case 'RCPT': {
+                const parsed = /^TO:/i.test(argument) ? parseAddressArgument(argument.slice(3)) : null
+                if (undefined === mailFrom) {
+                    reply(503, 'Need MAIL command first')
+                    return
+                }
+                if (!parsed?.address) {
+                    reply(501, 'Syntax: RCPT TO:<address>')
+                    return
+                }
+                if (recipients.length >= MAX_RECIPIENTS) {
+                    reply(452, 'Too many recipients')
+                    return
+                }
+
+                const check = await options.checkRecipient(parsed.address, remoteIp)
+                if (!check.ok) {
+                    reply(check.code, check.message)
+                    return
+                }
+                recipients.push(parsed.address)
+                reply(250, 'OK')
+                return
+            }
+            case 'DATA':
+                if (undefined === mailFrom) {
+                    reply(503, 'Need MAIL command first')
+                    return
+                }
+                if (!recipients.length) {
+                    reply(554, 'No valid recipients')
+                    return
+                }
+                mode = 'data'
+                reply(354, 'End data with <CR><LF>.<CR><LF>')
+                return
+            case 'RSET':
+                resetTransaction()
+                reply(250, 'OK')
+                return
+            case 'NOOP':
+                reply(250, 'OK')
+                return
+            case 'VRFY':
+                reply(252, 'Cannot verify user, but will accept message')
+                return
+            case 'HELP':
+                reply(214, 'Commands: HELO EHLO AUTH MAIL RCPT DATA RSET NOOP VRFY QUIT')
+                return
+            case 'QUIT':
+                reply(221, 'Bye')
+                closed = true
+                socket.end()
+                return
+            default:
+                reply(500, 'Command not recognized')
+        }
+    }
+
+    // Commands are handled one at a time so pipelined clients get replies in order.
+    const drain = async () => {
+        if (processing) {
+            return
+        }
+        processing = true
+
+        try {
+            while (!closed) {
+                if ('data' === mode) {
+                    // The end marker may directly follow the 354 reply, so the start counts as a line break.
+                    // Only the text that arrived since the last search is scanned, with room for a split marker.
+                    DATA_END.lastIndex = Math.max(0, dataScanned - DATA_END_OVERLAP)
+                    const end = DATA_END.exec(buffer)
+                    if (!end) {
+                        dataScanned = buffer.length
+                        if (buffer.length > options.maxSize + MAX_LINE_LENGTH) {
+                            // Too large to hold until the end marker arrives, give up on the connection.
+                            buffer = ''
+                            dataScanned = 0
+                            reply(552, `Message exceeds the maximum size of ${options.maxSize} bytes`)
+                            closed = true
+                            socket.end()
+                        }
+                        return
+                    }
+
+                    const raw = buffer.slice(0, end.index) + (0 === end.index ? '' : '\r\n')
+                    buffer = buffer.slice(end.index + end[0].length)
+                    dataScanned = 0
+                    await finishData(raw)
+                    continue
+                }
+
+                const newline = buffer.indexOf('\n')
+                if (newline < 0) {
+                    if (buffer.length > MAX_LINE_LENGTH) {
+                        buffer = ''
+                        reply(500, 'Line too long')
+                    }
+                    return
+                }
+
+                const line = Buffer.from(buffer.slice(0, newline).replace(/\r$/, ''), 'latin1').toString('utf8')
+                buffer = buffer.slice(newline + 1)
+                await handleCommand(line)
+            }
+        } finally {
+            processing = false
+        }
+    }
+
+    socket.setTimeout(IDLE_TIMEOUT_MS, () => {
+        reply(421, `${options.hostname} Idle timeout, closing connection`)
+        closed = true
+        socket.end()
+    })
+    socket.on('data', chunk => {
+        buffer += chunk.toString('latin1')
+        drain().catch(err => {
+            console.error('[SMTP] Connection error:', err)
+            socket.destroy()
+        })
+    })
+    socket.on('error', () => {
+        closed = true
+    })
+    socket.on('close', () => {
+        closed = true
+    })
+
+    reply(220, `${options.hostname} ESMTP HTTP Inspector`)
+}
+
+/**
+ * Create a minimal SMTP server that accepts mail for the recipients the check allows.
+ * It supports what sending libraries use: EHLO, PIPELINING, SIZE, 8BITMIME and AUTH PLAIN/LOGIN
+ * with any credentials. TLS is not offered.
+ *
+ * @param options Hostname, size limit, recipient check and message handler.
+ *
+ * @returns The server, not yet listening.
+ */
+export const createSmtpServer = (options: SmtpServerOptions): Server => createServer(socket => handleConnection(socket, options))
+
+/**
+ * Shape a stored email for the API, attachment paths stay on the server.
+ *
+ * @param email Stored email.
+ *
+ * @returns The email with its JSON fields parsed.
+ */
+export const toEmailSummary = (email: Email): EmailSummary => ({
+    ...email,
+    envelopeTo: JSON.parse(email.envelopeTo) as string[],
+    attachments: (JSON.parse(email.attachments) as EmailAttachment[]).map(attachment => ({
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        size: attachment.size,
+        contentId: attachment.contentId,
+        inline: attachment.inline,
+    })),
+})
+
+/**
+ * Find the token a recipient address belongs to. The local part is the token's friendly ID,
+ * matched case-insensitively as mail clients may change its case, or its ID. A `+tag`
+ * suffix is ignored.
+ *
+ * @param address Recipient address.
+ * @param domain Only addresses at this domain are accepted, any domain when null.
+ *
+ * @returns The token, or null when the address matches none.
+ */
+export const findRecipientToken = async (address: string, domain: string | null): Promise<Token | null> => {
+    const at = address.lastIndexOf('@')
+    if (at < 1) {
+        return null
+    }
+
+    if (domain && address.slice(at + 1).toLowerCase() !== domain) {
+        return null
+    }
+
+    const local = address.slice(0, at).split('+')[0] ?? ''
+    if (!local) {
+        return null
+    }
+
+    const db = useDatabase()
+    if (isUUID(local)) {
+        const sessionId = await db.tokens.getSessionId(local.toLowerCase())
+        return sessionId ? await db.tokens.get(sessionId, local.toLowerCase()) : null
+    }
+
+    return await db.tokens.getByFriendlyId(local) ?? await db.tokens.getByHostLabel(local)
+}
+
+/**
+ * Apply a token's IP policy and limits to a recipient, like the payload endpoint does for requests.
+ *
+ * @param config Listener settings.
+ * @param address Recipient address.
+ * @param remoteIp Address of the sending server.
+ *
+ * @returns Whether the recipient is accepted.
+ */
+export const checkSmtpRecipient = async (config: Pick<SmtpConfig, 'domain'>, address: string, remoteIp: string): Promise<RecipientCheck> => {
+    const token = await findRecipientToken(address, config.domain)
+    if (!token) {
+        return { ok: false, code: 550, message: 'No such mailbox' }
+    }
+
+    const blocked = checkIpPolicy(parseIpPolicy(token.ipPolicy), remoteIp)
+    if (blocked) {
+        return { ok: false, code: 550, message: blocked }
+    }
+
+    const limited = await checkLimits(token)
+    if (limited) {
+        const rejectedCount = await useDatabase().tokens.recordRejection(token.id)
+        useServerEvents().publish(token.sessionId, 'request.rejected', { token: token.id, rejectedCount })
+        return { ok: false, code: 452, message: limited.message }
+    }
+
+    return { ok: true }
+}
+
+/**
+ * Store an accepted message as a request on every token it was addressed to.
+ * The request body is the raw message, the parsed form and attachments are stored with it.
+ *
+ * @param config Listener settings.
+ * @param message Accepted message.
+ */
+export const storeSmtpMessage = async (config: Pick<SmtpConfig, 'domain'>, message: SmtpMessage): Promise<void> => {
+    const byToken = new Map<string, { token: Token, recipients: string[] }>()
+    for (const address of message.recipients) {
+        const token = await findRecipientToken(address, config.domain)
+        if (!token) {
+            continue
+        }
+        const entry = byToken.get(token.id) ?? { token, recipients: [] }
+        entry.recipients.push(address)
+        byToken.set(token.id, entry)
+    }
+
+    if (!byToken.size) {
+        return
+    }
+
+    const parsed = parseEmail(message.data)
+    const headers: Record<string, string> = {}
+    for (const [key, value] of parsed.headers) {
+        headers[key] = key in headers ? `${headers[key]}, ${value}` : value
+    }
+
+    for (const { token, recipients } of byToken.values()) {
+        await ingestRequest(
+            token.sessionId,
+            token.id,
+            'SMTP',
+            headers,
+            message.data,
+            `mailto:${recipients[0]}`,
+            message.remoteIp,
+            null,
+            message.remoteIp,
+            { email: { from: message.mailFrom, to: recipients, message: parsed } },
+        )
+    }
+}
+
+/**
+ * Create the SMTP listener that captures mail sent to `<friendlyId>@<domain>` into tokens.
+ *
+ * @param config Listener settings.
+ *
+ * @returns The server, not yet listening.
+ */
+export const createSmtpSink = (config: SmtpConfig): Server => createSmtpServer({
+    hostname: config.hostname,
+    maxSize: config.maxSize,
+    checkRecipient: (address, remoteIp) => checkSmtpRecipient(config, address, remoteIp),
+    onMessage: message => storeSmtpMessage(config, message),
+})
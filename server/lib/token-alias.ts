@@ -0,0 +1,47 @@
+/**
+ * Vanity aliases replace a token's random `friendlyId`, giving it a stable, readable URL.
+ * Aliases are lowercase so they also work as the subdomain label of host routed requests.
+ */
+export const MIN_ALIAS_LENGTH = 3
+export const MAX_ALIAS_LENGTH = 32
+
+const ALIAS_PATTERN = /^[a-z0-9](?:[a-z0-9-]*[a-z0-9])?$/
+
+/**
+ * Names that would be confused with the application's own routes or common infrastructure hosts.
+ */
+export const RESERVED_ALIASES: ReadonlySet<string> = new Set([
+    'admin', 'api', 'app', 'assets', 'auth', 'dashboard', 'default', 'ftp', 'health', 'inspector',
+    'llm', 'localhost', 'login', 'logout', 'mail', 'payload', 'public', 'root', 'session', 'sessions',
+    'smtp', 'static', 'status', 'token', 'tokens', 'webhook', 'webhooks', 'ws', 'www',
+])
+
+/**
+ * Validate a requested alias.
+ *
+ * @param value Raw alias from the request body.
+ *
+ * @throws Error if the alias is malformed or reserved
+ * @returns The alias, trimmed and lowercased.
+ */
+export const normalizeAlias = (value: unknown): string => {
+    if ('string' !== typeof value) {
+        throw new Error('alias must be a string')
+    }
+
+    const alias = value.trim().toLowerCase()
+
+    if (alias.length < MIN_ALIAS_LENGTH || alias.length > MAX_ALIAS_LENGTH) {
+        throw new Error(`alias must be between ${MIN_ALIAS_LENGTH} and ${MAX_ALIAS_LENGTH} characters`)
+    }
+
+    if (!ALIAS_PATTERN.test(alias)) {
+        throw new Error('alias may only contain letters, digits and inner hyphens')
+    }
+
+    if (RESERVED_ALIASES.has(alias)) {
+        throw new Error(`alias "${alias}" is reserved`)
+    }
+
+    return alias
+}
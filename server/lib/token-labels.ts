@@ -0,0 +1,139 @@
+import type { Token, TokenSummary } from '~~/shared/types'
+
+export const MAX_NAME_LENGTH = 80
+export const MAX_DESCRIPTION_LENGTH = 1000
+export const MAX_TAGS = 10
+export const MAX_TAG_LENGTH = 32
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/
+
+const TAG_PATTERN = /^[a-z0-9][a-z0-9_.:-]*$/
+
+type TokenLabels = Partial<Pick<Token, 'name' | 'description' | 'color' | 'tags'>>
+
+const toText = (value: unknown, field: string, max: number): string | null => {
+    if (null !== value && undefined !== value && 'string' !== typeof value) {
+        throw new Error(`${field} must be a string or null`)
+    }
+
+    const text = value?.trim() || null
+    if (text && text.length > max) {
+        throw new Error(`${field} must be at most ${max} characters`)
+    }
+
+    return text
+}
+
+/**
+ * Validate a tag list, accepting an array or a comma-separated string.
+ *
+ * @param value Raw tags from the request body.
+ *
+ * @throws Error if a tag is invalid or there are too many
+ * @returns Lowercase tags without duplicates, in the order given.
+ */
+export const normalizeTags = (value: unknown): string[] => {
+    if (null === value || undefined === value || '' === value) {
+        return []
+    }
+
+    const items = 'string' === typeof value ? value.split(',') : value
+    if (!Array.isArray(items)) {
+        throw new Error('tags must be an array of strings or a comma-separated string')
+    }
+
+    const tags: string[] = []
+    for (const item of items) {
+        if ('string' !== typeof item) {
+            throw new Error('tags must be strings')
+        }
+
+        const tag = item.trim().toLowerCase()
+        if (!tag || tags.includes(tag)) {
+            continue
+        }
+
+        if (tag.length > MAX_TAG_LENGTH || !TAG_PATTERN.test(tag)) {
+            throw new Error(`tag "${tag}" must be up to ${MAX_TAG_LENGTH} letters, digits, ".", "_", ":" or "-"`)
+        }
+
+        tags.push(tag)
+    }
+
+    if (tags.length > MAX_TAGS) {
+        throw new Error(`a token can have at most ${MAX_TAGS} tags`)
+    }
+
+    return tags
+}
+
+/**
+ * Validate token labels from an update payload.
+ *
+ * @param payload Raw request body.
+ *
+ * @throws Error if a field is invalid
+ * @returns Fields present in the payload, ready to be stored.
+ */
+export const normalizeTokenLabelsInput = (payload: Record<string, unknown>): TokenLabels => {
+    const out: TokenLabels = {}
+
+    if ('name' in payload) {
+        out.name = toText(payload.name, 'name', MAX_NAME_LENGTH)
+    }
+
+    if ('description' in payload) {
+        out.description = toText(payload.description, 'description', MAX_DESCRIPTION_LENGTH)
+    }
+
+    if ('color' in payload) {
+        const color = toText(payload.color, 'color', 7)?.toLowerCase() ?? null
+        if (color && !COLOR_PATTERN.test(color)) {
+            throw new Error('color must be a hex colour such as #3b82f6')
+        }
+        out.color = color
+    }
+
+    if ('tags' in payload) {
+        const tags = normalizeTags(payload.tags)
+        out.tags = tags.length ? JSON.stringify(tags) : null
+    }
+
+    return out
+}
+
+/**
+ * Parse stored tags.
+ *
+ * @param value JSON string from the database.
+ *
+ * @returns The tags, empty when unset or invalid.
+ */
+export const parseTags = (value: string | null): string[] => {
+    if (!value) {
+        return []
+    }
+
+    try {
+        const parsed = JSON.parse(value)
+        return Array.isArray(parsed) ? parsed.filter((tag): tag is string => 'string' === typeof tag) : []
+    } catch {
+        return []
+    }
+}
+
+/**
+ * Describe a token for token.updated events.
+ *
+ * @param token Stored token.
+ *
+ * @returns Its friendly ID and labels, tags parsed.
+ */
+export const toTokenSummary = (token: Token): TokenSummary => ({
+    id: token.id,
+    friendlyId: token.friendlyId,
+    name: token.name,
+    description: token.description,
+    color: token.color,
+    tags: parseTags(token.tags),
+})
@@ -0,0 +1,285 @@
+import { isUtf8 } from 'buffer'
+import { IncomingMessage } from 'http'
+import type { defineWebSocket } from 'h3'
+import type { RawHeader, Token, WebSocketFrame, WebSocketReplyMode } from '~~/shared/types'
+import { headersFromPairs, pairRawHeaders } from '~~/shared/headers'
+import { createTemplateContext, renderTemplate } from '~~/shared/template'
+import { buildChallenge } from './auth-challenge'
+import { useDatabase } from './db'
+import { useServerEvents } from './events'
+import { checkIpPolicy, parseIpPolicy } from './ip-filter'
+import { checkLimits, ingestRequest, resolveClientIp, resolveProtocol } from './request-ingestion'
+import { isUUID } from './utils'
+
+type Hooks = Required<Parameters<typeof defineWebSocket>[0]>
+type Peer = Parameters<Hooks['open']>[0]
+type UpgradeRequest = Parameters<Hooks['upgrade']>[0]
+type Message = Parameters<Hooks['message']>[1]
+
+type WebSocketFields = Pick<Token, 'websocketReplyMode' | 'websocketReplyMessage'>
+
+type FrameInput = Omit<WebSocketFrame, 'id' | 'requestId' | 'createdAt'>
+
+/**
+ * What is kept on the peer between hooks.
+ */
+type PeerState = {
+    tokenId: string
+    sessionId: string
+    requestId: string
+    url: string
+    headers: Record<string, string>
+    queue?: Promise<void>
+}
+
+export const WEBSOCKET_REPLY_MODES: WebSocketReplyMode[] = ['none', 'echo', 'static', 'template']
+
+/**
+ * Bytes of a frame kept in the database, larger frames are truncated.
+ */
+export const MAX_FRAME_BYTES = 64 * 1024
+
+/**
+ * Longest auto-reply message accepted.
+ */
+export const MAX_REPLY_MESSAGE_LENGTH = 64 * 1024
+
+const WEBSOCKET_PATH = /^\/api\/payload\/([^/]+)\/ws\/?$/
+
+/**
+ * Validate WebSocket settings from a token update payload.
+ * Only keys present in the payload are returned. The static and template modes need a message.
+ *
+ * @param payload Raw request body.
+ * @param current Currently stored settings, used when the payload only changes part of them.
+ *
+ * @throws Error if a field is invalid
+ * @returns Fields ready to be stored.
+ */
+export const normalizeWebSocketInput = (payload: Record<string, unknown>, current: WebSocketFields | null = null): Partial<WebSocketFields> => {
+    const out: Partial<WebSocketFields> = {}
+
+    if ('websocketReplyMode' in payload) {
+        const mode = payload.websocketReplyMode ?? 'none'
+        if (!WEBSOCKET_REPLY_MODES.includes(mode as WebSocketReplyMode)) {
+            throw new Error(`websocketReplyMode must be one of ${WEBSOCKET_REPLY_MODES.join(', ')}`)
+        }
+        out.websocketReplyMode = mode as WebSocketReplyMode
+    }
+
+    if ('websocketReplyMessage' in payload) {
+        const message = payload.websocketReplyMessage
+        if (null !== message && undefined !== message && 'string' !== typeof message) {
+            throw new Error('websocketReplyMessage must be a string')
+        }
+        if (message && message.length > MAX_REPLY_MESSAGE_LENGTH) {
+            throw new Error(`websocketReplyMessage must be at most ${MAX_REPLY_MESSAGE_LENGTH} characters`)
+        }
+        out.websocketReplyMessage = message || null
+    }
+
+    const mode = out.websocketReplyMode ?? current?.websocketReplyMode ?? 'none'
+    const message = 'websocketReplyMessage' in out ? out.websocketReplyMessage : current?.websocketReplyMessage ?? null
+    if (('static' === mode || 'template' === mode) && !message) {
+        throw new Error(`websocketReplyMode ${mode} needs a websocketReplyMessage`)
+    }
+
+    return out
+}
+
+/**
+ * Describe a frame for storage. Payloads that are valid UTF-8 are kept as text, anything
+ * else as base64. Only the first MAX_FRAME_BYTES are kept.
+ *
+ * @param data Frame payload.
+ *
+ * @returns Frame fields without the direction.
+ */
+export const encodeFrame = (data: Buffer): Omit<FrameInput, 'direction'> => {
+    const kept = data.subarray(0, MAX_FRAME_BYTES)
+    // Cutting a text frame can split a character, so the whole payload decides the type.
+    const text = isUtf8(data)
+
+    return {
+        type: text ? 'text' : 'binary',
+        data: text ? kept.toString('utf8') : kept.toString('base64'),
+        size: data.length,
+        truncated: kept.length < data.length,
+        closeCode: null,
+    }
+}
+
+/**
+ * Work out the auto-reply to an inbound frame.
+ *
+ * @param token Token settings.
+ * @param data Inbound frame payload.
+ * @param handshake URL and headers of the handshake, available to templates.
+ *
+ * @returns The reply, or null when nothing is sent.
+ */
+export const buildReply = (
+    token: WebSocketFields,
+    data: Buffer,
+    handshake: { url: string, headers: Record<string, string> },
+): Buffer | string | null => {
+    switch (token.websocketReplyMode) {
+        case 'echo':
+            // Text goes back as a text frame, crossws only hands over the payload.
+            return isUtf8(data) ? data.toString('utf8') : data
+        case 'static':
+            return token.websocketReplyMessage ?? null
+        case 'template': {
+            if (!token.websocketReplyMessage) {
+                return null
+            }
+            const ctx = createTemplateContext('GET', handshake.url, handshake.headers, isUtf8(data) ? data.toString('utf8') : '')
+            return renderTemplate(token.websocketReplyMessage, ctx)
+        }
+        default:
+            return null
+    }
+}
+
+const toBuffer = (message: Message): Buffer => {
+    const raw = message.rawData
+    return Buffer.isBuffer(raw) ? raw : Buffer.from(message.uint8Array())
+}
+
+const stateOf = (peer: Peer): PeerState | null => {
+    const state = peer.context as Partial<PeerState>
+    return state.tokenId && state.sessionId && state.requestId ? state as PeerState : null
+}
+
+/**
+ * Run hook work for a peer in order. crossws does not wait for one hook before calling the
+ * next, so frames could otherwise be stored out of order.
+ */
+const enqueue = (state: PeerState, work: () => Promise<void>): Promise<void> => {
+    const next = (state.queue ?? Promise.resolve()).then(work).catch(err => {
+        console.warn('failed to capture websocket frame', err)
+    })
+    state.queue = next
+    return next
+}
+
+const storeFrame = async (state: PeerState, frame: FrameInput): Promise<void> => {
+    const stored = await useDatabase().frames.create(state.requestId, frame)
+    useServerEvents().publish(state.sessionId, 'websocket.frame', { token: state.tokenId, requestId: state.requestId, frame: stored })
+}
+
+/**
+ * The Node.js request behind an upgrade. crossws keeps it on the proxy it hands to the hook,
+ * other runtimes give a web Request without the socket or the headers as received.
+ */
+const nodeRequestOf = (request: UpgradeRequest): IncomingMessage | null => {
+    const req = (request as { _req?: unknown })._req
+    return req instanceof IncomingMessage ? req : null
+}
+
+const plainResponse = (status: number, body: string, headers: Record<string, string> = {}): Response => new Response(body, {
+    status,
+    headers: { 'Content-Type': 'text/plain; charset=utf-8', ...headers },
+})
+
+/**
+ * WebSocket hooks for `/api/payload/<token>/ws`. The handshake is captured as a request of
+ * the token, every frame in either direction is stored against it and published to the
+ * session's event stream. The token's IP policy, limits and credentials are applied before
+ * upgrading, a refused handshake is answered like a plain request.
+ */
+export const websocketHooks: Partial<Hooks> = {
+    upgrade: async request => {
+        const url = new URL(request.url, 'http://localhost')
+        const id = WEBSOCKET_PATH.exec(url.pathname)?.[1]
+        const db = useDatabase()
+
+        let token: Token | null = null
+        if (id && isUUID(id)) {
+            const sessionId = await db.tokens.getSessionId(id)
+            token = sessionId ? await db.tokens.get(sessionId, id) : null
+        } else if (id) {
+            token = await db.tokens.getByFriendlyId(id)
+        }
+
+        if (!token) {
+            return plainResponse(404, 'Not Found')
+        }
+
+        const nodeReq = nodeRequestOf(request)
+        const socketIp = nodeReq?.socket?.remoteAddress || '127.0.0.1'
+        const rawHeaders: RawHeader[] = nodeReq?.rawHeaders ? pairRawHeaders(nodeReq.rawHeaders) : [...request.headers]
+        const headers = headersFromPairs(rawHeaders)
+        const protocol = nodeReq ? resolveProtocol(nodeReq, headers) : undefined
+        const path = url.pathname + url.search
+
+        const ipPolicy = parseIpPolicy(token.ipPolicy)
+        const blocked = checkIpPolicy(ipPolicy, resolveClientIp(headers, socketIp))
+        if (blocked) {
+            if (ipPolicy.recordBlocked) {
+                await ingestRequest(token.sessionId, token.id, 'GET', headers, null, path, socketIp, null, null, { blocked: true, websocket: true, rawHeaders, protocol })
+            }
+            // crossws completes the upgrade for any 2xx answer, so anything but an error is refused with 403.
+            return plainResponse(ipPolicy.status >= 400 && ipPolicy.status <= 599 ? ipPolicy.status : 403, blocked)
+        }
+
+        const limited = await checkLimits(token)
+        if (limited) {
+            const rejectedCount = await db.tokens.recordRejection(token.id)
+            useServerEvents().publish(token.sessionId, 'request.rejected', { token: token.id, rejectedCount })
+            return plainResponse(429, limited.message, { 'Retry-After': String(limited.retryAfter) })
+        }
+
+        // Handshakes without valid credentials are kept for inspection but only get the challenge.
+        const created = await ingestRequest(token.sessionId, token.id, 'GET', headers, null, path, socketIp, null, null, { websocket: true, rawHeaders, protocol })
+        if (created.authStatus && 'passed' !== created.authStatus) {
+            return plainResponse(401, 'missing' === created.authStatus ? 'Authentication required' : 'Invalid credentials', {
+                'WWW-Authenticate': buildChallenge(token, created.authStatus),
+            })
+        }
+
+        const state: PeerState = {
+            tokenId: token.id,
+            sessionId: token.sessionId,
+            requestId: created.id,
+            url: path,
+            headers,
+        }
+        Object.assign(request.context, state)
+    },
+
+    message: async (peer, message) => {
+        const state = stateOf(peer)
+        if (!state) {
+            return
+        }
+
+        const data = toBuffer(message)
+
+        await enqueue(state, async () => {
+            await storeFrame(state, { direction: 'inbound', ...encodeFrame(data) })
+
+            // Read the settings for every frame so changes apply to open connections.
+            const token = await useDatabase().tokens.get(state.sessionId, state.tokenId)
+            const reply = token ? buildReply(token, data, state) : null
+            if (null === reply) {
+                return
+            }
+
+            peer.send(reply)
+            await storeFrame(state, { direction: 'outbound', ...encodeFrame(Buffer.isBuffer(reply) ? reply : Buffer.from(reply)) })
+        })
+    },
+
+    close: async (peer, details) => {
+        const state = stateOf(peer)
+        if (!state) {
+            return
+        }
+
+        await enqueue(state, async () => {
+            const reason = details.reason ?? ''
+            await storeFrame(state, { direction: 'inbound', type: 'close', data: reason, size: Buffer.byteLength(reason), truncated: false, closeCode: details.code ?? null })
+        })
+    },
+}
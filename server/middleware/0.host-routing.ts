@@ -0,0 +1,30 @@
+import { defineEventHandler, getRequestHost, type H3Event, type EventHandlerRequest } from 'h3'
+import { useDatabase } from '../lib/db'
+import { getPayloadHostDomain, tokenLabelFromHost } from '../lib/host-routing'
+import payloadHandler from '../api/payload/[token]'
+
+/**
+ * Route `<friendlyId>.<PAYLOAD_HOST_DOMAIN>/anything` to the token's payload endpoint.
+ * Runs before the other middleware so the login check never sees host routed requests,
+ * hosts that match no token fall through to normal routing.
+ */
+export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) => {
+  const domain = getPayloadHostDomain()
+  if (!domain) {
+    return
+  }
+
+  const trustProxy = 'true' === process.env.TRUST_PROXY_CLIENT_IP
+  const label = tokenLabelFromHost(getRequestHost(event, { xForwardedHost: trustProxy }), domain)
+  if (!label) {
+    return
+  }
+
+  const token = await useDatabase().tokens.getByHostLabel(label)
+  if (!token) {
+    return
+  }
+
+  event.context.params = { ...event.context.params, token: token.id }
+  return payloadHandler(event)
+})
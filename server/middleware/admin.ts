@@ -0,0 +1,38 @@
+import { defineEventHandler, createError, getHeader, type H3Event } from 'h3'
+import { createHash, timingSafeEqual } from 'crypto'
+
+const digest = (value: string) => createHash('sha256').update(value).digest()
+
+/**
+ * Middleware guarding the /api/admin/* routes
+ *
+ * The routes are hidden unless ADMIN_TOKEN is set, and every call must send it
+ * as `Authorization: Bearer <token>`. The login cookie is not accepted, as any
+ * logged in user shares the same account.
+ */
+export default defineEventHandler((event: H3Event) => {
+  const path = event.path || event.node.req.url || ''
+
+  if (!path.startsWith('/api/admin')) {
+    return
+  }
+
+  const adminToken = process.env.ADMIN_TOKEN?.trim()
+
+  if (!adminToken) {
+    throw createError({
+      statusCode: 404,
+      message: 'Not Found',
+    })
+  }
+
+  const header = getHeader(event, 'authorization') || ''
+  const provided = header.toLowerCase().startsWith('bearer ') ? header.slice(7).trim() : ''
+
+  if (!provided || false === timingSafeEqual(digest(provided), digest(adminToken))) {
+    throw createError({
+      statusCode: 401,
+      message: 'Unauthorized - A valid admin token is required',
+    })
+  }
+})
@@ -23,6 +23,7 @@ export default defineEventHandler(async (event: H3Event<EventHandlerRequest>) =>
     '/web-app-manifest-192x192.png',
     '/api/payload/',
     '/api/llm',
+    '/api/admin/',
     '/api/auth/',
     '/login',
   ]
@@ -0,0 +1,32 @@
+import { createSmtpSink, getSmtpConfig } from '../lib/smtp'
+
+/**
+ * Nitro plugin that starts the SMTP listener capturing email into tokens
+ *
+ * Configuration:
+ * - SMTP_ENABLED: Set to 'true' to start the listener (default: false)
+ * - SMTP_PORT: Port to listen on (default: 2525)
+ * - SMTP_HOST: Address to bind to (default: 0.0.0.0)
+ * - SMTP_DOMAIN: Only accept mail for this domain (default: any domain)
+ * - SMTP_MAX_SIZE: Largest message accepted (default: 25m)
+ */
+export default defineNitroPlugin(() => {
+  const config = getSmtpConfig()
+  if (!config) {
+    return
+  }
+
+  const server = createSmtpSink(config)
+
+  server.on('error', (error) => console.error('[SMTP] Listener failed:', error))
+  server.listen(config.port, config.host, () => {
+    console.log(`[SMTP] Listening on ${config.host}:${config.port} for mail to <token>@${config.domain ?? '<any domain>'}`)
+  })
+
+  // Stop accepting connections when the server shuts down
+  if (typeof process !== 'undefined' && process.on) {
+    process.on('exit', () => {
+      server.close()
+    })
+  }
+})
@@ -71,3 +71,22 @@ export const detectBinaryBody = (body: Uint8Array | null | undefined, contentTyp
 
   return false === isTextContentType(contentType) && controlCount > 0
 }
+
+/**
+ * Content codings a stored body can be decoded from for preview.
+ */
+export const DECODABLE_ENCODINGS = ['gzip', 'x-gzip', 'deflate', 'br', 'zstd']
+
+/**
+ * Read the codings listed in a `Content-Encoding` header, in the order they were applied.
+ * `identity` changes nothing and is left out.
+ */
+export const parseContentEncoding = (value: string | null | undefined): string[] => (value ?? '')
+  .split(',')
+  .map(coding => coding.trim().toLowerCase())
+  .filter(coding => coding && 'identity' !== coding)
+
+/**
+ * Whether a body sent with these codings can be decoded for preview.
+ */
+export const isDecodableEncoding = (codings: string[]): boolean => 0 < codings.length && codings.every(coding => DECODABLE_ENCODINGS.includes(coding))
@@ -0,0 +1,74 @@
+import type { RawHeader, Request } from '~~/shared/types'
+
+/**
+ * Headers Node.js keeps only the first value of when they are repeated.
+ */
+const SINGLE_VALUE_HEADERS = new Set([
+  'age', 'authorization', 'content-length', 'content-type', 'etag', 'expires', 'from', 'host',
+  'if-modified-since', 'if-unmodified-since', 'last-modified', 'location', 'max-forwards',
+  'proxy-authorization', 'referer', 'retry-after', 'server', 'user-agent',
+])
+
+/**
+ * Pair up the flat `[name, value, name, value, …]` list Node.js exposes as `rawHeaders`.
+ *
+ * @param flat Names and values in received order.
+ *
+ * @returns Name/value pairs with the names as sent.
+ */
+export const pairRawHeaders = (flat: string[]): RawHeader[] => {
+  const pairs: RawHeader[] = []
+  for (let i = 0; i + 1 < flat.length; i += 2) {
+    pairs.push([flat[i]!, flat[i + 1]!])
+  }
+  return pairs
+}
+
+/**
+ * Derive the header map stored as `headers` from the headers as received, the way Node.js
+ * builds `req.headers`: names are lowercased, repeated cookies are joined with `; `, other
+ * repeated headers with `, ` unless only their first value counts.
+ *
+ * @param pairs Name/value pairs in received order.
+ *
+ * @returns Header map keyed by lowercased name.
+ */
+export const headersFromPairs = (pairs: RawHeader[]): Record<string, string> => {
+  const out: Record<string, string> = {}
+
+  for (const [rawName, value] of pairs) {
+    const name = rawName.toLowerCase()
+    if (!(name in out)) {
+      out[name] = value
+      continue
+    }
+
+    if (SINGLE_VALUE_HEADERS.has(name)) {
+      continue
+    }
+
+    // set-cookie keeps the separator the payload endpoint always used.
+    out[name] += 'cookie' === name ? `; ${value}` : 'set-cookie' === name ? `,${value}` : `, ${value}`
+  }
+
+  return out
+}
+
+/**
+ * Headers of a stored request in received order. Requests stored before the order was kept,
+ * and ones not received over HTTP, fall back to the header map.
+ *
+ * @param request Stored request.
+ *
+ * @returns Name/value pairs.
+ */
+export const getRawHeaders = (request: Pick<Request, 'headers' | 'rawHeaders'>): RawHeader[] => {
+  try {
+    if (request.rawHeaders) {
+      return JSON.parse(request.rawHeaders) as RawHeader[]
+    }
+    return Object.entries(JSON.parse(request.headers) as Record<string, unknown>).map(([key, value]): RawHeader => [key, String(value)])
+  } catch {
+    return []
+  }
+}
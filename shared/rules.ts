@@ -0,0 +1,212 @@
+import type { RuleCondition } from '~~/shared/types'
+import type { TemplateContext } from '~~/shared/template'
+
+/**
+ * Minimal rule shape needed for matching, satisfied by both the database row and the API config.
+ */
+export interface MatchableRule {
+  enabled: boolean
+  method: string | null
+  pathPattern: string | null
+  conditions: RuleCondition[] | string | null
+}
+
+const PAYLOAD_PREFIX = /^\/api\/payload\/[^/?#]+/
+
+const OPERATORS: RuleCondition['operator'][] = ['equals', 'contains', 'regex', 'exists', 'missing']
+const SOURCES: RuleCondition['source'][] = ['query', 'header', 'body']
+
+/**
+ * Extract the part of a payload URL path after the token segment.
+ *
+ * @param url Request URL or path.
+ *
+ * @returns The sub-path, always starting with `/`.
+ */
+export const extractSubPath = (url: string): string => {
+  let pathname = url
+  try {
+    pathname = new URL(url, 'http://localhost').pathname
+  } catch {
+    pathname = url.split('?')[0] ?? url
+  }
+
+  const rest = pathname.replace(PAYLOAD_PREFIX, '')
+  if (!rest || '/' === rest) {
+    return '/'
+  }
+
+  return rest.startsWith('/') ? rest : `/${rest}`
+}
+
+/**
+ * Convert a path glob into a regular expression.
+ * `*` matches within a segment, `**` matches across segments and `?` matches one character.
+ *
+ * @param pattern The glob pattern.
+ *
+ * @returns Anchored regular expression.
+ */
+export const globToRegExp = (pattern: string): RegExp => {
+  let out = ''
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i] as string
+    if ('*' === char) {
+      if ('*' === pattern[i + 1]) {
+        out += '.*'
+        i++
+      } else {
+        out += '[^/]*'
+      }
+    } else if ('?' === char) {
+      out += '[^/]'
+    } else {
+      out += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${out}$`)
+}
+
+/**
+ * Parse and validate rule conditions from JSON or an array.
+ *
+ * @param raw JSON string or array of conditions.
+ *
+ * @returns Valid conditions, invalid entries are dropped.
+ */
+export const parseConditions = (raw: unknown): RuleCondition[] => {
+  let list: unknown = raw
+  if ('string' === typeof raw) {
+    try {
+      list = JSON.parse(raw)
+    } catch {
+      return []
+    }
+  }
+
+  if (!Array.isArray(list)) {
+    return []
+  }
+
+  const out: RuleCondition[] = []
+  for (const item of list) {
+    if (!item || 'object' !== typeof item) {
+      continue
+    }
+    const { source, key, operator, value } = item as Record<string, unknown>
+    if (!SOURCES.includes(source as RuleCondition['source']) || 'string' !== typeof key || !key.trim()) {
+      continue
+    }
+    if (!OPERATORS.includes(operator as RuleCondition['operator'])) {
+      continue
+    }
+    out.push({
+      source: source as RuleCondition['source'],
+      key: key.trim(),
+      operator: operator as RuleCondition['operator'],
+      ...(undefined !== value && null !== value ? { value: String(value) } : {}),
+    })
+  }
+  return out
+}
+
+const lookup = (condition: RuleCondition, ctx: TemplateContext): string | undefined => {
+  if ('query' === condition.source) {
+    return ctx.query[condition.key]
+  }
+
+  if ('header' === condition.source) {
+    return ctx.headers[condition.key.toLowerCase()]
+  }
+
+  let current: unknown = ctx.json
+  for (const segment of condition.key.replace(/\[(\d+)\]/g, '.$1').split('.').filter(Boolean)) {
+    if (null === current || 'object' !== typeof current) {
+      return undefined
+    }
+    current = (current as Record<string, unknown>)[segment]
+  }
+
+  if (undefined === current) {
+    return undefined
+  }
+
+  return null !== current && 'object' === typeof current ? JSON.stringify(current) : String(current)
+}
+
+/**
+ * Evaluate a single condition.
+ *
+ * @param condition The condition.
+ * @param ctx Request context.
+ *
+ * @returns True if the condition holds.
+ */
+export const matchesCondition = (condition: RuleCondition, ctx: TemplateContext): boolean => {
+  const actual = lookup(condition, ctx)
+
+  switch (condition.operator) {
+    case 'exists':
+      return undefined !== actual
+    case 'missing':
+      return undefined === actual
+    case 'equals':
+      return undefined !== actual && actual === (condition.value ?? '')
+    case 'contains':
+      return undefined !== actual && actual.includes(condition.value ?? '')
+    case 'regex':
+      try {
+        return undefined !== actual && new RegExp(condition.value ?? '').test(actual)
+      } catch {
+        return false
+      }
+    default:
+      return false
+  }
+}
+
+/**
+ * Check whether a rule matches a request.
+ *
+ * @param rule The rule.
+ * @param ctx Request context.
+ * @param subPath Request path relative to the payload URL.
+ *
+ * @returns True if every configured criterion matches.
+ */
+export const matchesRule = (rule: MatchableRule, ctx: TemplateContext, subPath: string): boolean => {
+  if (!rule.enabled) {
+    return false
+  }
+
+  if (rule.method) {
+    const methods = rule.method.split(',').map(m => m.trim().toUpperCase()).filter(Boolean)
+    if (methods.length && !methods.includes('*') && !methods.includes(ctx.method)) {
+      return false
+    }
+  }
+
+  if (rule.pathPattern && !globToRegExp(rule.pathPattern).test(subPath)) {
+    return false
+  }
+
+  return parseConditions(rule.conditions).every(condition => matchesCondition(condition, ctx))
+}
+
+/**
+ * Find the first matching rule.
+ *
+ * @param rules Rules in evaluation order.
+ * @param ctx Request context.
+ * @param subPath Request path relative to the payload URL.
+ *
+ * @returns The first matching rule or null.
+ */
+export const findMatchingRule = <T extends MatchableRule>(rules: T[], ctx: TemplateContext, subPath: string): T | null => {
+  for (const rule of rules) {
+    if (matchesRule(rule, ctx, subPath)) {
+      return rule
+    }
+  }
+  return null
+}
@@ -0,0 +1,235 @@
+/**
+ * Response templating
+ *
+ * Renders `{{ expression }}` placeholders inside response bodies and header values
+ * using data from the incoming request. Shared between the payload route and the
+ * response settings preview so both produce the same output.
+ *
+ * Supported expressions:
+ * - `request.method`, `request.url`, `request.path`, `request.body`
+ * - `request.query.<name>`, `request.headers.<name>`
+ * - `request.body.<field.path>` (JSON bodies only)
+ * - `uuid`, `now` (ISO 8601), `timestamp` (unix seconds)
+ *
+ * Fallbacks use `??` with a quoted string, e.g. `{{ request.query.id ?? "none" }}`.
+ * Filters are appended with `|`: `json`, `upper`, `lower`, `urlencode`.
+ *
+ * Expressions that do not reference a known root are left untouched.
+ */
+
+export interface TemplateContext {
+  method: string
+  url: string
+  path: string
+  query: Record<string, string>
+  headers: Record<string, string>
+  body: string
+  json: unknown
+}
+
+const EXPRESSION = /\{\{\s*([\s\S]+?)\s*\}\}/g
+const HEAD = /^([A-Za-z0-9_.\-[\]]+)(?:\s*\?\?\s*(["'])([\s\S]*)\2)?$/
+
+const FILTERS: Record<string, (value: string) => string> = {
+  json: value => JSON.stringify(value),
+  upper: value => value.toUpperCase(),
+  lower: value => value.toLowerCase(),
+  urlencode: value => encodeURIComponent(value),
+}
+
+const NOT_FOUND = Symbol('not-found')
+
+/**
+ * Build a template context from request data.
+ *
+ * @param method HTTP method.
+ * @param url Request URL, either a path or an absolute URL.
+ * @param headers Request headers.
+ * @param body Request body as text.
+ *
+ * @returns The template context.
+ */
+export const createTemplateContext = (
+  method: string,
+  url: string,
+  headers: Record<string, string>,
+  body: string | null,
+): TemplateContext => {
+  let path = url
+  const query: Record<string, string> = {}
+
+  try {
+    const parsed = new URL(url, 'http://localhost')
+    path = parsed.pathname
+    for (const [key, value] of parsed.searchParams.entries()) {
+      if (!(key in query)) {
+        query[key] = value
+      }
+    }
+  } catch {
+    // keep the raw url as path
+  }
+
+  const normalizedHeaders: Record<string, string> = {}
+  for (const [key, value] of Object.entries(headers || {})) {
+    normalizedHeaders[key.toLowerCase()] = String(value)
+  }
+
+  let json: unknown = undefined
+  if (body) {
+    try {
+      json = JSON.parse(body)
+    } catch {
+      json = undefined
+    }
+  }
+
+  return { method: method.toUpperCase(), url, path, query, headers: normalizedHeaders, body: body ?? '', json }
+}
+
+const walk = (value: unknown, segments: string[]): unknown => {
+  let current: unknown = value
+  for (const segment of segments) {
+    if (null === current || 'object' !== typeof current) {
+      return undefined
+    }
+    current = (current as Record<string, unknown>)[segment]
+  }
+  return current
+}
+
+const resolve = (path: string, ctx: TemplateContext): unknown => {
+  const segments = path.replace(/\[(\d+)\]/g, '.$1').split('.').filter(Boolean)
+  const [root, ...rest] = segments
+
+  if ('uuid' === root && !rest.length) {
+    return globalThis.crypto.randomUUID()
+  }
+
+  if ('now' === root && !rest.length) {
+    return new Date().toISOString()
+  }
+
+  if ('timestamp' === root && !rest.length) {
+    return String(Math.floor(Date.now() / 1000))
+  }
+
+  if ('request' !== root || !rest.length) {
+    return NOT_FOUND
+  }
+
+  const [field, ...tail] = rest
+
+  switch (field) {
+    case 'method':
+    case 'url':
+    case 'path':
+      return tail.length ? NOT_FOUND : ctx[field]
+    case 'query':
+      return tail.length ? ctx.query[tail.join('.')] : ctx.query
+    case 'headers':
+      return tail.length ? ctx.headers[tail.join('.').toLowerCase()] : ctx.headers
+    case 'body':
+      return tail.length ? walk(ctx.json, tail) : ctx.body
+    default:
+      return NOT_FOUND
+  }
+}
+
+const splitFilters = (expression: string): string[] => {
+  const parts: string[] = []
+  let quote: string | null = null
+  let current = ''
+
+  for (const char of expression) {
+    if (quote) {
+      quote = char === quote ? null : quote
+    } else if ('"' === char || "'" === char) {
+      quote = char
+    } else if ('|' === char) {
+      parts.push(current.trim())
+      current = ''
+      continue
+    }
+    current += char
+  }
+
+  parts.push(current.trim())
+  return parts
+}
+
+const stringify = (value: unknown): string => {
+  if (undefined === value || null === value) {
+    return ''
+  }
+  return 'object' === typeof value ? JSON.stringify(value) : String(value)
+}
+
+/**
+ * Check whether a template reads the request body, so it only has to be loaded when used.
+ *
+ * @param template The template source.
+ *
+ * @returns True when an expression starts with `request.body`.
+ */
+export const referencesBody = (template: string | null | undefined): boolean => {
+  if (!template || !template.includes('{{')) {
+    return false
+  }
+
+  for (const [, expression = ''] of template.matchAll(EXPRESSION)) {
+    if (/^request\.body(?![\w-])/.test(expression.trim())) {
+      return true
+    }
+  }
+  return false
+}
+
+/**
+ * Render a template string against a request context.
+ *
+ * @param template The template source.
+ * @param ctx The request context.
+ *
+ * @returns The rendered string.
+ */
+export const renderTemplate = (template: string, ctx: TemplateContext): string => {
+  if (!template || !template.includes('{{')) {
+    return template
+  }
+
+  return template.replace(EXPRESSION, (match: string, expression: string) => {
+    const [head = '', ...filters] = splitFilters(expression)
+
+    const parsed = HEAD.exec(head)
+    if (!parsed?.[1]) {
+      return match
+    }
+
+    const value = resolve(parsed[1], ctx)
+    if (NOT_FOUND === value) {
+      return match
+    }
+
+    let output = undefined === value || null === value ? (parsed[3] ?? '') : stringify(value)
+
+    for (const name of filters) {
+      const filter = FILTERS[name]
+      if (!filter) {
+        return match
+      }
+      output = filter(output)
+    }
+
+    return output
+  })
+}
+
+/**
+ * Check whether a string contains template expressions.
+ *
+ * @param input The string to check.
+ *
+ * @returns True if the string contains at least one `{{ }}` expression.
+ */
+export const hasTemplate = (input: string | null | undefined): boolean => Boolean(input && /\{\{[\s\S]+?\}\}/.test(input))
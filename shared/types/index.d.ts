@@ -20,6 +20,167 @@ export interface Token {
     responseStatus: number
     responseHeaders: string | null
     responseBody: string | null
+    responseDelayMode: ResponseDelayMode
+    responseDelayMs: number // Fixed delay, or lower bound of the random range
+    responseDelayMaxMs: number // Upper bound of the random range
+    responseSequence: string | null // JSON string of ResponseSequenceStep[]
+    responseSequenceMode: ResponseSequenceMode
+    responseSequencePosition: number // Requests answered by the sequence since the last reset
+    responseMode: ResponseMode
+    proxyUrl: string | null // Upstream base URL used in proxy mode
+    responseStream: string | null // JSON string of ResponseStreamChunk[]
+    responseStreamFormat: ResponseStreamFormat
+    responseStreamLoop: boolean // Start over after the last chunk until the client disconnects
+    responseFilePath: string | null // Relative path to the uploaded response body file
+    responseFileName: string | null
+    responseFileType: string | null // Content type given at upload
+    responseFileSize: number | null
+    corsPolicy: string | null // JSON string of CorsPolicy, null allows every origin
+    signatureScheme: SignatureScheme | null // null skips signature verification
+    signatureSecret: string | null
+    signatureHeader: string | null // Digest header for the generic HMAC schemes
+    signatureTolerance: number // Seconds a signed timestamp may be off
+    rateLimitPerMinute: number | null // Requests accepted per minute, null for no limit
+    maxRequests: number | null // Stored requests kept before new ones are rejected
+    rateLimitRetryAfter: number // Seconds sent in Retry-After with a 429
+    rejectedCount: number // Requests rejected by a limit since the last reset
+    ipPolicy: string | null // JSON string of IpPolicy, null allows every address
+    authScheme: AuthScheme | null // null answers without asking for credentials
+    authUsername: string | null // Basic auth only
+    authSecret: string | null // Password, bearer token or API key
+    authParam: string | null // Header or query parameter name for API keys
+    name: string | null
+    description: string | null
+    color: string | null // Hex colour, #rrggbb
+    tags: string | null // JSON string of lowercase tags
+    pinned: boolean // Never expires, neither do its requests
+    requestTtlMinutes: number | null // Replaces the global request TTL, null uses it
+    keepLastRequests: number | null // Newest requests kept at ingest, null keeps all
+    websocketReplyMode: WebSocketReplyMode
+    websocketReplyMessage: string | null // Sent by the static and template reply modes
+}
+
+/**
+ * How the payload endpoint answers: configured responses, relaying to an upstream or a scripted stream
+ */
+export type ResponseMode = 'static' | 'proxy' | 'stream'
+
+/**
+ * How the WebSocket endpoint answers inbound frames: not at all, echoing them, a fixed message
+ * or a message rendered against the frame
+ */
+export type WebSocketReplyMode = 'none' | 'echo' | 'static' | 'template'
+
+/**
+ * How stream chunks are written: server-sent events or raw chunked transfer
+ */
+export type ResponseStreamFormat = 'sse' | 'chunked'
+
+/**
+ * How long the payload endpoint waits before writing a custom response
+ */
+export type ResponseDelayMode = 'none' | 'fixed' | 'random' | 'hang'
+
+/**
+ * What a response sequence does after its last step
+ */
+export type ResponseSequenceMode = 'loop' | 'stick'
+
+/**
+ * CORS headers the payload endpoint answers with
+ */
+export interface CorsPolicy {
+    enabled: boolean // false sends no CORS headers at all
+    origins: string[] // '*' or exact origins, a leading '*.' in the host matches subdomains
+    methods: string[]
+    headers: string[] // '*' echoes Access-Control-Request-Headers when credentials are allowed
+    exposeHeaders: string[]
+    credentials: boolean
+    maxAge: number | null // Seconds, null omits Access-Control-Max-Age
+    capturePreflight: boolean // Record OPTIONS preflight requests like any other request
+}
+
+/**
+ * Client addresses the payload endpoint accepts
+ */
+export interface IpPolicy {
+    allow: string[] // Addresses or CIDR ranges, empty allows every address not denied
+    deny: string[] // Checked first, a match is always refused
+    status: number // Status sent to refused addresses
+    recordBlocked: boolean // Store refused requests flagged as blocked
+}
+
+/**
+ * Credentials a token can require: Basic auth, a bearer token or an API key in a header or query parameter
+ */
+export type AuthScheme = 'basic' | 'bearer' | 'header' | 'query'
+
+/**
+ * Outcome of checking a captured request's credentials
+ */
+export type AuthStatus = 'passed' | 'missing' | 'invalid'
+
+/**
+ * Webhook signature schemes: generic HMAC over the body or a provider preset
+ */
+export type SignatureScheme = 'hmac-sha256' | 'hmac-sha1' | 'github' | 'stripe' | 'slack' | 'shopify' | 'svix'
+
+/**
+ * Outcome of verifying a captured request's signature
+ */
+export interface SignatureResult {
+    scheme: SignatureScheme
+    status: 'valid' | 'invalid' | 'missing'
+    expected: string | null // Digest computed with the token's secret
+    received: string | null // Digest sent by the caller
+    message: string | null // Why verification failed
+}
+
+/**
+ * Single scripted response, each request takes the next step
+ */
+export interface ResponseSequenceStep {
+    status: number
+    headers?: Record<string, string> | null
+    body?: string | null
+}
+
+/**
+ * Piece of a streamed response, written after waiting delayMs
+ */
+export interface ResponseStreamChunk {
+    data: string
+    delayMs: number
+    event?: string | null // SSE event name
+    id?: string | null // SSE event ID
+}
+
+/**
+ * Predicate evaluated by a response rule against the incoming request
+ */
+export interface RuleCondition {
+    source: 'query' | 'header' | 'body'
+    key: string // Query param, header name or JSON body path
+    operator: 'equals' | 'contains' | 'regex' | 'exists' | 'missing'
+    value?: string
+}
+
+/**
+ * Response rule entity, evaluated in position order before the token's own response
+ */
+export interface ResponseRule {
+    id: string
+    tokenId: string // References token.id (UUID)
+    position: number
+    name: string | null
+    enabled: boolean
+    method: string | null // null matches any method
+    pathPattern: string | null // Glob matched against the payload sub-path, null matches any path
+    conditions: string | null // JSON string of RuleCondition[]
+    responseStatus: number
+    responseHeaders: string | null
+    responseBody: string | null
+    createdAt: Date
 }
 
 /**
@@ -32,13 +193,116 @@ export interface Request {
     sessionId: string // References session.id (UUID)
     method: string
     url: string
-    headers: string // JSON string
+    path: string // Sub-path after the payload URL, `/` when none
+    headers: string // JSON string, derived from rawHeaders
+    rawHeaders: string | null // JSON string of RawHeader[] in received order, null when not received over HTTP
     contentType: string
     contentLength: number
     isBinary: boolean
     clientIp: string
     remoteIp: string
     bodyPath: string | null // Relative path to body file
+    bodyHash: string | null // SHA-256 hex of the body as received
+    truncated: boolean // Body exceeded MAX_BODY_SIZE, only the leading bytes were stored
+    signature: string | null // JSON string of SignatureResult
+    blocked: boolean // Refused by the token's IP policy, recorded for inspection only
+    authStatus: AuthStatus | null // null when the token requires no credentials
+    websocket: boolean // Handshake of a WebSocket connection, its frames are stored separately
+    email: boolean // Message received by the SMTP listener, the body is the raw message
+    httpVersion: string | null // e.g. 1.1 or 2.0, null when not received over HTTP
+    tls: boolean | null // Received over HTTPS
+    serverPort: number | null // Port the request was sent to
+    bodyFraming: BodyFraming | null // null when the sender declared no body
+    receiveMs: number | null // Time from the first body byte until the end of the body, null without a body
+    createdAt: Date
+}
+
+/**
+ * How a request body was delimited on the wire
+ */
+export type BodyFraming = 'chunked' | 'content-length'
+
+/**
+ * How a request arrived over HTTP
+ */
+export type RequestProtocol = Pick<Request, 'httpVersion' | 'tls' | 'serverPort' | 'bodyFraming'>
+
+/**
+ * Attachment of a captured email
+ * Note: content is stored on disk at path location
+ */
+export interface EmailAttachment {
+    filename: string
+    contentType: string
+    size: number
+    contentId: string | null // Referenced from the HTML body as cid:<id>
+    inline: boolean
+    path: string // Relative path to the attachment file
+}
+
+/**
+ * Email captured by the SMTP listener, parsed from the request body
+ */
+export interface Email {
+    requestId: string // References request.id (UUID)
+    envelopeFrom: string | null // MAIL FROM address, null for the null sender
+    envelopeTo: string // JSON string array of RCPT TO addresses for this token
+    from: string | null
+    to: string | null
+    cc: string | null
+    replyTo: string | null
+    subject: string | null
+    date: string | null // Date header as sent
+    messageId: string | null
+    text: string | null
+    html: string | null
+    attachments: string // JSON string of EmailAttachment[]
+}
+
+/**
+ * Header name as sent and its value, repeated headers are separate entries
+ */
+export type RawHeader = [string, string]
+
+/**
+ * Frame sent or received over a captured WebSocket connection
+ */
+export interface WebSocketFrame {
+    id: string
+    requestId: string // Handshake request the connection belongs to
+    direction: 'inbound' | 'outbound' // inbound frames were sent by the client
+    type: 'text' | 'binary' | 'close'
+    data: string // Text, base64 for binary frames, close reason for close frames
+    size: number // Bytes in the frame, including any part dropped by truncation
+    truncated: boolean
+    closeCode: number | null
+    createdAt: Date
+}
+
+/**
+ * Where a stored response came from: the built-in empty 200, the token's own response,
+ * a matching rule, a sequence step, the upstream in proxy mode, a CORS preflight answer,
+ * the refusal sent to a blocked address or the challenge sent without valid credentials
+ */
+export type ResponseSource = 'default' | 'token' | 'rule' | 'sequence' | 'stream' | 'proxy' | 'preflight' | 'blocked' | 'unauthorized'
+
+/**
+ * Response returned to the sender of a request
+ * Note: body is stored on disk at bodyPath location
+ */
+export interface RequestResponse {
+    requestId: string // References request.id (UUID)
+    source: ResponseSource
+    ruleId: string | null // Rule that produced the response, if any
+    status: number
+    headers: string // JSON string
+    contentType: string | null
+    contentLength: number
+    isBinary: boolean
+    bodyPath: string | null // Relative path to body file
+    latencyMs: number | null // Upstream latency in proxy mode
+    durationMs: number | null // Time until the response was written, including delays
+    error: string | null // Set when the upstream could not be reached or the client left early
     createdAt: Date
 }
 
@@ -59,7 +323,16 @@ export type InsertToken = Omit<Token, 'createdAt' | 'responseEnabled' | 'respons
     responseEnabled?: boolean
     responseStatus?: number
 }
-export type InsertRequest = Omit<Request, 'createdAt' | 'contentLength' | 'bodyPath'> & {
+export type InsertRequest = Omit<Request, 'createdAt' | 'contentLength' | 'bodyPath' | 'path' | 'rawHeaders' | 'websocket' | 'email' | keyof RequestProtocol | 'receiveMs'> & {
+    path?: string
+    rawHeaders?: string | null
+    httpVersion?: string | null
+    tls?: boolean | null
+    serverPort?: number | null
+    bodyFraming?: BodyFraming | null
+    receiveMs?: number | null
+    websocket?: boolean
+    email?: boolean
     contentLength?: number
     bodyPath?: string | null
     createdAt?: Date
@@ -81,11 +354,17 @@ export type TokenWithCount = Token & { _count?: { requests: number } }
 /**
  * Token list item for frontend display (serialized dates)
  */
-export type TokenListItem = Pick<Token, 'id' | 'friendlyId'> & {
+export type TokenListItem = Pick<Token, 'id' | 'friendlyId' | 'name' | 'description' | 'color' | 'pinned'> & {
+    tags: string[]
     createdAt?: string
     _count?: { requests: number }
 }
 
+/**
+ * Token fields carried by token.updated events
+ */
+export type TokenSummary = Pick<TokenListItem, 'id' | 'friendlyId' | 'name' | 'description' | 'color' | 'tags'>
+
 /**
  * Request summary for list display (serialized dates, without body buffer)
  */
@@ -93,6 +372,21 @@ export type RequestSummary = Omit<Request, 'body' | 'createdAt'> & {
     createdAt: string
 }
 
+/**
+ * WebSocket frame as returned by the API
+ */
+export type WebSocketFrameSummary = Omit<WebSocketFrame, 'createdAt'> & {
+    createdAt: string
+}
+
+/**
+ * Email as returned by the API, attachments are downloaded by index
+ */
+export type EmailSummary = Omit<Email, 'envelopeTo' | 'attachments'> & {
+    envelopeTo: string[]
+    attachments: Omit<EmailAttachment, 'path'>[]
+}
+
 /**
  * Token response configuration (subset with parsed headers)
  */
@@ -100,6 +394,26 @@ export type TokenResponseConfig = Pick<Token, 'id' | 'createdAt' | 'responseEnab
     responseHeaders: Record<string, string> | null
 }
 
+/**
+ * Response rule as returned by the API (parsed conditions and headers)
+ */
+export type ResponseRuleConfig = Omit<ResponseRule, 'conditions' | 'responseHeaders' | 'createdAt'> & {
+    conditions: RuleCondition[]
+    responseHeaders: Record<string, string> | null
+    createdAt: Date | string
+}
+
+/**
+ * Stored response as returned by the API (parsed headers, text or hex body)
+ */
+export type ResponseDetails = Omit<RequestResponse, 'requestId' | 'headers' | 'isBinary' | 'bodyPath' | 'createdAt'> & {
+    headers: Record<string, string>
+    isBinary: boolean
+    text?: string
+    hex?: string
+    createdAt: string
+}
+
 // ============================================================================
 // API Request/Response Types
 // ============================================================================
@@ -122,8 +436,39 @@ export interface TokenUpdateRequest {
     status?: number
     headers?: Record<string, string> | null
     body?: string | null
+    responseDelayMode?: ResponseDelayMode
+    responseDelayMs?: number
+    responseDelayMaxMs?: number
+    responseSequence?: ResponseSequenceStep[] | null
+    responseSequenceMode?: ResponseSequenceMode
+    responseMode?: ResponseMode
+    proxyUrl?: string | null
+    responseStream?: ResponseStreamChunk[] | null
+    responseStreamFormat?: ResponseStreamFormat
+    responseStreamLoop?: boolean
+    websocketReplyMode?: WebSocketReplyMode
+    websocketReplyMessage?: string | null
+    responseFile?: ResponseFileUpload | null
+    corsPolicy?: Partial<CorsPolicy> | null
+    ipPolicy?: Partial<IpPolicy> | null
+}
+
+/**
+ * File sent as the token's response body, base64 encoded for transport
+ */
+export interface ResponseFileUpload {
+    base64: string
+    filename?: string | null
+    contentType?: string | null
 }
 
+/**
+ * Response rule create/update request body
+ */
+export type ResponseRuleInput = Partial<Pick<ResponseRuleConfig,
+    'name' | 'enabled' | 'method' | 'pathPattern' | 'conditions' | 'responseStatus' | 'responseHeaders' | 'responseBody'
+>>
+
 // ============================================================================
 // Event System Types
 // ============================================================================
@@ -161,10 +506,15 @@ export interface ServerEventMap {
     'request.received': { token: string; request: Request }
     'request.deleted': { token: string; requestId: string }
     'request.cleared': { token: string }
+    'request.response': { token: string; requestId: string }
+    'request.rejected': { token: string; rejectedCount: number }
+    'websocket.frame': { token: string; requestId: string; frame: WebSocketFrame }
     'token.created': { token: Pick<Token, 'id' | 'friendlyId' | 'createdAt'> }
     'token.deleted': { token: { id: string } }
+    'token.updated': { token: TokenSummary }
     'token.cleared': Record<string, never>
     'token.response.updated': { token: { id: string; responseEnabled: boolean; responseStatus: number } }
+    'token.rules.updated': { token: { id: string } }
 }
 
 /**
@@ -186,6 +536,22 @@ export interface SSEEventMap {
         type: 'request.cleared'
         token: string
     }
+    'request.response': {
+        type: 'request.response'
+        token: string
+        requestId: string
+    }
+    'request.rejected': {
+        type: 'request.rejected'
+        token: string
+        rejectedCount: number
+    }
+    'websocket.frame': {
+        type: 'websocket.frame'
+        token: string
+        requestId: string
+        frame: WebSocketFrameSummary
+    }
     'token.created': {
         type: 'token.created'
         token: Pick<Token, 'id' | 'friendlyId' | 'createdAt'>
@@ -193,6 +559,10 @@ export interface SSEEventMap {
     'token.deleted': {
         type: 'token.deleted'
     }
+    'token.updated': {
+        type: 'token.updated'
+        token: TokenSummary
+    }
 }
 
 // Event type utilities
@@ -118,7 +118,9 @@ describe('POST /api/token/[token]/ingest', () => {
       null,
       '/api/test',
       '127.0.0.1',
-      '127.0.0.1'
+      '127.0.0.1',
+      [['Host', 'example.com'], ['User-Agent', 'TestClient/1.0']],
+      null
     )
   })
 
@@ -147,7 +149,9 @@ describe('POST /api/token/[token]/ingest', () => {
       Buffer.from('{"name":"test","value":123}'),
       '/api/data',
       expect.any(String),
-      expect.any(String)
+      expect.any(String),
+      expect.any(Array),
+      null
     )
   })
 
@@ -175,7 +179,9 @@ describe('POST /api/token/[token]/ingest', () => {
       null,
       '/test',
       '10.0.0.5',
-      '203.0.113.1'
+      '203.0.113.1',
+      expect.any(Array),
+      null
     )
   })
 
@@ -241,7 +247,15 @@ describe('POST /api/token/[token]/ingest', () => {
       Buffer.from('{"event":"test"}'),
       '/api/webhook',
       expect.any(String),
-      expect.any(String)
+      expect.any(String),
+      [
+        ['Host', 'webhook.example.com'],
+        ['Content-Type', 'application/json'],
+        ['Authorization', 'Bearer token123'],
+        ['X-Custom-Header', 'custom-value'],
+        ['User-Agent', 'Mozilla/5.0'],
+      ],
+      null
     )
   })
 
@@ -265,7 +279,9 @@ describe('POST /api/token/[token]/ingest', () => {
       Buffer.from('{"updated":true}'),
       '/api/resource/1',
       expect.any(String),
-      expect.any(String)
+      expect.any(String),
+      expect.any(Array),
+      null
     )
 
     // Test PATCH
@@ -285,7 +301,9 @@ describe('POST /api/token/[token]/ingest', () => {
       Buffer.from('{"patched":true}'),
       '/api/resource/2',
       expect.any(String),
-      expect.any(String)
+      expect.any(String),
+      expect.any(Array),
+      null
     )
   })
 
@@ -365,7 +383,9 @@ describe('POST /api/token/[token]/ingest', () => {
       null,
       '/api/resource/123',
       expect.any(String),
-      expect.any(String)
+      expect.any(String),
+      expect.any(Array),
+      null
     )
   })
 
@@ -389,7 +409,9 @@ describe('POST /api/token/[token]/ingest', () => {
       null,
       '/api/search?q=test&limit=10',
       expect.any(String),
-      expect.any(String)
+      expect.any(String),
+      expect.any(Array),
+      null
     )
   })
 
@@ -413,7 +435,9 @@ describe('POST /api/token/[token]/ingest', () => {
       null,
       'http://example.com/api/test',
       expect.any(String),
-      expect.any(String)
+      expect.any(String),
+      expect.any(Array),
+      null
     )
   })
 
@@ -437,7 +461,9 @@ describe('POST /api/token/[token]/ingest', () => {
       null,
       'http://example.com/api/test',
       expect.any(String),
-      expect.any(String)
+      expect.any(String),
+      expect.any(Array),
+      null
     )
   })
 
@@ -464,7 +490,9 @@ describe('POST /api/token/[token]/ingest', () => {
       Buffer.from('{"event":"test"}'),
       'https://api.example.com/webhook?key=value&token=abc123',
       expect.any(String),
-      expect.any(String)
+      expect.any(String),
+      expect.any(Array),
+      null
     )
   })
 
@@ -501,7 +529,9 @@ describe('POST /api/token/[token]/ingest', () => {
       Buffer.from('body'),
       '/test',
       expect.any(String),
-      expect.any(String)
+      expect.any(String),
+      expect.any(Array),
+      null
     )
   })
 
@@ -529,7 +559,9 @@ describe('POST /api/token/[token]/ingest', () => {
       Buffer.from(bodyContent),
       '/api/text',
       expect.any(String),
-      expect.any(String)
+      expect.any(String),
+      expect.any(Array),
+      null
     )
   })
 })
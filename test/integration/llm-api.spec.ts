@@ -4,6 +4,7 @@ import type { H3Event } from 'h3'
 import { useDatabase } from '../../server/lib/db'
 import { ensureLLMSession, LLM_SESSION_ID } from '../../server/lib/session'
 import { createTestDb, type TestDbContext } from '../utils/testDb'
+import { createHash } from 'crypto'
 
 // Mock readBody and getQuery to return our test data
 vi.mock('h3', async () => {
@@ -179,6 +180,197 @@ describe('LLM API', () => {
       expect(requests[0]).toHaveProperty('body')
     })
 
+    it('should record and filter by sub-path', async () => {
+      const createEvent = createH3Event()
+      createEvent.node.req.method = 'POST'
+      const token = await tokenIndexHandler(createEvent) as TokenResponse
+
+      for (const url of [`/api/payload/${token.id}`, `/api/payload/${token.id}/v1/events/123?x=1`]) {
+        await db.requests.create(LLM_SESSION_ID, token.id, 'POST', {}, null, url, '127.0.0.1', '127.0.0.1')
+      }
+
+      const allEvent = createH3Event({ context: { params: { token: token.id } } })
+      const all = await tokenHandler(allEvent) as { requests: Array<Record<string, unknown>> }
+      expect(all.requests.map(r => r.path).sort()).toEqual(['/', '/v1/events/123'])
+
+      const filteredEvent = createH3Event({ context: { params: { token: token.id } } }) as H3Event & { __query?: Record<string, unknown> }
+      filteredEvent.__query = { path: '/v1/events/123' }
+      const filtered = await tokenHandler(filteredEvent) as { requests: Array<Record<string, unknown>>, total: number }
+      expect(filtered.total).toBe(1)
+      expect(filtered.requests[0]?.url).toBe(`/api/payload/${token.id}/v1/events/123?x=1`)
+    })
+
+    it('should include the response that was sent', async () => {
+      const createEvent = createH3Event()
+      createEvent.node.req.method = 'POST'
+      const token = await tokenIndexHandler(createEvent) as TokenResponse
+
+      await db.tokens.update(LLM_SESSION_ID, token.id, {
+        responseEnabled: true,
+        responseStatus: 202,
+        responseHeaders: JSON.stringify({ 'Content-Type': 'application/json' }),
+        responseBody: '{"ok":true}',
+      })
+
+      const payloadHandler = (await import('../../server/api/payload/[token]')).default as (event: H3Event) => Promise<unknown>
+      await payloadHandler(createH3Event({
+        node: { req: { method: 'GET', url: `/api/payload/${token.id}` }, res: {} },
+        context: { params: { token: token.id } },
+      }))
+
+      const event = createH3Event({ context: { params: { token: token.id } } })
+      const response = await tokenHandler(event) as { requests: Array<Record<string, unknown>> }
+
+      expect(response.requests[0]?.response).toMatchObject({
+        source: 'token',
+        status: 202,
+        contentType: 'application/json',
+        body: '{"ok":true}',
+        error: null,
+      })
+    })
+
+    it('should serve an uploaded response file with its length', async () => {
+      const createEvent = createH3Event()
+      createEvent.node.req.method = 'POST'
+      const token = await tokenIndexHandler(createEvent) as TokenResponse
+
+      const png = Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A, 0x00])
+      const h3Module = await import('h3') as typeof import('h3') & { __setMockBody?: (value: unknown) => void }
+      h3Module.__setMockBody?.({ responseEnabled: true, responseFile: { base64: `data:image/png;base64,${png.toString('base64')}`, filename: 'pixel.png' } })
+
+      const patchEvent = createH3Event({ context: { params: { token: token.id } } })
+      patchEvent.node.req.method = 'PATCH'
+      await tokenHandler(patchEvent)
+
+      let sent: unknown = null
+      const payloadHandler = (await import('../../server/api/payload/[token]')).default as (event: H3Event) => Promise<unknown>
+      const payloadEvent = createH3Event({
+        node: { req: { method: 'GET', url: `/api/payload/${token.id}` }, res: { end: (d?: unknown) => { sent = d } } },
+        context: { params: { token: token.id } },
+      })
+      await payloadHandler(payloadEvent)
+
+      expect(Buffer.compare(sent as Buffer, png)).toBe(0)
+      expect(payloadEvent.node.res.getHeader('content-type')).toBe('image/png')
+      expect(payloadEvent.node.res.getHeader('content-length')).toBe(String(png.length))
+    })
+
+    it('should stream payload bodies to disk and truncate them past MAX_BODY_SIZE', async () => {
+      const createEvent = createH3Event()
+      createEvent.node.req.method = 'POST'
+      const token = await tokenIndexHandler(createEvent) as TokenResponse
+
+      const body = Buffer.from('0123456789abcdef')
+      const payloadHandler = (await import('../../server/api/payload/[token]')).default as (event: H3Event) => Promise<unknown>
+      const payloadEvent = createH3Event({
+        node: { req: { method: 'POST', url: `/api/payload/${token.id}`, headers: { 'content-type': 'text/plain' } }, res: { end: () => {} } },
+        context: { params: { token: token.id } },
+      })
+      ;(payloadEvent.node.req as unknown as { body?: Buffer }).body = body
+
+      const storagePath = process.env.STORAGE_PATH
+      process.env.MAX_BODY_SIZE = '10'
+      process.env.STORAGE_PATH = testDbContext.filesPath
+      try {
+        await payloadHandler(payloadEvent)
+      } finally {
+        delete process.env.MAX_BODY_SIZE
+        if (undefined === storagePath) {
+          delete process.env.STORAGE_PATH
+        } else {
+          process.env.STORAGE_PATH = storagePath
+        }
+      }
+
+      const [request] = await db.requests.list(LLM_SESSION_ID, token.id)
+      expect(request).toMatchObject({ contentLength: 10, truncated: true, isBinary: false })
+      expect(request!.bodyHash).toBe(createHash('sha256').update(body).digest('hex'))
+      expect(Buffer.from((await db.requests.getBody(LLM_SESSION_ID, token.id, request!.id)) ?? []).toString()).toBe('0123456789')
+    })
+
+    it('should answer 429 with Retry-After and count requests over the stored quota', async () => {
+      const createEvent = createH3Event()
+      createEvent.node.req.method = 'POST'
+      const token = await tokenIndexHandler(createEvent) as TokenResponse
+      await db.tokens.update(LLM_SESSION_ID, token.id, { maxRequests: 1, rateLimitRetryAfter: 15 })
+
+      const payloadHandler = (await import('../../server/api/payload/[token]')).default as (event: H3Event) => Promise<unknown>
+      const send = async () => {
+        let sent: unknown = null
+        const payloadEvent = createH3Event({
+          node: { req: { method: 'GET', url: `/api/payload/${token.id}`, headers: {} }, res: { end: (data?: unknown) => { sent = data } } },
+          context: { params: { token: token.id } },
+        })
+        await payloadHandler(payloadEvent)
+        return { res: payloadEvent.node.res, sent }
+      }
+
+      expect((await send()).res.statusCode).toBe(200)
+
+      const { res, sent } = await send()
+      expect(res.statusCode).toBe(429)
+      expect(String(res.getHeader('retry-after'))).toBe('15')
+      expect(String(sent)).toContain('1 of 1 allowed requests')
+
+      expect(await db.requests.list(LLM_SESSION_ID, token.id)).toHaveLength(1)
+      expect((await db.tokens.get(LLM_SESSION_ID, token.id))?.rejectedCount).toBe(1)
+    })
+
+    it('should refuse addresses outside the allow list and record them as blocked', async () => {
+      const createEvent = createH3Event()
+      createEvent.node.req.method = 'POST'
+      const token = await tokenIndexHandler(createEvent) as TokenResponse
+      await db.tokens.update(LLM_SESSION_ID, token.id, {
+        ipPolicy: JSON.stringify({ allow: ['192.0.2.0/24'], deny: [], status: 404, recordBlocked: true }),
+      })
+
+      const payloadHandler = (await import('../../server/api/payload/[token]')).default as (event: H3Event) => Promise<unknown>
+      const send = async (ip: string) => {
+        const payloadEvent = createH3Event({
+          node: { req: { method: 'GET', url: `/api/payload/${token.id}`, headers: {}, socket: { remoteAddress: ip } }, res: { end: () => {} } },
+          context: { params: { token: token.id } },
+        })
+        await payloadHandler(payloadEvent)
+        return payloadEvent.node.res.statusCode
+      }
+
+      expect(await send('198.51.100.1')).toBe(404)
+      expect(await send('192.0.2.10')).toBe(200)
+
+      const requests = await db.requests.list(LLM_SESSION_ID, token.id)
+      expect(requests.map(request => [request.remoteIp, request.blocked]).sort()).toEqual([
+        ['192.0.2.10', false],
+        ['198.51.100.1', true],
+      ])
+    })
+
+    it('should capture unauthenticated requests and answer them with a 401 challenge', async () => {
+      const createEvent = createH3Event()
+      createEvent.node.req.method = 'POST'
+      const token = await tokenIndexHandler(createEvent) as TokenResponse
+      await db.tokens.update(LLM_SESSION_ID, token.id, { responseEnabled: true, responseStatus: 202, authScheme: 'bearer', authSecret: 't0ken' })
+
+      const payloadHandler = (await import('../../server/api/payload/[token]')).default as (event: H3Event) => Promise<unknown>
+      const send = async (headers: Record<string, string>) => {
+        const payloadEvent = createH3Event({
+          node: { req: { method: 'GET', url: `/api/payload/${token.id}`, headers }, res: { end: () => {} } },
+          context: { params: { token: token.id } },
+        })
+        await payloadHandler(payloadEvent)
+        return payloadEvent.node.res
+      }
+
+      const denied = await send({ authorization: 'Bearer wrong' })
+      expect(denied.statusCode).toBe(401)
+      expect(denied.getHeader('www-authenticate')).toBe('Bearer realm="http-inspector", error="invalid_token"')
+
+      expect((await send({ authorization: 'Bearer t0ken' })).statusCode).toBe(202)
+
+      const requests = await db.requests.list(LLM_SESSION_ID, token.id)
+      expect(requests.map(request => request.authStatus).sort()).toEqual(['invalid', 'passed'])
+    })
+
     it('should mark binary data in response', async () => {
       // Create a token
       const createEvent = createH3Event()
@@ -263,6 +455,39 @@ describe('LLM API', () => {
       expect(updatedToken?.responseStatus).toBe(404)
     })
 
+    it('should set labels and include them in the token payload', async () => {
+      const createEvent = createH3Event()
+      createEvent.node.req.method = 'POST'
+      const token = await tokenIndexHandler(createEvent) as TokenResponse
+
+      const h3Module = await import('h3') as typeof import('h3') & { __setMockBody?: (value: unknown) => void }
+      h3Module.__setMockBody?.({
+        name: ' Stripe staging ',
+        description: 'Payment webhooks',
+        color: '#3B82F6',
+        tags: 'Payments, staging, payments',
+      })
+
+      const patchEvent = createH3Event({ context: { params: { token: token.id } } })
+      patchEvent.node.req.method = 'PATCH'
+      await tokenHandler(patchEvent)
+
+      const getEvent = createH3Event({ context: { params: { token: token.id } } })
+      const response = await tokenHandler(getEvent) as { token: Record<string, unknown> }
+
+      expect(response.token).toMatchObject({
+        name: 'Stripe staging',
+        description: 'Payment webhooks',
+        color: '#3b82f6',
+        tags: ['payments', 'staging'],
+      })
+
+      h3Module.__setMockBody?.({ color: 'blue' })
+      const invalidEvent = createH3Event({ context: { params: { token: token.id } } })
+      invalidEvent.node.req.method = 'PATCH'
+      await expect(tokenHandler(invalidEvent)).rejects.toThrow('color')
+    })
+
     it('should return 404 when updating non-existent token', async () => {
       const h3Module = await import('h3') as typeof import('h3') & { __setMockBody?: (value: unknown) => void }
       h3Module.__setMockBody?.({
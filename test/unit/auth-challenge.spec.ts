@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { buildChallenge, checkAuth, normalizeAuthInput } from '../../server/lib/auth-challenge'
+import type { AuthScheme } from '../../shared/types'
+
+const URL = '/api/payload/abc'
+
+const config = (authScheme: AuthScheme | null, extra: Record<string, unknown> = {}) => ({
+  authScheme,
+  authUsername: null,
+  authSecret: 's3cret',
+  authParam: null,
+  ...extra,
+})
+
+const basic = (value: string) => ({ authorization: `Basic ${Buffer.from(value).toString('base64')}` })
+
+describe('authentication challenge', () => {
+  describe('normalizeAuthInput', () => {
+    it('should keep only present fields and clear empty values', () => {
+      expect(normalizeAuthInput({})).toEqual({})
+      expect(normalizeAuthInput({ authScheme: 'basic', authUsername: ' bob ', authSecret: 'pw' }))
+        .toEqual({ authScheme: 'basic', authUsername: 'bob', authSecret: 'pw' })
+      expect(normalizeAuthInput({ authScheme: '', authParam: '' })).toEqual({ authScheme: null, authParam: null })
+    })
+
+    it('should reject invalid values', () => {
+      expect(() => normalizeAuthInput({ authScheme: 'digest' })).toThrow()
+      expect(() => normalizeAuthInput({ authUsername: 'a:b' })).toThrow()
+      expect(() => normalizeAuthInput({ authSecret: 5 })).toThrow()
+      expect(() => normalizeAuthInput({ authParam: 'bad name' })).toThrow()
+    })
+  })
+
+  describe('checkAuth', () => {
+    it('should skip tokens without a scheme or secret', () => {
+      expect(checkAuth(config(null), {}, URL)).toBeNull()
+      expect(checkAuth(config('bearer', { authSecret: null }), {}, URL)).toBeNull()
+    })
+
+    it('should check Basic credentials', () => {
+      const token = config('basic', { authUsername: 'bob' })
+
+      expect(checkAuth(token, basic('bob:s3cret'), URL)).toBe('passed')
+      expect(checkAuth(token, basic('bob:nope'), URL)).toBe('invalid')
+      expect(checkAuth(token, { authorization: 'Bearer s3cret' }, URL)).toBe('missing')
+      expect(checkAuth(token, {}, URL)).toBe('missing')
+    })
+
+    it('should check bearer tokens case-insensitively on the scheme', () => {
+      expect(checkAuth(config('bearer'), { authorization: 'bearer s3cret' }, URL)).toBe('passed')
+      expect(checkAuth(config('bearer'), { authorization: 'Bearer other' }, URL)).toBe('invalid')
+    })
+
+    it('should check API keys in a header or query parameter', () => {
+      expect(checkAuth(config('header'), { 'x-api-key': 's3cret' }, URL)).toBe('passed')
+      expect(checkAuth(config('header', { authParam: 'X-Key' }), { 'x-key': 's3cret' }, URL)).toBe('passed')
+      expect(checkAuth(config('query'), {}, `${URL}?api_key=s3cret`)).toBe('passed')
+      expect(checkAuth(config('query', { authParam: 'key' }), {}, `${URL}?api_key=s3cret`)).toBe('missing')
+      expect(checkAuth(config('query'), {}, `${URL}?api_key=wrong`)).toBe('invalid')
+      expect(checkAuth(config('query'), {}, 'http://[::1/?api_key=s3cret')).toBe('missing')
+    })
+  })
+
+  describe('buildChallenge', () => {
+    it('should name the expected credentials', () => {
+      expect(buildChallenge(config('basic'))).toBe('Basic realm="http-inspector", charset="UTF-8"')
+      expect(buildChallenge(config('bearer'))).toBe('Bearer realm="http-inspector"')
+      expect(buildChallenge(config('bearer'), 'invalid')).toBe('Bearer realm="http-inspector", error="invalid_token"')
+      expect(buildChallenge(config('query', { authParam: 'key' }))).toBe('ApiKey realm="http-inspector", query="key"')
+    })
+  })
+})
@@ -0,0 +1,50 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import zlib from 'zlib'
+import { decodeContent } from '../../server/lib/content-encoding'
+import { isDecodableEncoding, parseContentEncoding } from '../../shared/content'
+
+const payload = Buffer.from(JSON.stringify({ event: 'order.created', items: Array.from({ length: 50 }, (_, i) => i) }))
+
+describe('content-encoding', () => {
+  afterEach(() => {
+    delete process.env.MAX_BODY_SIZE
+  })
+
+  it('should read the codings in the order they were applied', () => {
+    expect(parseContentEncoding('Identity, GZIP,br')).toEqual(['gzip', 'br'])
+    expect(parseContentEncoding(undefined)).toEqual([])
+    expect(isDecodableEncoding(['gzip', 'br'])).toBe(true)
+    expect(isDecodableEncoding(['compress'])).toBe(false)
+    expect(isDecodableEncoding([])).toBe(false)
+  })
+
+  it('should decode gzip, deflate with or without the zlib wrapper and br', async () => {
+    expect(await decodeContent(zlib.gzipSync(payload), ['x-gzip'])).toEqual(payload)
+    expect(await decodeContent(zlib.deflateSync(payload), ['deflate'])).toEqual(payload)
+    expect(await decodeContent(zlib.deflateRawSync(payload), ['deflate'])).toEqual(payload)
+    expect(await decodeContent(zlib.brotliCompressSync(payload), ['br'])).toEqual(payload)
+  })
+
+  it('should undo stacked codings last applied first', async () => {
+    expect(await decodeContent(zlib.brotliCompressSync(zlib.gzipSync(payload)), ['gzip', 'br'])).toEqual(payload)
+  })
+
+  it('should decode what a truncated body holds', async () => {
+    const compressed = zlib.gzipSync(payload)
+    const truncated = compressed.subarray(0, compressed.length - 12)
+
+    await expect(decodeContent(truncated, ['gzip'])).rejects.toThrow(/not valid gzip/)
+    const partial = (await decodeContent(truncated, ['gzip'], true)).toString()
+    expect(partial.length).toBeGreaterThan(0)
+    expect(payload.toString().startsWith(partial)).toBe(true)
+  })
+
+  it('should refuse bodies that expand past the limit', async () => {
+    process.env.MAX_BODY_SIZE = '1k'
+    await expect(decodeContent(zlib.gzipSync(Buffer.alloc(4096)), ['gzip'])).rejects.toThrow('Decoded body is larger than 1024 bytes')
+  })
+
+  it.runIf('function' === typeof zlib.zstdCompressSync)('should decode zstd', async () => {
+    expect(await decodeContent(zlib.zstdCompressSync(payload), ['zstd'])).toEqual(payload)
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import { buildCorsHeaders, DEFAULT_CORS_POLICY, isOriginAllowed, normalizeCorsInput, parseCorsPolicy } from '../../server/lib/cors'
+
+describe('CORS policy', () => {
+  describe('normalizeCorsInput', () => {
+    it('should merge partial updates into the stored policy', () => {
+      const stored = JSON.stringify({ ...DEFAULT_CORS_POLICY, credentials: true })
+      const result = normalizeCorsInput({ corsPolicy: { origins: 'https://a.example.com/, https://b.example.com', methods: ['get', 'post'] } }, stored)
+
+      expect(JSON.parse(result.corsPolicy as string)).toEqual({
+        ...DEFAULT_CORS_POLICY,
+        origins: ['https://a.example.com', 'https://b.example.com'],
+        methods: ['GET', 'POST'],
+        credentials: true,
+      })
+    })
+
+    it('should skip missing and clear null policies', () => {
+      expect(normalizeCorsInput({})).toEqual({})
+      expect(normalizeCorsInput({ corsPolicy: null })).toEqual({ corsPolicy: null })
+    })
+
+    it('should reject invalid values', () => {
+      expect(() => normalizeCorsInput({ corsPolicy: 'allow' })).toThrow()
+      expect(() => normalizeCorsInput({ corsPolicy: { credentials: 'yes' } })).toThrow()
+      expect(() => normalizeCorsInput({ corsPolicy: { origins: 5 } })).toThrow()
+      expect(() => normalizeCorsInput({ corsPolicy: { maxAge: -1 } })).toThrow()
+      expect(() => normalizeCorsInput({ corsPolicy: { maxAge: 999999 } })).toThrow()
+    })
+  })
+
+  describe('parseCorsPolicy', () => {
+    it('should fall back to the default policy', () => {
+      expect(parseCorsPolicy(null)).toEqual(DEFAULT_CORS_POLICY)
+      expect(parseCorsPolicy('not json')).toEqual(DEFAULT_CORS_POLICY)
+    })
+  })
+
+  describe('isOriginAllowed', () => {
+    it('should match exact and wildcard subdomain origins', () => {
+      expect(isOriginAllowed('https://app.example.com', ['https://app.example.com'])).toBe(true)
+      expect(isOriginAllowed('https://api.example.com', ['https://*.example.com'])).toBe(true)
+      expect(isOriginAllowed('https://example.com', ['https://*.example.com'])).toBe(false)
+      expect(isOriginAllowed('http://api.example.com', ['https://*.example.com'])).toBe(false)
+      expect(isOriginAllowed('https://evilexample.com', ['https://*.example.com'])).toBe(false)
+    })
+  })
+
+  describe('buildCorsHeaders', () => {
+    it('should keep the permissive defaults', () => {
+      expect(buildCorsHeaders(DEFAULT_CORS_POLICY, { origin: 'https://a.test' })).toEqual({
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Expose-Headers': '*',
+      })
+    })
+
+    it('should echo allowed origins when credentials are enabled', () => {
+      const policy = { ...DEFAULT_CORS_POLICY, origins: ['https://a.test'], credentials: true, maxAge: 600 }
+      const headers = buildCorsHeaders(policy, { 'origin': 'https://a.test', 'access-control-request-headers': 'x-token' }, true)
+
+      expect(headers).toMatchObject({
+        'Access-Control-Allow-Origin': 'https://a.test',
+        'Access-Control-Allow-Credentials': 'true',
+        'Access-Control-Allow-Headers': 'x-token',
+        'Access-Control-Max-Age': '600',
+        'Vary': 'Origin',
+      })
+    })
+
+    it('should send nothing for disallowed origins or disabled policies', () => {
+      expect(buildCorsHeaders({ ...DEFAULT_CORS_POLICY, origins: ['https://a.test'] }, { origin: 'https://b.test' }, true)).toEqual({})
+      expect(buildCorsHeaders({ ...DEFAULT_CORS_POLICY, enabled: false }, { origin: 'https://a.test' })).toEqual({})
+    })
+  })
+})
@@ -1,9 +1,10 @@
 import { describe, it, expect, afterEach, beforeEach, afterAll, beforeAll } from 'vitest'
-import { useFileStorage } from '../../server/lib/file-storage'
+import { SNIFF_BYTES, useFileStorage } from '../../server/lib/file-storage'
 import { existsSync } from 'fs'
-import { rm, mkdtemp } from 'fs/promises'
+import { rm, mkdir, mkdtemp } from 'fs/promises'
 import { join } from 'path'
-import { randomUUID } from 'crypto'
+import { createHash, randomUUID } from 'crypto'
+import { PassThrough, Readable } from 'stream'
 import { tmpdir } from 'os'
 
 describe('file-storage', () => {
@@ -99,6 +100,72 @@ describe('file-storage', () => {
     })
   })
 
+  describe('saveStream', () => {
+    it('should write the stream while measuring and hashing it', async () => {
+      const chunks = [Buffer.from('hello '), Buffer.from('streamed '), Buffer.from('world')]
+      const stored = await storage.saveStream(testSessionId, testTokenId, testRequestId, Readable.from(chunks))
+
+      expect(stored.size).toBe(20)
+      expect(stored.truncated).toBe(false)
+      expect(stored.hash).toBe(createHash('sha256').update('hello streamed world').digest('hex'))
+      expect(stored.head.toString()).toBe('hello streamed world')
+      expect((await storage.read(stored.path!))?.toString()).toBe('hello streamed world')
+    })
+
+    it('should truncate bodies over the limit but hash all of it', async () => {
+      const body = Buffer.alloc(SNIFF_BYTES * 2, 'a')
+      const stored = await storage.saveStream(testSessionId, testTokenId, testRequestId, Readable.from([body.subarray(0, 100), body.subarray(100)]), 150)
+
+      expect(stored.size).toBe(150)
+      expect(stored.truncated).toBe(true)
+      expect(stored.hash).toBe(createHash('sha256').update(body).digest('hex'))
+      expect((await storage.read(stored.path!))?.length).toBe(150)
+    })
+
+    it('should keep what arrived when the source fails part way', async () => {
+      const source = new PassThrough()
+      const pending = storage.saveStream(testSessionId, testTokenId, testRequestId, source)
+      source.write('partial ')
+      source.write('upload')
+      // Give the writer a chance to read the first chunks before the sender goes away.
+      await new Promise(resolve => setTimeout(resolve, 20))
+      source.destroy(new Error('aborted'))
+
+      const stored = await pending
+      expect(stored.truncated).toBe(true)
+      expect(stored.size).toBe(14)
+      expect((await storage.read(stored.path!))?.toString()).toBe('partial upload')
+    })
+
+    it('should time the body from its first byte until the source ends', async () => {
+      const source = new PassThrough()
+      const pending = storage.saveStream(testSessionId, testTokenId, testRequestId, source)
+      await new Promise(resolve => setTimeout(resolve, 200))
+      source.write('first')
+      await new Promise(resolve => setTimeout(resolve, 50))
+      source.end('last')
+
+      const stored = await pending
+      expect(stored.receiveMs).toBeGreaterThanOrEqual(45)
+      expect(stored.receiveMs).toBeLessThan(200)
+    })
+
+    it('should still throw when the file cannot be written', async () => {
+      await mkdir(storage.generatePath(testSessionId, testTokenId, testRequestId), { recursive: true })
+
+      await expect(storage.saveStream(testSessionId, testTokenId, testRequestId, Readable.from([Buffer.from('x')]))).rejects.toThrow()
+    })
+
+    it('should not keep a file for empty bodies', async () => {
+      const stored = await storage.saveStream(testSessionId, testTokenId, testRequestId, Readable.from([]))
+
+      expect(stored.path).toBeNull()
+      expect(stored.size).toBe(0)
+      expect(stored.receiveMs).toBeNull()
+      expect(existsSync(storage.generatePath(testSessionId, testTokenId, testRequestId))).toBe(false)
+    })
+  })
+
   describe('deleteToken', () => {
     it('should delete all bodies for a token', async () => {
       const body1 = Buffer.from('body 1')
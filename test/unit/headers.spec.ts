@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest'
+import { getRawHeaders, headersFromPairs, pairRawHeaders } from '../../shared/headers'
+
+describe('headers', () => {
+  it('should pair the flat Node.js header list', () => {
+    expect(pairRawHeaders(['Host', 'a.test', 'Cookie', 'x=1', 'dangling'])).toEqual([['Host', 'a.test'], ['Cookie', 'x=1']])
+  })
+
+  it('should derive the header map like Node.js', () => {
+    expect(headersFromPairs([
+      ['Content-Type', 'text/plain'],
+      ['content-type', 'application/json'],
+      ['Cookie', 'a=1'],
+      ['Cookie', 'b=2'],
+      ['Accept', 'text/html'],
+      ['accept', '*/*'],
+    ])).toEqual({ 'content-type': 'text/plain', cookie: 'a=1; b=2', accept: 'text/html, */*' })
+  })
+
+  it('should fall back to the map for requests without raw headers', () => {
+    expect(getRawHeaders({ headers: '{"host":"a.test"}', rawHeaders: null })).toEqual([['host', 'a.test']])
+    expect(getRawHeaders({ headers: '{}', rawHeaders: '[["Host","a.test"],["X-A","1"],["X-A","2"]]' }))
+      .toEqual([['Host', 'a.test'], ['X-A', '1'], ['X-A', '2']])
+    expect(getRawHeaders({ headers: 'not json', rawHeaders: null })).toEqual([])
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import type { H3Event } from 'h3'
+import createH3Event from '../utils/createH3Event'
+import { getPayloadHostDomain, tokenLabelFromHost } from '../../server/lib/host-routing'
+import { useDatabase } from '../../server/lib/db'
+import { ensureLLMSession, LLM_SESSION_ID } from '../../server/lib/session'
+import { createTestDb, type TestDbContext } from '../utils/testDb'
+
+const DOMAIN = 'inspector.example.com'
+
+describe('host routing', () => {
+  afterEach(() => {
+    delete process.env.PAYLOAD_HOST_DOMAIN
+  })
+
+  describe('getPayloadHostDomain', () => {
+    it('should normalize the configured domain', () => {
+      expect(getPayloadHostDomain()).toBe('')
+
+      process.env.PAYLOAD_HOST_DOMAIN = ' .Inspector.Example.com. '
+      expect(getPayloadHostDomain()).toBe(DOMAIN)
+    })
+  })
+
+  describe('tokenLabelFromHost', () => {
+    it('should return the label of single level subdomains', () => {
+      expect(tokenLabelFromHost(`ab12CD34.${DOMAIN}`, DOMAIN)).toBe('ab12cd34')
+      expect(tokenLabelFromHost(`ab12cd34.${DOMAIN}:8080`, DOMAIN)).toBe('ab12cd34')
+      expect(tokenLabelFromHost(`ab12cd34.${DOMAIN}.`, DOMAIN)).toBe('ab12cd34')
+    })
+
+    it('should ignore other hosts', () => {
+      expect(tokenLabelFromHost(DOMAIN, DOMAIN)).toBeNull()
+      expect(tokenLabelFromHost(`a.b.${DOMAIN}`, DOMAIN)).toBeNull()
+      expect(tokenLabelFromHost(`ab12cd34.example.com`, DOMAIN)).toBeNull()
+      expect(tokenLabelFromHost(`evil${DOMAIN}`, DOMAIN)).toBeNull()
+      expect(tokenLabelFromHost(`ab12cd34.${DOMAIN}`, '')).toBeNull()
+      expect(tokenLabelFromHost(null, DOMAIN)).toBeNull()
+    })
+  })
+
+  describe('middleware', () => {
+    let testDb: TestDbContext
+    let db: ReturnType<typeof useDatabase>
+    let middleware: (event: H3Event) => Promise<unknown>
+
+    beforeEach(async () => {
+      testDb = await createTestDb()
+      db = useDatabase(testDb.dbFile, testDb.filesPath)
+      await ensureLLMSession()
+      middleware = (await import('../../server/middleware/0.host-routing')).default as (event: H3Event) => Promise<unknown>
+    })
+
+    afterEach(async () => {
+      await testDb.cleanup()
+    })
+
+    const request = (host: string, url = '/callback?x=1') => createH3Event({
+      node: { req: { method: 'GET', url, headers: { host } }, res: { end: () => {} } },
+      context: {},
+    })
+
+    it('should capture any path on a token subdomain', async () => {
+      process.env.PAYLOAD_HOST_DOMAIN = DOMAIN
+      const token = await db.tokens.create(LLM_SESSION_ID)
+
+      const event = request(`${token.friendlyId!.toLowerCase()}.${DOMAIN}`)
+      await middleware(event)
+
+      expect(event.node.res.statusCode).toBe(200)
+      const [captured] = await db.requests.list(LLM_SESSION_ID, token.id)
+      expect(captured).toMatchObject({ method: 'GET', url: '/callback?x=1', path: '/callback' })
+    })
+
+    it('should fall through for unknown labels and when the mode is off', async () => {
+      const token = await db.tokens.create(LLM_SESSION_ID)
+      const host = `${token.friendlyId}.${DOMAIN}`
+
+      expect(await middleware(request(host))).toBeUndefined()
+
+      process.env.PAYLOAD_HOST_DOMAIN = DOMAIN
+      expect(await middleware(request(`unknown.${DOMAIN}`))).toBeUndefined()
+      expect(await db.requests.list(LLM_SESSION_ID, token.id)).toHaveLength(0)
+    })
+  })
+})
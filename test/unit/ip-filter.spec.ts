@@ -0,0 +1,93 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { checkIpPolicy, DEFAULT_IP_POLICY, normalizeIpPolicyInput, parseCidr, parseIpPolicy } from '../../server/lib/ip-filter'
+import { resolveClientIp } from '../../server/lib/request-ingestion'
+
+const policy = (extra: Record<string, unknown> = {}) => ({ ...DEFAULT_IP_POLICY, ...extra })
+
+describe('IP allow/deny lists', () => {
+  describe('parseCidr', () => {
+    it('should accept addresses and ranges of both families', () => {
+      expect(parseCidr('192.0.2.7')).toEqual({ address: '192.0.2.7', prefix: 32, family: 'ipv4' })
+      expect(parseCidr(' 10.0.0.0/8 ')).toEqual({ address: '10.0.0.0', prefix: 8, family: 'ipv4' })
+      expect(parseCidr('2001:db8::/32')).toEqual({ address: '2001:db8::', prefix: 32, family: 'ipv6' })
+    })
+
+    it('should reject invalid entries', () => {
+      expect(parseCidr('example.com')).toBeNull()
+      expect(parseCidr('10.0.0.0/33')).toBeNull()
+      expect(parseCidr('10.0.0.0/x')).toBeNull()
+      expect(parseCidr('10.0.0.0/8/8')).toBeNull()
+    })
+  })
+
+  describe('normalizeIpPolicyInput', () => {
+    it('should merge with the stored policy and drop duplicates', () => {
+      const current = normalizeIpPolicyInput({ ipPolicy: { allow: '10.0.0.0/8\n10.0.0.0/8', status: 404 } }).ipPolicy ?? null
+
+      expect(parseIpPolicy(current)).toEqual(policy({ allow: ['10.0.0.0/8'], status: 404 }))
+      expect(parseIpPolicy(normalizeIpPolicyInput({ ipPolicy: { deny: ['10.0.0.1'] } }, current).ipPolicy ?? null))
+        .toEqual(policy({ allow: ['10.0.0.0/8'], deny: ['10.0.0.1'], status: 404 }))
+    })
+
+    it('should keep the lists of a stored policy whose status is no longer accepted', () => {
+      expect(parseIpPolicy(JSON.stringify({ allow: ['10.0.0.0/8'], deny: [], status: 204, recordBlocked: true })))
+        .toEqual(policy({ allow: ['10.0.0.0/8'], recordBlocked: true }))
+    })
+
+    it('should clear the policy with null or empty lists', () => {
+      expect(normalizeIpPolicyInput({})).toEqual({})
+      expect(normalizeIpPolicyInput({ ipPolicy: null })).toEqual({ ipPolicy: null })
+      expect(normalizeIpPolicyInput({ ipPolicy: { allow: [], deny: [], recordBlocked: true } })).toEqual({ ipPolicy: null })
+    })
+
+    it('should reject invalid values', () => {
+      expect(() => normalizeIpPolicyInput({ ipPolicy: [] })).toThrow()
+      expect(() => normalizeIpPolicyInput({ ipPolicy: { allow: ['not-an-ip'] } })).toThrow('not-an-ip')
+      expect(() => normalizeIpPolicyInput({ ipPolicy: { allow: ['10.0.0.1'], status: 99 } })).toThrow()
+      expect(() => normalizeIpPolicyInput({ ipPolicy: { allow: ['10.0.0.1'], status: 101 } })).toThrow('between 400 and 599')
+      expect(() => normalizeIpPolicyInput({ ipPolicy: { allow: ['10.0.0.1'], status: 200 } })).toThrow('between 400 and 599')
+      expect(() => normalizeIpPolicyInput({ ipPolicy: { allow: ['10.0.0.1'], recordBlocked: 'yes' } })).toThrow()
+    })
+  })
+
+  describe('checkIpPolicy', () => {
+    it('should allow everything without lists', () => {
+      expect(checkIpPolicy(policy(), '198.51.100.1')).toBeNull()
+      expect(checkIpPolicy(policy(), null)).toBeNull()
+    })
+
+    it('should only allow addresses in the allow list', () => {
+      const allowed = policy({ allow: ['192.0.2.0/24', '2001:db8::/32'] })
+
+      expect(checkIpPolicy(allowed, '192.0.2.44')).toBeNull()
+      expect(checkIpPolicy(allowed, '2001:db8::1')).toBeNull()
+      expect(checkIpPolicy(allowed, '::ffff:192.0.2.44')).toBeNull()
+      expect(checkIpPolicy(allowed, '198.51.100.1')).toBe('198.51.100.1 is not in the allow list')
+      expect(checkIpPolicy(allowed, 'garbage')).not.toBeNull()
+    })
+
+    it('should let the deny list win', () => {
+      const mixed = policy({ allow: ['192.0.2.0/24'], deny: ['192.0.2.66'] })
+
+      expect(checkIpPolicy(mixed, '192.0.2.66')).toBe('192.0.2.66 is in the deny list')
+      expect(checkIpPolicy(mixed, '192.0.2.67')).toBeNull()
+      expect(checkIpPolicy(policy({ deny: ['10.0.0.0/8'] }), '198.51.100.1')).toBeNull()
+    })
+  })
+
+  describe('resolveClientIp', () => {
+    afterEach(() => {
+      delete process.env.TRUST_PROXY_CLIENT_IP
+    })
+
+    it('should only honor forwarding headers behind a trusted proxy', () => {
+      const headers = { 'x-forwarded-for': '192.0.2.1, 10.0.0.1' }
+
+      expect(resolveClientIp(headers, '10.0.0.1')).toBe('10.0.0.1')
+
+      process.env.TRUST_PROXY_CLIENT_IP = 'true'
+      expect(resolveClientIp(headers, '10.0.0.1')).toBe('192.0.2.1')
+      expect(resolveClientIp({}, '10.0.0.1')).toBe('10.0.0.1')
+    })
+  })
+})
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import { decodeHeaderValue, decodeQuotedPrintable, parseEmail, parseHeaderParams } from '../../server/lib/mime'
+
+const message = (...lines: string[]) => Buffer.from(lines.join('\r\n'), 'utf8')
+
+describe('mime', () => {
+  describe('headers', () => {
+    it('should decode encoded words', () => {
+      expect(decodeHeaderValue('=?UTF-8?B?SMOpbGxv?= world')).toBe('Héllo world')
+      expect(decodeHeaderValue('=?ISO-8859-1?Q?caf=E9_au_lait?=')).toBe('café au lait')
+      expect(decodeHeaderValue('=?UTF-8?Q?a?= =?UTF-8?Q?b?=')).toBe('ab')
+    })
+
+    it('should parse parameters with continuations and charsets', () => {
+      expect(parseHeaderParams('Text/Plain; charset="utf-8"; format=flowed')).toEqual({
+        value: 'text/plain',
+        params: { charset: 'utf-8', format: 'flowed' },
+      })
+      expect(parseHeaderParams(`attachment; filename*0*=utf-8''r%C3%A9sum; filename*1=".pdf"`).params.filename).toBe('résum.pdf')
+    })
+
+    it('should decode quoted-printable with soft line breaks', () => {
+      expect(decodeQuotedPrintable('caf=C3=A9 =\r\nnoir').toString('utf8')).toBe('café noir')
+    })
+  })
+
+  describe('parseEmail', () => {
+    it('should read a plain message', () => {
+      const email = parseEmail(message(
+        'From: App <app@example.com>',
+        'To: abc@example.com',
+        'Subject: Hello',
+        '  there',
+        'Message-ID: <id-1@example.com>',
+        '',
+        'Body line',
+      ))
+
+      expect(email).toMatchObject({
+        from: 'App <app@example.com>',
+        to: 'abc@example.com',
+        subject: 'Hello there',
+        messageId: 'id-1@example.com',
+        text: 'Body line',
+        html: null,
+        attachments: [],
+      })
+    })
+
+    it('should split multipart messages into bodies and attachments', () => {
+      const email = parseEmail(message(
+        'Subject: =?UTF-8?B?UmVjZWlwdA==?=',
+        'Content-Type: multipart/mixed; boundary="outer"',
+        '',
+        'preamble',
+        '--outer',
+        'Content-Type: multipart/alternative; boundary=inner',
+        '',
+        '--inner',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: quoted-printable',
+        '',
+        'Total: 5 =E2=82=AC',
+        '--inner',
+        'Content-Type: text/html; charset=utf-8',
+        '',
+        '<p>Total: 5 €</p>',
+        '--inner--',
+        '--outer',
+        'Content-Type: application/pdf; name="receipt.pdf"',
+        'Content-Disposition: attachment',
+        'Content-Transfer-Encoding: base64',
+        '',
+        Buffer.from('%PDF-1.4').toString('base64'),
+        '--outer',
+        'Content-Type: image/png',
+        'Content-ID: <logo>',
+        'Content-Transfer-Encoding: base64',
+        '',
+        Buffer.from([0x89, 0x50]).toString('base64'),
+        '--outer--',
+        'epilogue',
+      ))
+
+      expect(email.subject).toBe('Receipt')
+      expect(email.text).toBe('Total: 5 €')
+      expect(email.html).toBe('<p>Total: 5 €</p>')
+      expect(email.attachments.map(a => [a.filename, a.contentType, a.contentId, a.inline, a.content.toString('latin1')])).toEqual([
+        ['receipt.pdf', 'application/pdf', null, false, '%PDF-1.4'],
+        ['attachment-2.png', 'image/png', 'logo', true, '\x89P'],
+      ])
+    })
+  })
+})
@@ -197,6 +197,58 @@ describe('Orphaned Files Cleanup', () => {
       expect(result.deletedFiles).toBe(0)
     })
 
+    it('should keep response bodies of existing requests and remove orphaned ones', async () => {
+      const token = await db.tokens.create(testSessionId)
+      const create = () => db.requests.create(
+        testSessionId,
+        token.id,
+        'POST',
+        { 'content-type': 'text/plain' },
+        null,
+        '/test',
+        '127.0.0.1',
+        '127.0.0.1'
+      )
+
+      const kept = await create()
+      const removed = await create()
+      const keptResponse = await db.responses.create(testSessionId, token.id, kept.id, {
+        source: 'proxy', status: 200, headers: {}, body: Buffer.from('upstream body'),
+      })
+      const removedResponse = await db.responses.create(testSessionId, token.id, removed.id, {
+        source: 'proxy', status: 200, headers: {}, body: Buffer.from('upstream body'),
+      })
+
+      expect(keptResponse.bodyPath).toMatch(/\.response\.bin$/)
+
+      // Delete request from database WITHOUT deleting the response file
+      await rawDb.delete(requests).where(sql`${requests.id} = ${removed.id}`)
+
+      const result = await cleanupOrphanedFiles(testDb.dbFile, testDb.filesPath)
+
+      expect(storage.exists(keptResponse.bodyPath!)).toBe(true)
+      expect(storage.exists(removedResponse.bodyPath!)).toBe(false)
+      expect(result.deletedFiles).toBe(1)
+    })
+
+    it('should keep the current response file of a token and remove replaced ones', async () => {
+      const token = await db.tokens.create(testSessionId)
+
+      const first = await db.tokens.setResponseFile(testSessionId, token.id, { name: 'a.png', type: 'image/png', data: Buffer.from([1, 2, 3]) })
+      const second = await db.tokens.setResponseFile(testSessionId, token.id, { name: 'b.png', type: 'image/png', data: Buffer.from([4, 5]) })
+
+      expect(storage.exists(first!.responseFilePath!)).toBe(false)
+      expect(second?.responseFileSize).toBe(2)
+
+      const result = await cleanupOrphanedFiles(testDb.dbFile, testDb.filesPath)
+
+      expect(storage.exists(second!.responseFilePath!)).toBe(true)
+      expect(result.deletedFiles).toBe(0)
+
+      await db.tokens._delete(testSessionId, token.id)
+      expect(storage.exists(second!.responseFilePath!)).toBe(false)
+    })
+
     it('should handle orphaned files created manually without database entries', async () => {
       // Create directory structure manually
       const orphanedSessionId = randomUUID()
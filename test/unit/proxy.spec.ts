@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest'
+import { createServer, type Server } from 'http'
+import type { AddressInfo } from 'net'
+import { Readable } from 'stream'
+import { buildUpstreamUrl, forwardRequest, normalizeProxyInput } from '../../server/lib/proxy'
+import { useDatabase } from '../../server/lib/db'
+import { ensureLLMSession, LLM_SESSION_ID } from '../../server/lib/session'
+import { createTestDb, type TestDbContext } from '../utils/testDb'
+
+describe('proxy mode', () => {
+  describe('normalizeProxyInput', () => {
+    it('should accept http(s) upstreams and clear empty values', () => {
+      expect(normalizeProxyInput({ responseMode: 'proxy', proxyUrl: ' https://api.example.com ' }))
+        .toEqual({ responseMode: 'proxy', proxyUrl: 'https://api.example.com' })
+      expect(normalizeProxyInput({ proxyUrl: '' })).toEqual({ proxyUrl: null })
+      expect(normalizeProxyInput({})).toEqual({})
+    })
+
+    it('should reject invalid values', () => {
+      expect(() => normalizeProxyInput({ responseMode: 'mirror' })).toThrow()
+      expect(() => normalizeProxyInput({ proxyUrl: 'not a url' })).toThrow()
+      expect(() => normalizeProxyInput({ proxyUrl: 'ftp://example.com' })).toThrow()
+      expect(() => normalizeProxyInput({ responseMode: 'proxy', proxyUrl: null })).toThrow()
+    })
+  })
+
+  describe('buildUpstreamUrl', () => {
+    it('should append the sub-path and query to the upstream', () => {
+      const token = '550e8400-e29b-41d4-a716-446655440000'
+      expect(buildUpstreamUrl('https://api.example.com/v1/', `/api/payload/${token}/orders/5?id=1`))
+        .toBe('https://api.example.com/v1/orders/5?id=1')
+      expect(buildUpstreamUrl('https://api.example.com/hook?key=a', `/api/payload/${token}?id=1`))
+        .toBe('https://api.example.com/hook?key=a&id=1')
+    })
+  })
+
+  describe('forwardRequest', () => {
+    let server: Server
+    let baseUrl: string
+
+    beforeAll(async () => {
+      server = createServer((req, res) => {
+        const chunks: Buffer[] = []
+        req.on('data', chunk => chunks.push(chunk))
+        req.on('end', () => {
+          res.setHeader('content-type', 'application/json')
+          res.setHeader('x-upstream', 'yes')
+          res.setHeader('set-cookie', ['session=abc; Path=/; HttpOnly', 'theme=dark; Expires=Wed, 21 Oct 2026 07:28:00 GMT'])
+          res.statusCode = 201
+          res.end(JSON.stringify({
+            method: req.method,
+            url: req.url,
+            header: req.headers['x-test'] ?? null,
+            body: Buffer.concat(chunks).toString('utf8'),
+          }))
+        })
+      })
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    })
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve))
+    })
+
+    it('should relay the request and capture the upstream response', async () => {
+      const res = await forwardRequest(`${baseUrl}/orders?id=1`, 'POST', {
+        'x-test': 'abc',
+        'host': 'inspector.local',
+        'connection': 'keep-alive',
+      }, Buffer.from('payload'))
+
+      expect(res.status).toBe(201)
+      expect(res.error).toBeNull()
+      expect(res.latencyMs).toBeGreaterThanOrEqual(0)
+      expect(res.headers['x-upstream']).toBe('yes')
+      expect(res.headers['connection']).toBeUndefined()
+      expect(JSON.parse(res.body?.toString('utf8') ?? '{}')).toEqual({
+        method: 'POST',
+        url: '/orders?id=1',
+        header: 'abc',
+        body: 'payload',
+      })
+    })
+
+    it('should keep each upstream cookie as its own header', async () => {
+      const res = await forwardRequest(`${baseUrl}/login`, 'POST', {}, null)
+
+      expect(res.headers['set-cookie']).toEqual(['session=abc; Path=/; HttpOnly', 'theme=dark; Expires=Wed, 21 Oct 2026 07:28:00 GMT'])
+    })
+
+    it('should relay a streamed body', async () => {
+      const res = await forwardRequest(`${baseUrl}/upload`, 'PUT', {}, Readable.from([Buffer.from('stream'), Buffer.from('ed')]))
+
+      expect(res.status).toBe(201)
+      expect(JSON.parse(res.body?.toString('utf8') ?? '{}').body).toBe('streamed')
+    })
+
+    it('should answer 502 when the upstream is unreachable', async () => {
+      const res = await forwardRequest('http://127.0.0.1:1/', 'GET', {}, null)
+
+      expect(res.status).toBe(502)
+      expect(res.error).toContain('Upstream request failed')
+    })
+  })
+
+  describe('responses', () => {
+    let testDb: TestDbContext
+    let db: ReturnType<typeof useDatabase>
+
+    beforeEach(async () => {
+      testDb = await createTestDb()
+      db = useDatabase(testDb.dbFile, testDb.filesPath)
+      await ensureLLMSession()
+    })
+
+    afterEach(async () => {
+      await testDb.cleanup()
+    })
+
+    it('should store the upstream response with the request and remove it with the request', async () => {
+      const token = await db.tokens.create(LLM_SESSION_ID)
+      const request = await db.requests.create(LLM_SESSION_ID, token.id, 'GET', {}, null, `/api/payload/${token.id}`, '127.0.0.1', '127.0.0.1')
+
+      await db.responses.create(LLM_SESSION_ID, token.id, request.id, {
+        source: 'proxy',
+        status: 200,
+        headers: { 'content-type': 'text/plain' },
+        body: Buffer.from('hello'),
+        latencyMs: 12,
+      })
+
+      const stored = await db.responses.get(request.id)
+      expect(stored).toMatchObject({ source: 'proxy', status: 200, contentType: 'text/plain', contentLength: 5, latencyMs: 12 })
+      expect(Buffer.from((await db.responses.getBody(request.id)) ?? []).toString('utf8')).toBe('hello')
+
+      await db.requests._delete(LLM_SESSION_ID, token.id, request.id)
+      expect(await db.responses.get(request.id)).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { randomUUID } from 'crypto'
+import { checkRequestQuota, consumeRateLimit, normalizeRateLimitInput, resetRateLimit } from '../../server/lib/rate-limit'
+
+const NOW = 1_700_000_000_000
+
+const limited = (extra: Record<string, unknown> = {}) => ({
+  id: randomUUID(),
+  sessionId: randomUUID(),
+  rateLimitPerMinute: null as number | null,
+  maxRequests: null as number | null,
+  rateLimitRetryAfter: 60,
+  ...extra,
+})
+
+describe('rate limits', () => {
+  afterEach(() => {
+    delete process.env.SESSION_RATE_LIMIT
+    delete process.env.SESSION_MAX_REQUESTS
+  })
+
+  describe('normalizeRateLimitInput', () => {
+    it('should keep only present fields and clear empty limits', () => {
+      expect(normalizeRateLimitInput({})).toEqual({})
+      expect(normalizeRateLimitInput({ rateLimitPerMinute: '30', maxRequests: '', rateLimitRetryAfter: 5 }))
+        .toEqual({ rateLimitPerMinute: 30, maxRequests: null, rateLimitRetryAfter: 5 })
+      expect(normalizeRateLimitInput({ rateLimitPerMinute: 0, rejectedCountReset: true }))
+        .toEqual({ rateLimitPerMinute: 0, rejectedCount: 0 })
+    })
+
+    it('should reject invalid values', () => {
+      expect(() => normalizeRateLimitInput({ rateLimitPerMinute: -1 })).toThrow()
+      expect(() => normalizeRateLimitInput({ maxRequests: 1.5 })).toThrow()
+      expect(() => normalizeRateLimitInput({ rateLimitRetryAfter: 'soon' })).toThrow()
+      expect(() => normalizeRateLimitInput({ rateLimitRetryAfter: 86401 })).toThrow()
+    })
+  })
+
+  describe('consumeRateLimit', () => {
+    it('should allow requests up to the per minute limit', () => {
+      const token = limited({ rateLimitPerMinute: 2, rateLimitRetryAfter: 10 })
+
+      expect(consumeRateLimit(token, NOW)).toBeNull()
+      expect(consumeRateLimit(token, NOW + 1000)).toBeNull()
+      expect(consumeRateLimit(token, NOW + 2000)).toEqual({
+        scope: 'token',
+        reason: 'rate',
+        retryAfter: 10,
+        message: 'Rate limit of 2 requests per minute exceeded for this token',
+      })
+    })
+
+    it('should start a new window after a minute or a reset', () => {
+      const token = limited({ rateLimitPerMinute: 1 })
+
+      expect(consumeRateLimit(token, NOW)).toBeNull()
+      expect(consumeRateLimit(token, NOW + 1000)).not.toBeNull()
+      expect(consumeRateLimit(token, NOW + 60_000)).toBeNull()
+
+      resetRateLimit(token.id)
+      expect(consumeRateLimit(token, NOW + 60_000)).toBeNull()
+    })
+
+    it('should reject everything with a limit of 0 and nothing without one', () => {
+      expect(consumeRateLimit(limited({ rateLimitPerMinute: 0 }), NOW)?.reason).toBe('rate')
+      expect(consumeRateLimit(limited(), NOW)).toBeNull()
+    })
+
+    it('should share the session limit between tokens', () => {
+      process.env.SESSION_RATE_LIMIT = '2'
+      const sessionId = randomUUID()
+
+      expect(consumeRateLimit(limited({ sessionId }), NOW)).toBeNull()
+      expect(consumeRateLimit(limited({ sessionId }), NOW)).toBeNull()
+      expect(consumeRateLimit(limited({ sessionId }), NOW)?.scope).toBe('session')
+    })
+
+    it('should not use up the session allowance when the token rejects', () => {
+      process.env.SESSION_RATE_LIMIT = '1'
+      const sessionId = randomUUID()
+
+      expect(consumeRateLimit(limited({ sessionId, rateLimitPerMinute: 0 }), NOW)?.scope).toBe('token')
+      expect(consumeRateLimit(limited({ sessionId }), NOW)).toBeNull()
+    })
+  })
+
+  describe('checkRequestQuota', () => {
+    beforeEach(() => {
+      delete process.env.SESSION_MAX_REQUESTS
+    })
+
+    it('should reject once the token stores its maximum', () => {
+      const token = limited({ maxRequests: 3 })
+
+      expect(checkRequestQuota(token, { token: 2, session: 2 })).toBeNull()
+      expect(checkRequestQuota(token, { token: 3, session: 3 })).toMatchObject({ scope: 'token', reason: 'quota' })
+    })
+
+    it('should apply SESSION_MAX_REQUESTS across tokens', () => {
+      process.env.SESSION_MAX_REQUESTS = '10'
+
+      expect(checkRequestQuota(limited(), { token: 0, session: 9 })).toBeNull()
+      expect(checkRequestQuota(limited(), { token: 0, session: 10 })).toMatchObject({ scope: 'session', reason: 'quota' })
+    })
+  })
+})
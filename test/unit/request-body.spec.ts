@@ -0,0 +1,30 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { getMaxBodySize, parseSize } from '../../server/lib/request-body'
+
+describe('request-body', () => {
+  afterEach(() => {
+    delete process.env.MAX_BODY_SIZE
+  })
+
+  describe('parseSize', () => {
+    it('should parse bytes and k/m/g suffixes', () => {
+      expect(parseSize('1024')).toBe(1024)
+      expect(parseSize('512k')).toBe(512 * 1024)
+      expect(parseSize('50MB')).toBe(50 * 1024 * 1024)
+      expect(parseSize(' 1g ')).toBe(1024 ** 3)
+    })
+
+    it('should treat empty or invalid values as no limit', () => {
+      expect(parseSize(undefined)).toBe(0)
+      expect(parseSize('')).toBe(0)
+      expect(parseSize('lots')).toBe(0)
+      expect(parseSize('-5')).toBe(0)
+    })
+  })
+
+  it('should read the limit from MAX_BODY_SIZE', () => {
+    expect(getMaxBodySize()).toBe(0)
+    process.env.MAX_BODY_SIZE = '2m'
+    expect(getMaxBodySize()).toBe(2 * 1024 * 1024)
+  })
+})
@@ -1,5 +1,6 @@
-import { describe, it, expect } from 'vitest'
-import { parseRawRequest, determineClientIp } from '../../server/lib/request-ingestion'
+import { describe, it, expect, afterEach } from 'vitest'
+import type { IncomingMessage } from 'http'
+import { parseRawRequest, determineClientIp, resolveProtocol } from '../../server/lib/request-ingestion'
 
 describe('request-ingestion shared utilities', () => {
   describe('parseRawRequest', () => {
@@ -89,6 +90,20 @@ describe('request-ingestion shared utilities', () => {
       
       expect(result.headers['user-agent']).toBe('Mozilla/5.0 (X11; Linux x86_64)')
     })
+
+    it('should keep repeated headers in order with their casing', () => {
+      const raw = 'GET /test HTTP/1.1\r\nHost: example.com\r\nX-Trace: a\r\nset-cookie: one=1\r\nSet-Cookie: two=2\r\nx-trace: b\r\n\r\n'
+      const result = parseRawRequest(raw)
+
+      expect(result.rawHeaders).toEqual([
+        ['Host', 'example.com'],
+        ['X-Trace', 'a'],
+        ['set-cookie', 'one=1'],
+        ['Set-Cookie', 'two=2'],
+        ['x-trace', 'b'],
+      ])
+      expect(result.headers).toEqual({ host: 'example.com', 'x-trace': 'a, b', 'set-cookie': 'one=1,two=2' })
+    })
   })
 
   describe('determineClientIp', () => {
@@ -136,4 +151,31 @@ describe('request-ingestion shared utilities', () => {
       expect(determineClientIp(headers)).toBe('203.0.113.1')
     })
   })
+
+  describe('resolveProtocol', () => {
+    const req = (httpVersion: string, encrypted: boolean, localPort = 8080) => ({ httpVersion, socket: { encrypted, localPort } }) as unknown as IncomingMessage
+
+    afterEach(() => {
+      delete process.env.TRUST_PROXY_CLIENT_IP
+    })
+
+    it('should describe the connection and how the body was framed', () => {
+      expect(resolveProtocol(req('1.1', false), { 'transfer-encoding': 'gzip, chunked' })).toEqual({
+        httpVersion: '1.1',
+        tls: false,
+        serverPort: 8080,
+        bodyFraming: 'chunked',
+      })
+      expect(resolveProtocol(req('2.0', true, 443), { 'content-length': '12' })).toMatchObject({ tls: true, serverPort: 443, bodyFraming: 'content-length' })
+      expect(resolveProtocol(req('1.0', false), {}).bodyFraming).toBeNull()
+    })
+
+    it('should only honor forwarded protocol and port from a trusted proxy', () => {
+      const headers = { 'x-forwarded-proto': 'https, http', 'x-forwarded-port': '443' }
+      expect(resolveProtocol(req('1.1', false), headers)).toMatchObject({ tls: false, serverPort: 8080 })
+
+      process.env.TRUST_PROXY_CLIENT_IP = 'true'
+      expect(resolveProtocol(req('1.1', false), headers)).toMatchObject({ tls: true, serverPort: 443 })
+    })
+  })
 })
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { EventEmitter } from 'events'
+import type { IncomingMessage, ServerResponse } from 'http'
+import { normalizeDelayInput, resolveDelay, waitForResponseDelay, MAX_RESPONSE_DELAY_MS } from '../../server/lib/response-delay'
+import type { ResponseDelayMode } from '../../shared/types'
+
+const settings = (responseDelayMode: ResponseDelayMode, responseDelayMs = 0, responseDelayMaxMs = 0) => ({
+  responseDelayMode,
+  responseDelayMs,
+  responseDelayMaxMs,
+})
+
+const createConnection = () => {
+  const socket = new EventEmitter()
+  const res = Object.assign(new EventEmitter(), { destroyed: false, writableEnded: false })
+  return {
+    socket,
+    res,
+    req: { socket } as unknown as IncomingMessage,
+    response: res as unknown as ServerResponse,
+  }
+}
+
+describe('response delay', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  describe('normalizeDelayInput', () => {
+    it('should only return provided fields', () => {
+      expect(normalizeDelayInput({})).toEqual({})
+      expect(normalizeDelayInput({ responseDelayMode: 'fixed', responseDelayMs: 1500 })).toEqual({
+        responseDelayMode: 'fixed',
+        responseDelayMs: 1500,
+      })
+    })
+
+    it('should reject invalid values', () => {
+      expect(() => normalizeDelayInput({ responseDelayMode: 'slow' })).toThrow()
+      expect(() => normalizeDelayInput({ responseDelayMs: -1 })).toThrow()
+      expect(() => normalizeDelayInput({ responseDelayMaxMs: MAX_RESPONSE_DELAY_MS + 1 })).toThrow()
+      expect(() => normalizeDelayInput({ responseDelayMs: 1.5 })).toThrow()
+    })
+  })
+
+  describe('resolveDelay', () => {
+    it('should resolve each mode', () => {
+      expect(resolveDelay(settings('none', 500))).toBe(0)
+      expect(resolveDelay(settings('fixed', 500))).toBe(500)
+      expect(resolveDelay(settings('hang'))).toBeNull()
+    })
+
+    it('should pick a value within the random range', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.999)
+      expect(resolveDelay(settings('random', 100, 200))).toBe(200)
+      vi.spyOn(Math, 'random').mockReturnValue(0)
+      expect(resolveDelay(settings('random', 200, 100))).toBe(100)
+    })
+  })
+
+  describe('waitForResponseDelay', () => {
+    it('should resolve immediately without a delay', async () => {
+      const { req, response } = createConnection()
+      await expect(waitForResponseDelay(settings('none'), req, response)).resolves.toBe(true)
+    })
+
+    it('should wait for fixed delays', async () => {
+      vi.useFakeTimers()
+      const { req, response } = createConnection()
+      const pending = waitForResponseDelay(settings('fixed', 1000), req, response)
+      await vi.advanceTimersByTimeAsync(1000)
+      await expect(pending).resolves.toBe(true)
+    })
+
+    it('should stop waiting when the client disconnects', async () => {
+      vi.useFakeTimers()
+      const { req, response, socket } = createConnection()
+      const pending = waitForResponseDelay(settings('fixed', 60000), req, response)
+      socket.emit('close')
+      await expect(pending).resolves.toBe(false)
+    })
+
+    it('should hang until the client disconnects', async () => {
+      const { req, response, res } = createConnection()
+      let settled = false
+      const pending = waitForResponseDelay(settings('hang'), req, response).then((value) => {
+        settled = true
+        return value
+      })
+      await new Promise(resolve => setTimeout(resolve, 10))
+      expect(settled).toBe(false)
+      res.emit('close')
+      await expect(pending).resolves.toBe(false)
+    })
+  })
+})
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest'
+import { MAX_RESPONSE_FILE_BYTES, normalizeResponseFileInput } from '../../server/lib/response-file'
+
+describe('normalizeResponseFileInput', () => {
+  it('should decode base64 and data URLs', () => {
+    expect(normalizeResponseFileInput({ responseFile: { base64: 'aGVsbG8=', filename: 'a.txt', contentType: 'text/plain' } }))
+      .toEqual({ name: 'a.txt', type: 'text/plain', data: Buffer.from('hello') })
+
+    expect(normalizeResponseFileInput({ responseFile: { base64: 'data:image/png;base64,AAEC' } }))
+      .toEqual({ name: null, type: 'image/png', data: Buffer.from([0, 1, 2]) })
+  })
+
+  it('should tell apart a missing field and a removal', () => {
+    expect(normalizeResponseFileInput({})).toBeUndefined()
+    expect(normalizeResponseFileInput({ responseFile: null })).toBeNull()
+  })
+
+  it('should reject invalid input', () => {
+    expect(() => normalizeResponseFileInput({ responseFile: 'aGVsbG8=' })).toThrow()
+    expect(() => normalizeResponseFileInput({ responseFile: { base64: '' } })).toThrow()
+    expect(() => normalizeResponseFileInput({ responseFile: { base64: 'not base64!' } })).toThrow()
+    expect(() => normalizeResponseFileInput({ responseFile: { base64: 'data:text/plain,hello' } })).toThrow()
+    expect(() => normalizeResponseFileInput({
+      responseFile: { base64: Buffer.alloc(MAX_RESPONSE_FILE_BYTES + 1).toString('base64') },
+    })).toThrow()
+  })
+})
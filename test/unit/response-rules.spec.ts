@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest'
+import { extractSubPath, globToRegExp, parseConditions, matchesRule, findMatchingRule } from '../../shared/rules'
+import type { MatchableRule } from '../../shared/rules'
+import { createTemplateContext } from '../../shared/template'
+import { normalizeRuleInput } from '../../server/lib/response-rules'
+
+const rule = (overrides: Partial<MatchableRule & { id: string }> = {}) => ({
+  id: 'r',
+  enabled: true,
+  method: null,
+  pathPattern: null,
+  conditions: null,
+  ...overrides,
+})
+
+describe('response rules', () => {
+  const ctx = createTemplateContext(
+    'POST',
+    '/api/payload/abc/v1/orders?mode=test',
+    { 'X-Event-Type': 'order.created' },
+    '{"data":{"status":"paid","items":[{"sku":"A1"}]}}'
+  )
+
+  describe('extractSubPath', () => {
+    it('should strip the payload prefix', () => {
+      expect(extractSubPath('/api/payload/abc/v1/orders?x=1')).toBe('/v1/orders')
+      expect(extractSubPath('/api/payload/abc')).toBe('/')
+      expect(extractSubPath('/api/payload/abc/')).toBe('/')
+    })
+  })
+
+  describe('globToRegExp', () => {
+    it('should match single and multi segment wildcards', () => {
+      expect(globToRegExp('/v1/*').test('/v1/orders')).toBe(true)
+      expect(globToRegExp('/v1/*').test('/v1/orders/1')).toBe(false)
+      expect(globToRegExp('/v1/**').test('/v1/orders/1')).toBe(true)
+      expect(globToRegExp('/v?/orders').test('/v2/orders')).toBe(true)
+      expect(globToRegExp('/a.b').test('/aXb')).toBe(false)
+    })
+  })
+
+  describe('parseConditions', () => {
+    it('should drop invalid conditions', () => {
+      expect(parseConditions([
+        { source: 'query', key: 'mode', operator: 'equals', value: 'test' },
+        { source: 'cookie', key: 'x', operator: 'equals' },
+        { source: 'header', key: '', operator: 'exists' },
+        { source: 'header', key: 'x', operator: 'nope' },
+      ])).toEqual([{ source: 'query', key: 'mode', operator: 'equals', value: 'test' }])
+      expect(parseConditions('not json')).toEqual([])
+    })
+  })
+
+  describe('matchesRule', () => {
+    it('should match on method and path', () => {
+      expect(matchesRule(rule({ method: 'get, post' }), ctx, '/v1/orders')).toBe(true)
+      expect(matchesRule(rule({ method: 'GET' }), ctx, '/v1/orders')).toBe(false)
+      expect(matchesRule(rule({ pathPattern: '/v1/*' }), ctx, '/v1/orders')).toBe(true)
+      expect(matchesRule(rule({ pathPattern: '/v2/*' }), ctx, '/v1/orders')).toBe(false)
+    })
+
+    it('should evaluate query, header and body conditions', () => {
+      expect(matchesRule(rule({
+        conditions: [
+          { source: 'query', key: 'mode', operator: 'equals', value: 'test' },
+          { source: 'header', key: 'x-event-type', operator: 'contains', value: 'order.' },
+          { source: 'body', key: 'data.items[0].sku', operator: 'regex', value: '^A\\d$' },
+          { source: 'body', key: 'data.refund', operator: 'missing' },
+        ],
+      }), ctx, '/')).toBe(true)
+
+      expect(matchesRule(rule({
+        conditions: JSON.stringify([{ source: 'body', key: 'data.status', operator: 'equals', value: 'failed' }]),
+      }), ctx, '/')).toBe(false)
+    })
+
+    it('should never match disabled rules', () => {
+      expect(matchesRule(rule({ enabled: false }), ctx, '/')).toBe(false)
+    })
+  })
+
+  describe('findMatchingRule', () => {
+    it('should return the first matching rule in order', () => {
+      const rules = [
+        rule({ id: 'a', method: 'GET' }),
+        rule({ id: 'b', pathPattern: '/v1/**' }),
+        rule({ id: 'c' }),
+      ]
+      expect(findMatchingRule(rules, ctx, '/v1/orders')?.id).toBe('b')
+      expect(findMatchingRule(rules, ctx, '/other')?.id).toBe('c')
+      expect(findMatchingRule([rules[0]!], ctx, '/')).toBeNull()
+    })
+  })
+
+  describe('normalizeRuleInput', () => {
+    it('should only return provided fields', () => {
+      expect(normalizeRuleInput({ enabled: false })).toEqual({ enabled: false })
+    })
+
+    it('should normalize values', () => {
+      expect(normalizeRuleInput({
+        method: 'post',
+        pathPattern: 'v1/**',
+        responseHeaders: { 'Content-Type': 'application/json', ' ': 'x' },
+        responseBody: '',
+        conditions: [],
+      })).toEqual({
+        method: 'POST',
+        pathPattern: '/v1/**',
+        responseHeaders: '{"Content-Type":"application/json"}',
+        responseBody: null,
+        conditions: null,
+      })
+    })
+
+    it('should reject invalid values', () => {
+      expect(() => normalizeRuleInput({ responseStatus: 42 })).toThrow()
+      expect(() => normalizeRuleInput({ conditions: 'x' })).toThrow()
+    })
+  })
+})
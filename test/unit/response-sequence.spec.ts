@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { normalizeSequenceInput, parseSequence, sequenceIndex } from '../../server/lib/response-sequence'
+import { useDatabase } from '../../server/lib/db'
+import { ensureLLMSession, LLM_SESSION_ID } from '../../server/lib/session'
+import { createTestDb, type TestDbContext } from '../utils/testDb'
+
+describe('response sequences', () => {
+  describe('normalizeSequenceInput', () => {
+    it('should normalize steps and reset the position when they change', () => {
+      const out = normalizeSequenceInput({
+        responseSequence: [{ status: 500 }, { status: '200', headers: { 'Retry-After': 5 }, body: 'ok' }],
+        responseSequenceMode: 'loop',
+      })
+
+      expect(out.responseSequenceMode).toBe('loop')
+      expect(out.responseSequencePosition).toBe(0)
+      expect(parseSequence(out.responseSequence ?? null)).toEqual([
+        { status: 500, headers: null, body: null },
+        { status: 200, headers: { 'Retry-After': '5' }, body: 'ok' },
+      ])
+    })
+
+    it('should keep the position when the steps are unchanged', () => {
+      const current = normalizeSequenceInput({ responseSequence: [{ status: 503 }] }).responseSequence ?? null
+      expect(normalizeSequenceInput({ responseSequence: [{ status: 503 }] }, current)).toEqual({ responseSequence: current })
+      expect(normalizeSequenceInput({ responseSequenceReset: true }, current)).toEqual({ responseSequencePosition: 0 })
+    })
+
+    it('should clear the sequence with null or an empty list', () => {
+      expect(normalizeSequenceInput({ responseSequence: [] }).responseSequence).toBeNull()
+      expect(normalizeSequenceInput({ responseSequence: null }).responseSequence).toBeNull()
+    })
+
+    it('should reject invalid values', () => {
+      expect(() => normalizeSequenceInput({ responseSequence: 'x' })).toThrow()
+      expect(() => normalizeSequenceInput({ responseSequence: [{ status: 99 }] })).toThrow()
+      expect(() => normalizeSequenceInput({ responseSequence: [{ headers: [] }] })).toThrow()
+      expect(() => normalizeSequenceInput({ responseSequenceMode: 'shuffle' })).toThrow()
+    })
+  })
+
+  describe('sequenceIndex', () => {
+    it('should loop or stick after the last step', () => {
+      expect([0, 1, 2, 3, 4].map(p => sequenceIndex(p, 3, 'loop'))).toEqual([0, 1, 2, 0, 1])
+      expect([0, 1, 2, 3, 4].map(p => sequenceIndex(p, 3, 'stick'))).toEqual([0, 1, 2, 2, 2])
+      expect(sequenceIndex(0, 0, 'loop')).toBe(-1)
+    })
+  })
+
+  describe('tokens.advanceSequence', () => {
+    let testDb: TestDbContext
+    let db: ReturnType<typeof useDatabase>
+
+    beforeEach(async () => {
+      testDb = await createTestDb()
+      db = useDatabase(testDb.dbFile, testDb.filesPath)
+      await ensureLLMSession()
+    })
+
+    afterEach(async () => {
+      await testDb.cleanup()
+    })
+
+    it('should return the position answering each request and persist it', async () => {
+      const token = await db.tokens.create(LLM_SESSION_ID)
+
+      expect(await db.tokens.advanceSequence(token.id)).toBe(0)
+      expect(await db.tokens.advanceSequence(token.id)).toBe(1)
+      expect((await db.tokens.get(LLM_SESSION_ID, token.id))?.responseSequencePosition).toBe(2)
+
+      await db.tokens.update(LLM_SESSION_ID, token.id, { responseSequencePosition: 0 })
+      expect(await db.tokens.advanceSequence(token.id)).toBe(0)
+    })
+  })
+})
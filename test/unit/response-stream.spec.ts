@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { EventEmitter } from 'events'
+import type { IncomingMessage, ServerResponse } from 'http'
+import {
+  formatStreamChunk,
+  normalizeStreamInput,
+  parseStream,
+  writeStream,
+  MAX_CHUNK_DELAY_MS,
+  MAX_STREAM_CHUNKS,
+} from '../../server/lib/response-stream'
+
+const createConnection = (flushed = true) => {
+  const socket = new EventEmitter()
+  const writes: string[] = []
+  const res = Object.assign(new EventEmitter(), {
+    destroyed: false,
+    writableEnded: false,
+    flushHeaders: vi.fn(),
+    write: (data: Buffer) => writes.push(data.toString()) && flushed,
+    end: vi.fn(function (this: { writableEnded: boolean }) {
+      this.writableEnded = true
+    }),
+  })
+  return {
+    socket,
+    res,
+    writes,
+    req: { socket } as unknown as IncomingMessage,
+    response: res as unknown as ServerResponse,
+  }
+}
+
+describe('response stream', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe('normalizeStreamInput', () => {
+    it('should keep only present fields', () => {
+      expect(normalizeStreamInput({})).toEqual({})
+      expect(normalizeStreamInput({ responseStream: null, responseStreamFormat: 'chunked' }))
+        .toEqual({ responseStream: null, responseStreamFormat: 'chunked' })
+    })
+
+    it('should normalize chunks', () => {
+      const out = normalizeStreamInput({ responseStream: [{ data: 'hi' }, { data: 1, delayMs: '250', event: 'tick', id: '' }] })
+
+      expect(parseStream(out.responseStream ?? null)).toEqual([
+        { data: 'hi', delayMs: 0, event: null, id: null },
+        { data: '1', delayMs: 250, event: 'tick', id: null },
+      ])
+    })
+
+    it('should reject invalid values', () => {
+      expect(() => normalizeStreamInput({ responseStream: 'data' })).toThrow()
+      expect(() => normalizeStreamInput({ responseStream: ['data'] })).toThrow()
+      expect(() => normalizeStreamInput({ responseStream: [{ data: 'x', delayMs: MAX_CHUNK_DELAY_MS + 1 }] })).toThrow()
+      expect(() => normalizeStreamInput({ responseStream: [{ data: 'x', event: 'a\nb' }] })).toThrow()
+      expect(() => normalizeStreamInput({ responseStream: Array.from({ length: MAX_STREAM_CHUNKS + 1 }, () => ({ data: 'x' })) })).toThrow()
+      expect(() => normalizeStreamInput({ responseStreamFormat: 'ndjson' })).toThrow()
+      expect(() => normalizeStreamInput({ responseStreamLoop: 'yes' })).toThrow()
+    })
+
+    it('should refuse loops without a delay', () => {
+      expect(() => normalizeStreamInput({ responseStream: [{ data: 'x' }], responseStreamLoop: true })).toThrow(/delay/)
+      expect(() => normalizeStreamInput({ responseStreamLoop: true }, { responseStream: '[{"data":"x","delayMs":0}]', responseStreamLoop: false })).toThrow(/delay/)
+      expect(normalizeStreamInput({ responseStream: [{ data: 'x', delayMs: 100 }], responseStreamLoop: true }).responseStreamLoop).toBe(true)
+    })
+  })
+
+  describe('formatStreamChunk', () => {
+    it('should write server-sent events with one data line per line', () => {
+      expect(formatStreamChunk({ data: 'a\nb', delayMs: 0, event: 'delta', id: '7' }, 'sse'))
+        .toBe('event: delta\nid: 7\ndata: a\ndata: b\n\n')
+      expect(formatStreamChunk({ data: '', delayMs: 0 }, 'sse')).toBe('data: \n\n')
+    })
+
+    it('should write raw data when chunked', () => {
+      expect(formatStreamChunk({ data: 'a\nb', delayMs: 0, event: 'ignored' }, 'chunked')).toBe('a\nb')
+    })
+  })
+
+  describe('writeStream', () => {
+    it('should write chunks as their delays pass and end the response', async () => {
+      vi.useFakeTimers()
+      const { req, response, res, writes } = createConnection()
+      const chunks = [{ data: 'one', delayMs: 0 }, { data: 'two', delayMs: 500 }]
+
+      const pending = writeStream(chunks, { format: 'chunked', loop: false }, req, response)
+      await vi.advanceTimersByTimeAsync(0)
+      expect(writes).toEqual(['one'])
+
+      await vi.advanceTimersByTimeAsync(500)
+      await expect(pending).resolves.toEqual({ body: Buffer.from('onetwo'), completed: true })
+      expect(res.end).toHaveBeenCalled()
+    })
+
+    it('should loop until the client disconnects', async () => {
+      vi.useFakeTimers()
+      const { req, response, res, socket, writes } = createConnection()
+
+      const pending = writeStream([{ data: 'tick', delayMs: 100 }], { format: 'sse', loop: true }, req, response)
+      await vi.advanceTimersByTimeAsync(350)
+      socket.emit('close')
+
+      const result = await pending
+      expect(writes).toHaveLength(3)
+      expect(result.completed).toBe(false)
+      expect(result.body.toString()).toBe('data: tick\n\n'.repeat(3))
+      expect(res.end).not.toHaveBeenCalled()
+    })
+
+    it('should wait for a slow client to drain before writing more', async () => {
+      const { req, response, res, writes } = createConnection(false)
+
+      const pending = writeStream([{ data: 'a', delayMs: 0 }, { data: 'b', delayMs: 0 }], { format: 'chunked', loop: false }, req, response)
+      await new Promise(resolve => setImmediate(resolve))
+      expect(writes).toEqual(['a'])
+
+      res.emit('drain')
+      await new Promise(resolve => setImmediate(resolve))
+      expect(writes).toEqual(['a', 'b'])
+
+      res.emit('close')
+      await expect(pending).resolves.toMatchObject({ completed: false })
+    })
+  })
+})
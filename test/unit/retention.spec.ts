@@ -0,0 +1,248 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { eq } from 'drizzle-orm'
+import { randomUUID } from 'crypto'
+import type { H3Event } from 'h3'
+import createH3Event from '../utils/createH3Event'
+import {
+  getPrunePolicy,
+  normalizeRetentionInput,
+  MAX_KEEP_LAST_REQUESTS,
+  DEFAULT_RETENTION_POLICY,
+  getEnvRetentionPolicy,
+  getRetentionPolicy,
+  normalizeRetentionPolicyInput,
+  updateRetentionPolicy,
+} from '../../server/lib/retention'
+import adminMiddleware from '../../server/middleware/admin'
+import { cleanupExpiredData } from '../../server/lib/cleanup'
+import { ingestRequest } from '../../server/lib/request-ingestion'
+import { useDatabase } from '../../server/lib/db'
+import { getDb } from '../../server/db'
+import { sessions, tokens, requests } from '../../server/db/schema'
+import { createTestDb, type TestDbContext } from '../utils/testDb'
+
+const DAY = 24 * 60 * 60 * 1000
+
+const retained = (extra: Record<string, unknown> = {}) => ({ pinned: false, requestTtlMinutes: null, keepLastRequests: null, ...extra })
+
+describe('token retention', () => {
+  describe('normalizeRetentionInput', () => {
+    it('should keep only present fields', () => {
+      expect(normalizeRetentionInput({})).toEqual({})
+      expect(normalizeRetentionInput({ pinned: true, requestTtlMinutes: 60, keepLastRequests: '' }))
+        .toEqual({ pinned: true, requestTtlMinutes: 60, keepLastRequests: null })
+    })
+
+    it('should reject invalid values', () => {
+      expect(() => normalizeRetentionInput({ pinned: 'yes' })).toThrow()
+      expect(() => normalizeRetentionInput({ requestTtlMinutes: 0 })).toThrow()
+      expect(() => normalizeRetentionInput({ keepLastRequests: 1.5 })).toThrow()
+      expect(() => normalizeRetentionInput({ keepLastRequests: MAX_KEEP_LAST_REQUESTS + 1 })).toThrow()
+    })
+  })
+
+  describe('getPrunePolicy', () => {
+    it('should skip tokens without overrides', () => {
+      expect(getPrunePolicy(retained())).toBeNull()
+      expect(getPrunePolicy(retained({ pinned: true, requestTtlMinutes: 5 }))).toBeNull()
+    })
+
+    it('should apply the TTL unless pinned and the ring buffer always', () => {
+      const now = new Date('2025-01-01T12:00:00Z')
+
+      expect(getPrunePolicy(retained({ requestTtlMinutes: 30 }), now))
+        .toEqual({ olderThan: new Date('2025-01-01T11:30:00Z'), keepLast: null })
+      expect(getPrunePolicy(retained({ pinned: true, requestTtlMinutes: 30, keepLastRequests: 3 }), now))
+        .toEqual({ olderThan: null, keepLast: 3 })
+    })
+  })
+
+  describe('global policy', () => {
+    it('should read the environment and ignore invalid values', () => {
+      expect(getEnvRetentionPolicy({})).toEqual(DEFAULT_RETENTION_POLICY)
+      expect(getEnvRetentionPolicy({ SESSION_TTL_DAYS: '90', TOKEN_TTL_DAYS: ' 14 ', REQUEST_TTL_DAYS: 'soon' }))
+        .toEqual({ sessionTtlDays: 90, tokenTtlDays: 14, requestTtlDays: 7 })
+    })
+
+    it('should validate updates', () => {
+      expect(normalizeRetentionPolicyInput({ requestTtlDays: '3', tokenTtlDays: null, other: 1 }))
+        .toEqual({ requestTtlDays: 3, tokenTtlDays: null })
+      expect(() => normalizeRetentionPolicyInput({ sessionTtlDays: 0 })).toThrow()
+      expect(() => normalizeRetentionPolicyInput({ requestTtlDays: 0.5 })).toThrow()
+    })
+
+    it('should let stored overrides win over the environment', async () => {
+      const testDb = await createTestDb()
+      process.env.TOKEN_TTL_DAYS = '14'
+
+      try {
+        expect((await getRetentionPolicy(testDb.dbFile)).policy).toEqual({ ...DEFAULT_RETENTION_POLICY, tokenTtlDays: 14 })
+
+        const updated = await updateRetentionPolicy({ tokenTtlDays: 60, requestTtlDays: 1 }, testDb.dbFile)
+        expect(updated.policy).toEqual({ sessionTtlDays: 30, tokenTtlDays: 60, requestTtlDays: 1 })
+
+        const cleared = await updateRetentionPolicy({ tokenTtlDays: null }, testDb.dbFile)
+        expect(cleared.overrides).toEqual({ requestTtlDays: 1 })
+        expect(cleared.policy.tokenTtlDays).toBe(14)
+      } finally {
+        delete process.env.TOKEN_TTL_DAYS
+        await testDb.cleanup()
+      }
+    })
+  })
+
+  describe('admin middleware', () => {
+    const request = (url: string, authorization?: string) => createH3Event({
+      path: url,
+      node: { req: { method: 'GET', url, headers: authorization ? { authorization } : {} }, res: {} },
+    } as Partial<H3Event>)
+
+    const call = (event: H3Event) => (adminMiddleware as unknown as (event: H3Event) => unknown)(event)
+
+    afterEach(() => {
+      delete process.env.ADMIN_TOKEN
+    })
+
+    it('should hide the admin API unless ADMIN_TOKEN is set', () => {
+      expect(() => call(request('/api/admin/retention', 'Bearer anything'))).toThrow(expect.objectContaining({ statusCode: 404 }))
+    })
+
+    it('should require the admin token', () => {
+      process.env.ADMIN_TOKEN = 'admin-secret'
+
+      expect(() => call(request('/api/admin/retention'))).toThrow(expect.objectContaining({ statusCode: 401 }))
+      expect(() => call(request('/api/admin/retention', 'Bearer wrong'))).toThrow(expect.objectContaining({ statusCode: 401 }))
+      expect(call(request('/api/admin/retention', 'Bearer admin-secret'))).toBeUndefined()
+      expect(call(request('/api/token'))).toBeUndefined()
+    })
+  })
+
+  describe('storage', () => {
+    let testDb: TestDbContext
+    let db: ReturnType<typeof useDatabase>
+    let rawDb: ReturnType<typeof getDb>
+    let sessionId: string
+
+    beforeEach(async () => {
+      testDb = await createTestDb()
+      // ingestRequest stores bodies through the default storage.
+      process.env.STORAGE_PATH = testDb.filesPath
+      db = useDatabase(testDb.dbFile, testDb.filesPath)
+      rawDb = getDb(testDb.dbFile)
+
+      sessionId = randomUUID()
+      await rawDb.insert(sessions).values({ id: sessionId, friendlyId: 'retention-session', lastAccessedAt: new Date() })
+    })
+
+    afterEach(async () => {
+      delete process.env.STORAGE_PATH
+      await testDb.cleanup()
+    })
+
+    const ingest = (tokenId: string, body: string) => ingestRequest(sessionId, tokenId, 'POST', {}, Buffer.from(body), '/', '127.0.0.1')
+
+    const age = async (table: typeof requests | typeof tokens, id: string, days: number) => {
+      await rawDb.update(table).set({ createdAt: new Date(Date.now() - days * DAY) }).where(eq(table.id, id))
+    }
+
+    it('should keep only the newest requests at ingest', async () => {
+      const token = await db.tokens.create(sessionId)
+      await db.tokens.update(sessionId, token.id, { keepLastRequests: 2 })
+
+      const first = await ingest(token.id, 'one')
+      await ingest(token.id, 'two')
+      const third = await ingest(token.id, 'three')
+
+      const kept = await db.requests.list(sessionId, token.id)
+      expect(kept.map(r => r.id)).not.toContain(first.id)
+      expect(kept.map(r => r.id)).toContain(third.id)
+      expect(kept).toHaveLength(2)
+      expect(await db.requests.getBody(sessionId, token.id, first.id)).toBeNull()
+    })
+
+    it('should drop requests past the token TTL at ingest', async () => {
+      const token = await db.tokens.create(sessionId)
+      await db.tokens.update(sessionId, token.id, { requestTtlMinutes: 60 })
+
+      const old = await ingest(token.id, 'old')
+      await age(requests, old.id, 1)
+      await ingest(token.id, 'new')
+
+      expect(await db.requests.count(sessionId, token.id)).toBe(1)
+    })
+
+    it('should let pinned tokens and per-token TTLs override the cleanup TTLs', async () => {
+      const plain = await db.tokens.create(sessionId)
+      const pinned = await db.tokens.create(sessionId)
+      const longer = await db.tokens.create(sessionId)
+      await db.tokens.update(sessionId, pinned.id, { pinned: true, requestTtlMinutes: 1 })
+      await db.tokens.update(sessionId, longer.id, { requestTtlMinutes: 30 * 24 * 60 })
+
+      for (const token of [plain, pinned, longer]) {
+        await age(requests, (await ingest(token.id, 'x')).id, 10)
+        await age(tokens, token.id, 40)
+      }
+      await rawDb.update(sessions).set({ lastAccessedAt: new Date(Date.now() - 40 * DAY) }).where(eq(sessions.id, sessionId))
+
+      const result = await cleanupExpiredData(testDb.dbFile, testDb.filesPath)
+
+      // The longer token's request is within its TTL but goes with the expired token.
+      expect(result.deletedRequests).toBe(2)
+      expect(result.deletedTokens).toBe(2)
+      expect(result.deletedSessions).toBe(0)
+      expect(await db.tokens.get(sessionId, plain.id)).toBeNull()
+      expect(await db.tokens.get(sessionId, pinned.id)).not.toBeNull()
+      expect(await db.requests.count(sessionId, pinned.id)).toBe(1)
+    })
+
+    it('should report what would be removed without deleting on a dry run', async () => {
+      const token = await db.tokens.create(sessionId)
+      const kept = await db.tokens.create(sessionId)
+
+      const old = await ingest(token.id, 'expired body')
+      await age(requests, old.id, 10)
+      await ingest(kept.id, 'fresh')
+
+      const result = await cleanupExpiredData(testDb.dbFile, testDb.filesPath, { dryRun: true })
+
+      expect(result).toMatchObject({ dryRun: true, deletedRequests: 1, deletedTokens: 0, deletedSessions: 0 })
+      expect(result.freedBytes).toBe('expired body'.length)
+      expect(await db.requests.count(sessionId, token.id)).toBe(1)
+      expect(await db.requests.getBody(sessionId, token.id, old.id)).not.toBeNull()
+
+      expect(await cleanupExpiredData(testDb.dbFile, testDb.filesPath)).toMatchObject({ dryRun: false, deletedRequests: 1 })
+      expect(await db.requests.count(sessionId, token.id)).toBe(0)
+      expect(await db.requests.count(sessionId, kept.id)).toBe(1)
+    })
+
+    it('should free as many bytes on a real run as a dry run reports', async () => {
+      const expired = await db.tokens.create(sessionId)
+      const kept = await db.tokens.create(sessionId)
+
+      await ingest(expired.id, 'goes with the token')
+      await age(requests, (await ingest(kept.id, 'expired body')).id, 10)
+      await ingest(kept.id, 'fresh')
+      await age(tokens, expired.id, 40)
+
+      const dryRun = await cleanupExpiredData(testDb.dbFile, testDb.filesPath, { dryRun: true })
+      const result = await cleanupExpiredData(testDb.dbFile, testDb.filesPath)
+
+      expect(dryRun.freedBytes).toBe('goes with the token'.length + 'expired body'.length)
+      expect(result.freedBytes).toBe(dryRun.freedBytes)
+      expect(result).toMatchObject({ deletedRequests: 2, deletedTokens: 1, orphanedFiles: 0 })
+    })
+
+    it('should apply the stored policy', async () => {
+      const token = await db.tokens.create(sessionId)
+      await age(requests, (await ingest(token.id, 'x')).id, 2)
+
+      expect((await cleanupExpiredData(testDb.dbFile, testDb.filesPath, { dryRun: true })).deletedRequests).toBe(0)
+
+      await updateRetentionPolicy({ requestTtlDays: 1 }, testDb.dbFile)
+      const result = await cleanupExpiredData(testDb.dbFile, testDb.filesPath, { dryRun: true })
+
+      expect(result.policy.requestTtlDays).toBe(1)
+      expect(result.deletedRequests).toBe(1)
+    })
+  })
+})
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { createHmac } from 'crypto'
+import { normalizeSignatureInput, verifySignature } from '../../server/lib/signature'
+import { ingestRequest } from '../../server/lib/request-ingestion'
+import { useDatabase } from '../../server/lib/db'
+import { ensureLLMSession, LLM_SESSION_ID } from '../../server/lib/session'
+import { createTestDb, type TestDbContext } from '../utils/testDb'
+import type { SignatureScheme } from '../../shared/types'
+
+const SECRET = 'shh'
+const BODY = Buffer.from('{"event":"ping"}')
+const NOW = 1_700_000_000_000
+const TIMESTAMP = String(NOW / 1000)
+
+const hmac = (data: string, key: string | Buffer = SECRET, algorithm = 'sha256') => createHmac(algorithm, key).update(data)
+
+const config = (signatureScheme: SignatureScheme, extra: Record<string, unknown> = {}) => ({
+  signatureScheme,
+  signatureSecret: SECRET,
+  signatureHeader: null,
+  signatureTolerance: 300,
+  ...extra,
+})
+
+describe('webhook signatures', () => {
+  describe('normalizeSignatureInput', () => {
+    it('should keep only present fields and clear empty values', () => {
+      expect(normalizeSignatureInput({})).toEqual({})
+      expect(normalizeSignatureInput({ signatureScheme: 'github', signatureSecret: ' abc ', signatureHeader: 'X-Sig' }))
+        .toEqual({ signatureScheme: 'github', signatureSecret: 'abc', signatureHeader: 'x-sig' })
+      expect(normalizeSignatureInput({ signatureScheme: '', signatureSecret: '' }))
+        .toEqual({ signatureScheme: null, signatureSecret: null })
+    })
+
+    it('should reject invalid values', () => {
+      expect(() => normalizeSignatureInput({ signatureScheme: 'paypal' })).toThrow()
+      expect(() => normalizeSignatureInput({ signatureSecret: 5 })).toThrow()
+      expect(() => normalizeSignatureInput({ signatureHeader: 'bad header' })).toThrow()
+      expect(() => normalizeSignatureInput({ signatureTolerance: -1 })).toThrow()
+    })
+  })
+
+  describe('verifySignature', () => {
+    it('should skip tokens without a scheme or secret', () => {
+      expect(verifySignature({ ...config('github'), signatureScheme: null }, {}, BODY)).toBeNull()
+      expect(verifySignature({ ...config('github'), signatureSecret: null }, {}, BODY)).toBeNull()
+    })
+
+    it('should verify generic HMAC digests in hex or base64', () => {
+      const digest = hmac(BODY.toString()).digest()
+
+      expect(verifySignature(config('hmac-sha256'), { 'x-signature': digest.toString('hex') }, BODY)?.status).toBe('valid')
+      expect(verifySignature(config('hmac-sha256', { signatureHeader: 'x-token-sig' }), { 'x-token-sig': `sha256=${digest.toString('base64')}` }, BODY)?.status).toBe('valid')
+      expect(verifySignature(config('hmac-sha1'), { 'x-signature': hmac(BODY.toString(), SECRET, 'sha1').digest('hex') }, BODY)?.status).toBe('valid')
+    })
+
+    it('should report mismatches with the expected and received digests', () => {
+      const result = verifySignature(config('github'), { 'x-hub-signature-256': 'sha256=deadbeef' }, BODY)
+
+      expect(result).toEqual({
+        scheme: 'github',
+        status: 'invalid',
+        expected: `sha256=${hmac(BODY.toString()).digest('hex')}`,
+        received: 'sha256=deadbeef',
+        message: 'Signature does not match',
+      })
+    })
+
+    it('should report a missing signature header', () => {
+      expect(verifySignature(config('shopify'), {}, BODY)).toMatchObject({ status: 'missing', received: null })
+    })
+
+    it('should verify GitHub and Shopify signatures', () => {
+      expect(verifySignature(config('github'), { 'x-hub-signature-256': `sha256=${hmac(BODY.toString()).digest('hex')}` }, BODY)?.status).toBe('valid')
+      expect(verifySignature(config('shopify'), { 'x-shopify-hmac-sha256': hmac(BODY.toString()).digest('base64') }, BODY)?.status).toBe('valid')
+    })
+
+    it('should verify Stripe signatures within the tolerance', () => {
+      const signature = hmac(`${TIMESTAMP}.${BODY}`).digest('hex')
+      const headers = { 'stripe-signature': `t=${TIMESTAMP},v1=0000,v1=${signature}` }
+
+      expect(verifySignature(config('stripe'), headers, BODY, NOW)?.status).toBe('valid')
+
+      const stale = verifySignature(config('stripe'), headers, BODY, NOW + 600_000)
+      expect(stale?.status).toBe('invalid')
+      expect(stale?.message).toContain('tolerance is 300s')
+
+      expect(verifySignature(config('stripe', { signatureTolerance: 0 }), headers, BODY, NOW + 600_000)?.status).toBe('valid')
+    })
+
+    it('should verify Slack signatures', () => {
+      const headers = {
+        'x-slack-request-timestamp': TIMESTAMP,
+        'x-slack-signature': `v0=${hmac(`v0:${TIMESTAMP}:${BODY}`).digest('hex')}`,
+      }
+
+      expect(verifySignature(config('slack'), headers, BODY, NOW)?.status).toBe('valid')
+    })
+
+    it('should verify Svix signatures with a whsec_ secret', () => {
+      const key = Buffer.from('svix-key')
+      const signature = hmac(`msg_1.${TIMESTAMP}.${BODY}`, key).digest('base64')
+      const headers = { 'svix-id': 'msg_1', 'svix-timestamp': TIMESTAMP, 'svix-signature': `v1,bad v1,${signature}` }
+
+      expect(verifySignature(config('svix', { signatureSecret: `whsec_${key.toString('base64')}` }), headers, BODY, NOW)?.status).toBe('valid')
+    })
+  })
+
+  describe('ingestRequest', () => {
+    let testDb: TestDbContext
+    let db: ReturnType<typeof useDatabase>
+
+    beforeEach(async () => {
+      testDb = await createTestDb()
+      db = useDatabase(testDb.dbFile, testDb.filesPath)
+      await ensureLLMSession()
+    })
+
+    afterEach(async () => {
+      await testDb.cleanup()
+    })
+
+    it('should store the verification result with the request', async () => {
+      const token = await db.tokens.create(LLM_SESSION_ID)
+      await db.tokens.update(LLM_SESSION_ID, token.id, { signatureScheme: 'github', signatureSecret: SECRET })
+
+      const headers = { 'x-hub-signature-256': `sha256=${hmac(BODY.toString()).digest('hex')}` }
+      const created = await ingestRequest(LLM_SESSION_ID, token.id, 'POST', headers, BODY, `/api/payload/${token.id}`, '127.0.0.1')
+
+      expect(JSON.parse(created.signature ?? 'null')).toMatchObject({ scheme: 'github', status: 'valid' })
+
+      const unsigned = await ingestRequest(LLM_SESSION_ID, token.id, 'POST', {}, BODY, `/api/payload/${token.id}`, '127.0.0.1')
+      expect(JSON.parse(unsigned.signature ?? 'null')).toMatchObject({ status: 'missing' })
+    })
+  })
+})
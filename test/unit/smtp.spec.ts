@@ -0,0 +1,238 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { randomUUID } from 'crypto'
+import { existsSync } from 'fs'
+import { join } from 'path'
+import { connect, type AddressInfo, type Server, type Socket } from 'net'
+import { createSmtpServer, createSmtpSink, parseAddressArgument, getSmtpConfig, type SmtpMessage } from '../../server/lib/smtp'
+import { useDatabase } from '../../server/lib/db'
+import { getDb } from '../../server/db'
+import { sessions } from '../../server/db/schema'
+import { createTestDb, type TestDbContext } from '../utils/testDb'
+import type { EmailAttachment } from '../../shared/types'
+
+type Client = { socket: Socket, send: (line: string) => Promise<string>, read: () => Promise<string> }
+
+const listen = (server: Server) => new Promise<number>(resolve => server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port)))
+
+const close = (server: Server) => new Promise<void>(resolve => server.close(() => resolve()))
+
+/**
+ * Minimal SMTP client reading one complete reply per command.
+ */
+const connectClient = async (port: number): Promise<Client> => {
+  const socket = connect(port, '127.0.0.1')
+  let buffer = ''
+  const waiting: Array<(reply: string) => void> = []
+
+  socket.on('data', chunk => {
+    buffer += chunk.toString('utf8')
+    let match: RegExpExecArray | null
+    while (waiting.length && (match = /^(?:\d{3}-.*\r\n)*\d{3} .*\r\n/.exec(buffer))) {
+      buffer = buffer.slice(match[0].length)
+      waiting.shift()!(match[0].trimEnd())
+    }
+  })
+
+  const read = () => new Promise<string>(resolve => {
+    waiting.push(resolve)
+    socket.emit('data', Buffer.alloc(0))
+  })
+
+  const client = {
+    socket,
+    read,
+    send: (line: string) => {
+      const reply = read()
+      socket.write(line + '\r\n')
+      return reply
+    },
+  }
+
+  await client.read()
+  return client
+}
+
+describe('smtp', () => {
+  it('should read the listener settings from the environment', () => {
+    expect(getSmtpConfig({})).toBeNull()
+    expect(getSmtpConfig({ SMTP_ENABLED: 'true', SMTP_DOMAIN: 'Mail.Example.com', SMTP_MAX_SIZE: '1mb' })).toEqual({
+      port: 2525,
+      host: '0.0.0.0',
+      hostname: 'mail.example.com',
+      domain: 'mail.example.com',
+      maxSize: 1024 * 1024,
+    })
+  })
+
+  it('should parse envelope addresses', () => {
+    expect(parseAddressArgument('<a@b.c> SIZE=10 BODY=8BITMIME')).toEqual({ address: 'a@b.c', params: { SIZE: '10', BODY: '8BITMIME' } })
+    expect(parseAddressArgument('<>')).toEqual({ address: '', params: {} })
+    expect(parseAddressArgument('<@relay:a@b.c>')?.address).toBe('a@b.c')
+  })
+
+  describe('protocol', () => {
+    let server: Server
+    let client: Client
+    const messages: SmtpMessage[] = []
+
+    beforeEach(async () => {
+      messages.length = 0
+      server = createSmtpServer({
+        hostname: 'mx.test',
+        maxSize: 1024,
+        checkRecipient: async address => address.startsWith('known@')
+          ? { ok: true }
+          : { ok: false, code: 550, message: 'No such mailbox' },
+        onMessage: async message => {
+          messages.push(message)
+        },
+      })
+      client = await connectClient(await listen(server))
+    })
+
+    afterEach(async () => {
+      client.socket.destroy()
+      await close(server)
+    })
+
+    it('should accept a message for known recipients', async () => {
+      expect(await client.send('EHLO client.test')).toContain('250-SIZE 1024')
+      expect(await client.send('RCPT TO:<known@mx.test>')).toMatch(/^503/)
+      expect(await client.send('MAIL FROM:<sender@example.com>')).toMatch(/^250/)
+      expect(await client.send('RCPT TO:<other@mx.test>')).toBe('550 No such mailbox')
+      expect(await client.send('RCPT TO:<known@mx.test>')).toMatch(/^250/)
+      expect(await client.send('DATA')).toMatch(/^354/)
+      expect(await client.send('Subject: hi\r\n\r\n..leading dot\r\nbody\r\n.')).toMatch(/^250 OK queued/)
+      expect(await client.send('QUIT')).toMatch(/^221/)
+
+      expect(messages).toHaveLength(1)
+      expect(messages[0]).toMatchObject({ mailFrom: 'sender@example.com', recipients: ['known@mx.test'], helo: 'client.test' })
+      expect(messages[0]!.data.toString()).toBe('Subject: hi\r\n\r\n.leading dot\r\nbody\r\n')
+    })
+
+    it('should refuse messages without recipients or over the size limit', async () => {
+      await client.send('HELO client.test')
+      expect(await client.send('MAIL FROM:<sender@example.com> SIZE=4096')).toMatch(/^552/)
+      await client.send('MAIL FROM:<>')
+      expect(await client.send('DATA')).toMatch(/^554/)
+      await client.send('RCPT TO:<known@mx.test>')
+      await client.send('DATA')
+      expect(await client.send('x'.repeat(2000) + '\r\n.')).toMatch(/^552/)
+      expect(messages).toHaveLength(0)
+    })
+
+    it('should find an end marker split across packets', async () => {
+      await client.send('HELO client.test')
+      await client.send('MAIL FROM:<sender@example.com>')
+      await client.send('RCPT TO:<known@mx.test>')
+      await client.send('DATA')
+
+      client.socket.setNoDelay(true)
+      const reply = client.read()
+      for (const part of ['Subject: split\r\n\r\nfirst line\r\n', 'second line\r', '\n.', '\r', '\n']) {
+        client.socket.write(part)
+        await new Promise(resolve => setTimeout(resolve, 20))
+      }
+
+      expect(await reply).toMatch(/^250/)
+      expect(messages[0]!.data.toString()).toBe('Subject: split\r\n\r\nfirst line\r\nsecond line\r\n')
+    })
+
+    it('should answer pipelined commands in order and accept any credentials', async () => {
+      expect(await client.send('AUTH PLAIN AHVzZXIAcGFzcw==')).toMatch(/^235/)
+      const replies = Promise.all([client.read(), client.read(), client.read()])
+      client.socket.write('MAIL FROM:<a@b.c>\r\nRCPT TO:<known@mx.test>\r\nNOPE\r\n')
+      expect((await replies).map(reply => reply.slice(0, 3))).toEqual(['250', '250', '500'])
+    })
+  })
+
+  describe('sink', () => {
+    let testDb: TestDbContext
+    let db: ReturnType<typeof useDatabase>
+    let sessionId: string
+    let server: Server
+    let port: number
+
+    beforeEach(async () => {
+      testDb = await createTestDb()
+      process.env.STORAGE_PATH = testDb.filesPath
+      db = useDatabase(testDb.dbFile, testDb.filesPath)
+
+      sessionId = randomUUID()
+      await getDb(testDb.dbFile).insert(sessions).values({ id: sessionId, friendlyId: 'smtp-session', lastAccessedAt: new Date() })
+
+      server = createSmtpSink({ port: 0, host: '127.0.0.1', hostname: 'mail.test', domain: 'mail.test', maxSize: 1024 * 1024 })
+      port = await listen(server)
+    })
+
+    afterEach(async () => {
+      await close(server)
+      delete process.env.STORAGE_PATH
+      await testDb.cleanup()
+    })
+
+    const sendMail = async (recipients: string[], data: string[]) => {
+      const client = await connectClient(port)
+      await client.send('EHLO client.test')
+      await client.send('MAIL FROM:<app@example.com>')
+      const replies = []
+      for (const recipient of recipients) {
+        replies.push(await client.send(`RCPT TO:<${recipient}>`))
+      }
+      await client.send('DATA')
+      replies.push(await client.send(data.join('\r\n') + '\r\n.'))
+      await client.send('QUIT')
+      client.socket.destroy()
+      return replies
+    }
+
+    it('should store mail as an email request of the addressed token', async () => {
+      const token = await db.tokens.create(sessionId)
+
+      const replies = await sendMail([`${token.friendlyId!.toUpperCase()}+orders@mail.test`, `${token.friendlyId}@other.test`], [
+        'From: App <app@example.com>',
+        `To: ${token.friendlyId}@mail.test`,
+        'Subject: Receipt',
+        'Content-Type: multipart/mixed; boundary=b',
+        '',
+        '--b',
+        'Content-Type: text/html',
+        '',
+        '<p>Thanks</p>',
+        '--b',
+        'Content-Type: text/csv; name=order.csv',
+        '',
+        'id,total',
+        '--b--',
+      ])
+      expect(replies.map(reply => reply.slice(0, 3))).toEqual(['250', '550', '250'])
+
+      const [request] = await db.requests.list(sessionId, token.id)
+      expect(request).toMatchObject({ method: 'SMTP', url: `mailto:${token.friendlyId!.toUpperCase()}+orders@mail.test`, email: true, authStatus: null })
+      expect(JSON.parse(request!.headers)).toMatchObject({ subject: 'Receipt' })
+
+      const email = await db.emails.get(request!.id)
+      expect(email).toMatchObject({ envelopeFrom: 'app@example.com', subject: 'Receipt', html: '<p>Thanks</p>', text: null })
+
+      const [attachment] = JSON.parse(email!.attachments) as EmailAttachment[]
+      expect(attachment).toMatchObject({ filename: 'order.csv', contentType: 'text/csv', size: 8 })
+      expect((await db.emails.getAttachment(attachment!))?.toString()).toBe('id,total')
+
+      const attachmentFile = join(testDb.filesPath, 'files', attachment!.path)
+      expect(existsSync(attachmentFile)).toBe(true)
+      await db.requests._delete(sessionId, token.id, request!.id)
+      expect(existsSync(attachmentFile)).toBe(false)
+    })
+
+    it('should refuse recipients over the token limits', async () => {
+      const token = await db.tokens.create(sessionId)
+      await db.tokens.update(sessionId, token.id, { rateLimitPerMinute: 0 })
+
+      const [reply] = await sendMail([`${token.friendlyId}@mail.test`], ['Subject: x', '', 'y'])
+
+      expect(reply).toMatch(/^452/)
+      expect(await db.requests.count(sessionId, token.id)).toBe(0)
+      expect((await db.tokens.get(sessionId, token.id))?.rejectedCount).toBe(1)
+    })
+  })
+})
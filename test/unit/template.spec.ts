@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import { createTemplateContext, renderTemplate, hasTemplate, referencesBody } from '../../shared/template'
+
+describe('response templates', () => {
+  const ctx = createTemplateContext(
+    'post',
+    '/api/payload/abc?id=42&tag=a&tag=b',
+    { 'X-Correlation-Id': 'corr-1', 'Content-Type': 'application/json' },
+    '{"user":{"email":"a@example.com","roles":["admin","dev"]},"note":"say \\"hi\\""}'
+  )
+
+  describe('createTemplateContext', () => {
+    it('should parse path, query and headers', () => {
+      expect(ctx.method).toBe('POST')
+      expect(ctx.path).toBe('/api/payload/abc')
+      expect(ctx.query).toEqual({ id: '42', tag: 'a' })
+      expect(ctx.headers['x-correlation-id']).toBe('corr-1')
+    })
+
+    it('should leave json undefined for non-json bodies', () => {
+      expect(createTemplateContext('GET', '/', {}, 'plain text').json).toBeUndefined()
+    })
+  })
+
+  describe('renderTemplate', () => {
+    it('should render request fields', () => {
+      expect(renderTemplate('{{ request.method }} {{request.path}}', ctx)).toBe('POST /api/payload/abc')
+      expect(renderTemplate('{{ request.url }}', ctx)).toBe('/api/payload/abc?id=42&tag=a&tag=b')
+    })
+
+    it('should render query params and headers case-insensitively', () => {
+      expect(renderTemplate('id={{ request.query.id }}', ctx)).toBe('id=42')
+      expect(renderTemplate('{{ request.headers.X-CORRELATION-ID }}', ctx)).toBe('corr-1')
+    })
+
+    it('should render json body fields', () => {
+      expect(renderTemplate('{{ request.body.user.email }}', ctx)).toBe('a@example.com')
+      expect(renderTemplate('{{ request.body.user.roles[1] }}', ctx)).toBe('dev')
+      expect(renderTemplate('{{ request.body.user.roles }}', ctx)).toBe('["admin","dev"]')
+    })
+
+    it('should render the raw body', () => {
+      expect(renderTemplate('{{ request.body }}', createTemplateContext('POST', '/', {}, 'raw'))).toBe('raw')
+    })
+
+    it('should use fallbacks for missing values', () => {
+      expect(renderTemplate('{{ request.query.missing ?? "none" }}', ctx)).toBe('none')
+      expect(renderTemplate("{{ request.headers.x-missing ?? 'a|b' }}", ctx)).toBe('a|b')
+      expect(renderTemplate('[{{ request.query.missing }}]', ctx)).toBe('[]')
+    })
+
+    it('should apply filters', () => {
+      expect(renderTemplate('{{ request.body.note | json }}', ctx)).toBe('"say \\"hi\\""')
+      expect(renderTemplate('{{ request.method | lower }}', ctx)).toBe('post')
+      expect(renderTemplate('{{ request.headers.x-correlation-id | upper }}', ctx)).toBe('CORR-1')
+      expect(renderTemplate('{{ request.body.user.email | urlencode }}', ctx)).toBe('a%40example.com')
+    })
+
+    it('should render uuid and time helpers', () => {
+      expect(renderTemplate('{{ uuid }}', ctx)).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/)
+      expect(new Date(renderTemplate('{{ now }}', ctx)).getTime()).not.toBeNaN()
+      expect(renderTemplate('{{ timestamp }}', ctx)).toMatch(/^\d+$/)
+    })
+
+    it('should leave unknown expressions untouched', () => {
+      expect(renderTemplate('{{ user.name }}', ctx)).toBe('{{ user.name }}')
+      expect(renderTemplate('{{ request.unknown }}', ctx)).toBe('{{ request.unknown }}')
+      expect(renderTemplate('{{ request.method | nope }}', ctx)).toBe('{{ request.method | nope }}')
+    })
+
+    it('should return plain strings as-is', () => {
+      expect(renderTemplate('{"ok":true}', ctx)).toBe('{"ok":true}')
+    })
+  })
+
+  describe('hasTemplate', () => {
+    it('should detect template expressions', () => {
+      expect(hasTemplate('{{ uuid }}')).toBe(true)
+      expect(hasTemplate('plain')).toBe(false)
+      expect(hasTemplate(null)).toBe(false)
+    })
+  })
+
+  describe('referencesBody', () => {
+    it('should only match expressions that read the body', () => {
+      expect(referencesBody('{"echo":"{{ request.body.id }}"}')).toBe(true)
+      expect(referencesBody('{{request.body}}')).toBe(true)
+      expect(referencesBody('{{ request.bodyless }}')).toBe(false)
+      expect(referencesBody('{{ request.method }} request.body')).toBe(false)
+      expect(referencesBody(null)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { normalizeAlias, MAX_ALIAS_LENGTH } from '../../server/lib/token-alias'
+import { useDatabase } from '../../server/lib/db'
+import { ensureLLMSession, LLM_SESSION_ID } from '../../server/lib/session'
+import { createTestDb, type TestDbContext } from '../utils/testDb'
+
+describe('token aliases', () => {
+  describe('normalizeAlias', () => {
+    it('should trim and lowercase aliases', () => {
+      expect(normalizeAlias(' Stripe-Staging ')).toBe('stripe-staging')
+      expect(normalizeAlias('gh2')).toBe('gh2')
+    })
+
+    it('should reject malformed and reserved aliases', () => {
+      expect(() => normalizeAlias(null)).toThrow()
+      expect(() => normalizeAlias('ab')).toThrow()
+      expect(() => normalizeAlias('a'.repeat(MAX_ALIAS_LENGTH + 1))).toThrow()
+      expect(() => normalizeAlias('-stripe')).toThrow()
+      expect(() => normalizeAlias('stripe-')).toThrow()
+      expect(() => normalizeAlias('stripe.staging')).toThrow()
+      expect(() => normalizeAlias('stripe staging')).toThrow()
+      expect(() => normalizeAlias('API')).toThrow('reserved')
+    })
+  })
+
+  describe('db.tokens.setFriendlyId', () => {
+    let testDb: TestDbContext
+    let db: ReturnType<typeof useDatabase>
+
+    beforeEach(async () => {
+      testDb = await createTestDb()
+      db = useDatabase(testDb.dbFile, testDb.filesPath)
+      await ensureLLMSession()
+    })
+
+    afterEach(async () => {
+      await testDb.cleanup()
+    })
+
+    it('should claim, rename and release an alias', async () => {
+      const token = await db.tokens.create(LLM_SESSION_ID)
+
+      const claimed = await db.tokens.setFriendlyId(LLM_SESSION_ID, token.id, 'stripe-staging')
+      expect(claimed && claimed.friendlyId).toBe('stripe-staging')
+      expect((await db.tokens.getByFriendlyId('stripe-staging'))?.id).toBe(token.id)
+
+      const renamed = await db.tokens.setFriendlyId(LLM_SESSION_ID, token.id, 'stripe-prod')
+      expect(renamed && renamed.friendlyId).toBe('stripe-prod')
+      expect(await db.tokens.getByFriendlyId('stripe-staging')).toBeNull()
+
+      const released = await db.tokens.setFriendlyId(LLM_SESSION_ID, token.id, null)
+      expect(released && released.friendlyId).toMatch(/^[A-Za-z0-9]{8}$/)
+      expect(await db.tokens.getByFriendlyId('stripe-prod')).toBeNull()
+    })
+
+    it('should refuse aliases held by another token', async () => {
+      const first = await db.tokens.create(LLM_SESSION_ID)
+      const second = await db.tokens.create(LLM_SESSION_ID)
+      const third = await db.tokens.create(LLM_SESSION_ID)
+
+      await db.tokens.setFriendlyId(LLM_SESSION_ID, first.id, 'shared')
+
+      expect(await db.tokens.setFriendlyId(LLM_SESSION_ID, second.id, 'shared')).toBe(false)
+      expect(await db.tokens.setFriendlyId(LLM_SESSION_ID, second.id, third.friendlyId!.toLowerCase())).toBe(false)
+      expect(await db.tokens.setFriendlyId(LLM_SESSION_ID, first.id, 'shared')).not.toBe(false)
+      expect(await db.tokens.setFriendlyId('other-session', first.id, 'mine')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { MAX_TAGS, normalizeTags, normalizeTokenLabelsInput, parseTags, toTokenSummary } from '../../server/lib/token-labels'
+import type { Token } from '../../shared/types'
+
+describe('token labels', () => {
+  describe('normalizeTags', () => {
+    it('should accept arrays and comma-separated strings', () => {
+      expect(normalizeTags(['Payments', ' staging '])).toEqual(['payments', 'staging'])
+      expect(normalizeTags('ci, ci,,env:prod')).toEqual(['ci', 'env:prod'])
+      expect(normalizeTags(null)).toEqual([])
+    })
+
+    it('should reject invalid tags', () => {
+      expect(() => normalizeTags([1])).toThrow()
+      expect(() => normalizeTags({ tag: 'x' })).toThrow()
+      expect(() => normalizeTags(['two words'])).toThrow('two words')
+      expect(() => normalizeTags(Array.from({ length: MAX_TAGS + 1 }, (_, i) => `t${i}`))).toThrow()
+    })
+  })
+
+  describe('normalizeTokenLabelsInput', () => {
+    it('should keep only present fields and clear empty values', () => {
+      expect(normalizeTokenLabelsInput({})).toEqual({})
+      expect(normalizeTokenLabelsInput({ name: ' CI ', color: '#AABBCC', tags: ['a'] }))
+        .toEqual({ name: 'CI', color: '#aabbcc', tags: '["a"]' })
+      expect(normalizeTokenLabelsInput({ name: '', description: null, color: '', tags: [] }))
+        .toEqual({ name: null, description: null, color: null, tags: null })
+    })
+
+    it('should reject invalid values', () => {
+      expect(() => normalizeTokenLabelsInput({ name: 5 })).toThrow()
+      expect(() => normalizeTokenLabelsInput({ name: 'x'.repeat(81) })).toThrow()
+      expect(() => normalizeTokenLabelsInput({ color: 'red' })).toThrow()
+      expect(() => normalizeTokenLabelsInput({ color: '#abc' })).toThrow()
+    })
+  })
+
+  describe('parseTags', () => {
+    it('should ignore missing or malformed values', () => {
+      expect(parseTags('["a","b"]')).toEqual(['a', 'b'])
+      expect(parseTags(null)).toEqual([])
+      expect(parseTags('{')).toEqual([])
+      expect(parseTags('{"a":1}')).toEqual([])
+    })
+  })
+
+  describe('toTokenSummary', () => {
+    it('should carry the labels with parsed tags', () => {
+      const token = { id: 't1', friendlyId: 'stripe', name: 'Stripe', description: null, color: '#112233', tags: '["billing"]', pinned: true } as Token
+
+      expect(toTokenSummary(token)).toEqual({ id: 't1', friendlyId: 'stripe', name: 'Stripe', description: null, color: '#112233', tags: ['billing'] })
+    })
+  })
+})
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { randomUUID } from 'crypto'
+import { IncomingMessage } from 'http'
+import { Socket } from 'net'
+import {
+  buildReply,
+  encodeFrame,
+  normalizeWebSocketInput,
+  websocketHooks,
+  MAX_FRAME_BYTES,
+} from '../../server/lib/websocket'
+import { useDatabase } from '../../server/lib/db'
+import { getDb } from '../../server/db'
+import { sessions } from '../../server/db/schema'
+import { createTestDb, type TestDbContext } from '../utils/testDb'
+
+type Hooks = Required<typeof websocketHooks>
+
+const handshake = { url: '/api/payload/abc/ws?room=1', headers: { 'user-agent': 'test' } }
+
+const createPeer = (context: Record<string, unknown>) => ({
+  context,
+  remoteAddress: '127.0.0.1',
+  send: vi.fn(),
+  close: vi.fn(),
+})
+
+const upgrade = async (id: string, headers: Record<string, string> = {}, nodeReq?: IncomingMessage) => {
+  const request = { url: `http://localhost/api/payload/${id}/ws?room=1`, headers: new Headers(headers), context: {} as Record<string, unknown>, _req: nodeReq }
+  const response = await (websocketHooks as Hooks).upgrade(request as unknown as Parameters<Hooks['upgrade']>[0])
+  return { response, peer: createPeer(request.context) }
+}
+
+const asPeer = (peer: ReturnType<typeof createPeer>) => peer as unknown as Parameters<Hooks['open']>[0]
+
+const send = (peer: ReturnType<typeof createPeer>, data: Buffer) => (websocketHooks as Hooks).message(
+  asPeer(peer),
+  { rawData: data, uint8Array: () => new Uint8Array(data) } as unknown as Parameters<Hooks['message']>[1],
+)
+
+describe('websocket capture', () => {
+  describe('normalizeWebSocketInput', () => {
+    it('should keep only present fields', () => {
+      expect(normalizeWebSocketInput({})).toEqual({})
+      expect(normalizeWebSocketInput({ websocketReplyMode: 'echo', websocketReplyMessage: '' }))
+        .toEqual({ websocketReplyMode: 'echo', websocketReplyMessage: null })
+    })
+
+    it('should reject invalid values', () => {
+      expect(() => normalizeWebSocketInput({ websocketReplyMode: 'shout' })).toThrow()
+      expect(() => normalizeWebSocketInput({ websocketReplyMessage: 42 })).toThrow()
+    })
+
+    it('should require a message for the static and template modes', () => {
+      expect(() => normalizeWebSocketInput({ websocketReplyMode: 'static' })).toThrow(/websocketReplyMessage/)
+      expect(() => normalizeWebSocketInput({ websocketReplyMessage: null }, { websocketReplyMode: 'template', websocketReplyMessage: 'x' })).toThrow()
+      expect(normalizeWebSocketInput({ websocketReplyMode: 'static' }, { websocketReplyMode: 'none', websocketReplyMessage: 'pong' }))
+        .toEqual({ websocketReplyMode: 'static' })
+    })
+  })
+
+  describe('encodeFrame', () => {
+    it('should keep text as is and binary as base64', () => {
+      expect(encodeFrame(Buffer.from('hello'))).toEqual({ type: 'text', data: 'hello', size: 5, truncated: false, closeCode: null })
+      expect(encodeFrame(Buffer.from([0xff, 0x00]))).toMatchObject({ type: 'binary', data: '/wA=', size: 2 })
+    })
+
+    it('should truncate large frames', () => {
+      const frame = encodeFrame(Buffer.alloc(MAX_FRAME_BYTES + 10, 'a'))
+
+      expect(frame.truncated).toBe(true)
+      expect(frame.size).toBe(MAX_FRAME_BYTES + 10)
+      expect(frame.data).toHaveLength(MAX_FRAME_BYTES)
+    })
+  })
+
+  describe('buildReply', () => {
+    it('should answer according to the mode', () => {
+      const data = Buffer.from('{"id":7}')
+
+      expect(buildReply({ websocketReplyMode: 'none', websocketReplyMessage: 'x' }, data, handshake)).toBeNull()
+      expect(buildReply({ websocketReplyMode: 'echo', websocketReplyMessage: null }, data, handshake)).toBe('{"id":7}')
+      expect(buildReply({ websocketReplyMode: 'echo', websocketReplyMessage: null }, Buffer.from([0xff]), handshake)).toEqual(Buffer.from([0xff]))
+      expect(buildReply({ websocketReplyMode: 'static', websocketReplyMessage: 'pong' }, data, handshake)).toBe('pong')
+      expect(buildReply({ websocketReplyMode: 'template', websocketReplyMessage: 'ack {{request.body.id}} in {{request.query.room}}' }, data, handshake))
+        .toBe('ack 7 in 1')
+    })
+  })
+
+  describe('hooks', () => {
+    let testDb: TestDbContext
+    let db: ReturnType<typeof useDatabase>
+    let sessionId: string
+
+    beforeEach(async () => {
+      testDb = await createTestDb()
+      process.env.STORAGE_PATH = testDb.filesPath
+      db = useDatabase(testDb.dbFile, testDb.filesPath)
+
+      sessionId = randomUUID()
+      await getDb(testDb.dbFile).insert(sessions).values({ id: sessionId, friendlyId: 'websocket-session', lastAccessedAt: new Date() })
+    })
+
+    afterEach(async () => {
+      delete process.env.STORAGE_PATH
+      await testDb.cleanup()
+    })
+
+    it('should refuse unknown tokens and tokens over their limit', async () => {
+      const unknown = await upgrade(randomUUID())
+      expect((unknown.response as Response).status).toBe(404)
+
+      const token = await db.tokens.create(sessionId)
+      await db.tokens.update(sessionId, token.id, { rateLimitPerMinute: 0 })
+
+      const limited = await upgrade(token.friendlyId)
+      expect((limited.response as Response).status).toBe(429)
+      expect((await db.tokens.get(sessionId, token.id))?.rejectedCount).toBe(1)
+    })
+
+    it('should record the handshake and frames in both directions', async () => {
+      const token = await db.tokens.create(sessionId)
+      await db.tokens.update(sessionId, token.id, { websocketReplyMode: 'echo' })
+
+      const { response, peer } = await upgrade(token.id, { 'x-client': 'test' })
+      expect(response).toBeUndefined()
+
+      await send(peer, Buffer.from('hello'))
+      await (websocketHooks as Hooks).close(asPeer(peer), { code: 1000, reason: 'bye' })
+
+      const [request] = await db.requests.list(sessionId, token.id)
+      expect(request).toMatchObject({ method: 'GET', url: `/api/payload/${token.id}/ws?room=1`, websocket: true })
+      expect(JSON.parse(request!.headers)).toMatchObject({ 'x-client': 'test' })
+
+      expect(peer.send).toHaveBeenCalledWith('hello')
+      const frames = await db.frames.list(request!.id)
+      expect(frames.map(f => [f.direction, f.type, f.data, f.closeCode])).toEqual([
+        ['inbound', 'text', 'hello', null],
+        ['outbound', 'text', 'hello', null],
+        ['inbound', 'close', 'bye', 1000],
+      ])
+    })
+
+    it('should refuse handshakes without valid credentials', async () => {
+      const token = await db.tokens.create(sessionId)
+      await db.tokens.update(sessionId, token.id, { authScheme: 'bearer', authSecret: 'secret', websocketReplyMode: 'echo' })
+
+      const { response, peer } = await upgrade(token.id)
+      expect((response as Response).status).toBe(401)
+      expect((response as Response).headers.get('WWW-Authenticate')).toContain('Bearer')
+      expect(peer.context).toEqual({})
+
+      const [request] = await db.requests.list(sessionId, token.id)
+      expect(request).toMatchObject({ websocket: true, authStatus: 'missing' })
+
+      const accepted = await upgrade(token.id, { authorization: 'Bearer secret' })
+      expect(accepted.response).toBeUndefined()
+    })
+
+    it('should refuse handshakes from blocked addresses', async () => {
+      const token = await db.tokens.create(sessionId)
+      await db.tokens.update(sessionId, token.id, {
+        ipPolicy: JSON.stringify({ allow: ['192.0.2.0/24'], deny: [], status: 404, recordBlocked: true }),
+      })
+
+      const { response } = await upgrade(token.id)
+      expect((response as Response).status).toBe(404)
+
+      const [request] = await db.requests.list(sessionId, token.id)
+      expect(request).toMatchObject({ websocket: true, blocked: true })
+    })
+
+    it('should refuse blocked handshakes even when the policy answers with a success status', async () => {
+      const token = await db.tokens.create(sessionId)
+      await db.tokens.update(sessionId, token.id, {
+        ipPolicy: JSON.stringify({ allow: ['192.0.2.0/24'], deny: [], status: 204, recordBlocked: false }),
+      })
+
+      const { response, peer } = await upgrade(token.id)
+      expect((response as Response).status).toBe(403)
+      expect(peer.context).toEqual({})
+      expect(await db.requests.count(sessionId, token.id)).toBe(0)
+    })
+
+    it('should keep the handshake headers as received and how it arrived', async () => {
+      const token = await db.tokens.create(sessionId)
+      const nodeReq = new IncomingMessage(new Socket())
+      nodeReq.httpVersion = '1.1'
+      nodeReq.rawHeaders = ['Host', 'localhost', 'X-Client', 'one', 'x-client', 'two']
+
+      const { response } = await upgrade(token.id, {}, nodeReq)
+      expect(response).toBeUndefined()
+
+      const [request] = await db.requests.list(sessionId, token.id)
+      expect(JSON.parse(request!.rawHeaders!)).toEqual([['Host', 'localhost'], ['X-Client', 'one'], ['x-client', 'two']])
+      expect(request).toMatchObject({ httpVersion: '1.1', tls: false, bodyFraming: null })
+    })
+  })
+})
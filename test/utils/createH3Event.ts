@@ -13,6 +13,7 @@ export type TestH3Event = {
       statusCode?: number
       setHeader?: (k: string, v: string | string[]) => void
       getHeader?: (k: string) => string | string[] | undefined
+      getHeaders?: () => Record<string, string | string[]>
       appendHeader?: (k: string, v: string) => void
       removeHeader?: (k: string) => void
       end?: (d?: unknown) => void
@@ -55,6 +56,7 @@ export function createH3Event(overrides?: Partial<TestH3Event> | Partial<H3Event
           }
         },
         getHeader: (key: string) => headerStore.get(key.toLowerCase()),
+        getHeaders: () => Object.fromEntries(headerStore),
         appendHeader: (key: string, value: string) => {
           const normalized = key.toLowerCase()
           const existing = headerStore.get(normalized)